@@ -0,0 +1,270 @@
+// apiExtractor.ts - Exported symbols of a TypeScript/JavaScript library, read with the TypeScript compiler API
+
+import * as ts from 'typescript';
+import { ApiSymbol, EntryPoint, FileInfo, PublicApi } from './types';
+
+const SOURCE_FILE = /\.(d\.ts|ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i;
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+/** Build output folders whose files usually come from src/ */
+const BUILD_DIRECTORY = /^(?:dist|lib|build|out|esm|cjs|es|types)\/(?:esm\/|cjs\/|src\/)?/;
+/** Entry point kinds in order of preference; `bin` is a program, not an API */
+const ENTRY_KINDS: EntryPoint['kind'][] = ['types', 'export', 'module', 'main'];
+const MAX_INITIALIZER_LENGTH = 60;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+    allowJs: true,
+    noLib: true,
+    types: [],
+    target: ts.ScriptTarget.Latest,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.Preserve
+};
+
+/**
+ * Exports of the package entry points. Built paths such as dist/index.js
+ * are mapped back to their sources; a package.json without entry points
+ * uses index files. Undefined when no entry point source is found.
+ * @param maxEntries Symbols kept; `total` still counts every export
+ */
+export function extractPublicApi(fileInfos: FileInfo[], entryPoints: EntryPoint[], maxEntries: number): PublicApi | undefined {
+    const sources = new Map<string, string>();
+    const outlined: string[] = [];
+    for (const file of fileInfos) {
+        const filePath = file.path.replace(/\\/g, '/');
+        if (!SOURCE_FILE.test(filePath)) {
+            continue;
+        }
+        // An outline is not valid source, so large files cannot be type-checked
+        if (file.isOutline) {
+            outlined.push(filePath);
+        } else {
+            sources.set(`/${filePath}`, file.content);
+        }
+    }
+    if (outlined.length > 0) {
+        console.log(`⚠️ Public API leaves out ${outlined.length} files over readmeGenerator.maxFileSize: ${outlined.join(', ')}`);
+    }
+
+    const declared = ENTRY_KINDS.flatMap(kind => entryPoints.filter(entry => entry.kind === kind).map(entry => entry.path));
+    if (declared.length === 0 && fileInfos.some(file => file.path === 'package.json')) {
+        declared.push('index.js');
+    }
+    const entries = Array.from(new Set(declared.map(entry => resolveEntrySource(entry, sources)).filter((entry): entry is string => entry !== undefined)));
+    if (entries.length === 0) {
+        return undefined;
+    }
+
+    let program: ts.Program;
+    try {
+        program = ts.createProgram(entries, COMPILER_OPTIONS, createInMemoryHost(sources));
+    } catch (error) {
+        console.error('Error reading the public API:', error);
+        return undefined;
+    }
+    const checker = program.getTypeChecker();
+
+    const symbols: ApiSymbol[] = [];
+    const seen = new Set<ts.Declaration>();
+    for (const entry of entries) {
+        const sourceFile = program.getSourceFile(entry);
+        const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+        if (!moduleSymbol) {
+            continue;
+        }
+
+        for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+            const target = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+            const declarations = (target.declarations ?? []).filter(declaration => !seen.has(declaration));
+            const tags = target.getJsDocTags(checker);
+            if (declarations.length === 0 || tags.some(tag => tag.name === 'internal' || tag.name === 'private')) {
+                continue;
+            }
+            declarations.forEach(declaration => seen.add(declaration));
+
+            const symbol = describeSymbol(exported.name, declarations, checker, target);
+            if (symbol) {
+                symbol.deprecated = tags.some(tag => tag.name === 'deprecated') || undefined;
+                symbols.push(symbol);
+            }
+        }
+    }
+
+    return {
+        entries: entries.map(entry => entry.slice(1)),
+        symbols: symbols.slice(0, maxEntries),
+        total: symbols.length
+    };
+}
+
+/**
+ * Source file in the workspace for a declared entry point path
+ */
+function resolveEntrySource(entry: string, sources: Map<string, string>): string | undefined {
+    const entryPath = entry.replace(/^\.?\//, '');
+    const withoutExtension = entryPath.replace(/(\.d)?\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i, '');
+    const bases = [withoutExtension, withoutExtension.replace(BUILD_DIRECTORY, 'src/')];
+    const candidates = [
+        ...bases.flatMap(base => SOURCE_EXTENSIONS.map(extension => `/${base}${extension}`)),
+        `/${entryPath}`,
+        ...bases.flatMap(base => SOURCE_EXTENSIONS.map(extension => `/${base}/index${extension}`)),
+        ...(entryPath === 'index.js' ? SOURCE_EXTENSIONS.map(extension => `/src/index${extension}`) : [])
+    ];
+    return candidates.find(candidate => sources.has(candidate));
+}
+
+/**
+ * Compiler host over the analyzed files, rooted at "/" so nothing is read from disk
+ */
+function createInMemoryHost(sources: Map<string, string>): ts.CompilerHost {
+    return {
+        getSourceFile: (fileName, languageVersion) => {
+            const content = sources.get(fileName);
+            return content === undefined ? undefined : ts.createSourceFile(fileName, content, languageVersion, true);
+        },
+        getDefaultLibFileName: () => '/lib.d.ts',
+        writeFile: () => undefined,
+        getCurrentDirectory: () => '/',
+        getCanonicalFileName: fileName => fileName,
+        useCaseSensitiveFileNames: () => true,
+        getNewLine: () => '\n',
+        fileExists: fileName => sources.has(fileName),
+        readFile: fileName => sources.get(fileName),
+        directoryExists: directory => {
+            const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+            return Array.from(sources.keys()).some(fileName => fileName.startsWith(prefix));
+        },
+        getDirectories: () => []
+    };
+}
+
+function describeSymbol(name: string, declarations: ts.Declaration[], checker: ts.TypeChecker, symbol: ts.Symbol): ApiSymbol | undefined {
+    const declaration = declarations[0];
+    const sourceFile = declaration.getSourceFile();
+    const kind = kindOf(declaration);
+    if (!kind) {
+        return undefined;
+    }
+
+    // Overloads are documented by their signatures, not the implementation
+    const functions = declarations.filter(ts.isFunctionDeclaration);
+    const overloads = functions.filter(fn => !fn.body);
+    const signature = functions.length > 0
+        ? (overloads.length > 0 ? overloads : functions).map(fn => functionSignature(fn)).join('\n')
+        : signatureOf(declaration, name);
+
+    return {
+        name,
+        kind,
+        signature,
+        description: ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() || undefined,
+        file: sourceFile.fileName.slice(1),
+        line: sourceFile.getLineAndCharacterOfPosition(declaration.getStart()).line + 1
+    };
+}
+
+function kindOf(declaration: ts.Declaration): ApiSymbol['kind'] | undefined {
+    if (ts.isFunctionDeclaration(declaration)) {
+        return 'function';
+    }
+    if (ts.isClassDeclaration(declaration)) {
+        return 'class';
+    }
+    if (ts.isInterfaceDeclaration(declaration)) {
+        return 'interface';
+    }
+    if (ts.isTypeAliasDeclaration(declaration)) {
+        return 'type';
+    }
+    if (ts.isEnumDeclaration(declaration)) {
+        return 'enum';
+    }
+    if (ts.isVariableDeclaration(declaration)) {
+        return declaration.initializer && isFunctionExpression(declaration.initializer) ? 'function' : 'variable';
+    }
+    if (ts.isExportAssignment(declaration) || ts.isPropertyAssignment(declaration) || ts.isShorthandPropertyAssignment(declaration) || ts.isBinaryExpression(declaration)) {
+        return 'variable';
+    }
+    return undefined;
+}
+
+/**
+ * Declaration text without bodies, initializers, private members or modifiers like export
+ */
+function signatureOf(declaration: ts.Declaration, name: string): string {
+    if (ts.isClassDeclaration(declaration)) {
+        const header = flatten(declaration.getText().slice(0, declaration.members.pos - declaration.getStart()).replace(/\{\s*$/, ''));
+        const members = declaration.members
+            .filter(member => !isHidden(member))
+            .map(member => `    ${memberSignature(member)}`);
+        return `${stripModifiers(header)} {${members.length > 0 ? `\n${members.join('\n')}\n` : ''}}`;
+    }
+    if (ts.isInterfaceDeclaration(declaration) || ts.isTypeAliasDeclaration(declaration) || ts.isEnumDeclaration(declaration)) {
+        return stripModifiers(declaration.getText());
+    }
+    if (ts.isVariableDeclaration(declaration)) {
+        const initializer = declaration.initializer;
+        if (initializer && isFunctionExpression(initializer)) {
+            const parameters = initializer.parameters.map(parameter => parameter.getText()).join(', ');
+            const async = initializer.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword) ? 'async ' : '';
+            return flatten(`${async}function ${name}${typeParameters(initializer)}(${parameters})${initializer.type ? `: ${initializer.type.getText()}` : ''}`);
+        }
+        const keyword = ts.isVariableDeclarationList(declaration.parent) && declaration.parent.flags & ts.NodeFlags.Const ? 'const' : 'let';
+        if (declaration.type) {
+            return flatten(`${keyword} ${name}: ${declaration.type.getText()}`);
+        }
+        const value = initializer?.getText();
+        return `${keyword} ${name}${value && value.length <= MAX_INITIALIZER_LENGTH && !value.includes('\n') ? ` = ${value}` : ''}`;
+    }
+    return name === 'default' ? 'export default' : name;
+}
+
+function functionSignature(declaration: ts.FunctionDeclaration): string {
+    return stripModifiers(flatten(textBefore(declaration, declaration.body)));
+}
+
+function memberSignature(member: ts.ClassElement): string {
+    if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        return `${flatten(textBefore(member, member.body))};`;
+    }
+    if (ts.isPropertyDeclaration(member) && member.initializer) {
+        return `${flatten(textBefore(member, member.initializer).replace(/\s*=\s*$/, ''))};`;
+    }
+    return flatten(member.getText().replace(/;?$/, ';'));
+}
+
+/**
+ * Private, protected, #private and @internal members are not part of the API
+ */
+function isHidden(member: ts.ClassElement): boolean {
+    const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) ?? [] : [];
+    return modifiers.some(modifier => modifier.kind === ts.SyntaxKind.PrivateKeyword || modifier.kind === ts.SyntaxKind.ProtectedKeyword) ||
+        (member.name !== undefined && ts.isPrivateIdentifier(member.name)) ||
+        ts.getJSDocTags(member).some(tag => tag.tagName.text === 'internal') ||
+        ts.isClassStaticBlockDeclaration(member) ||
+        ts.isSemicolonClassElement(member);
+}
+
+function isFunctionExpression(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+    return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+function typeParameters(node: ts.SignatureDeclarationBase): string {
+    return node.typeParameters ? `<${node.typeParameters.map(parameter => parameter.getText()).join(', ')}>` : '';
+}
+
+/**
+ * Source text of a node up to one of its children, or all of it when the child is missing
+ */
+function textBefore(node: ts.Node, child: ts.Node | undefined): string {
+    const text = node.getText();
+    return child ? text.slice(0, child.getStart() - node.getStart()) : text.replace(/;\s*$/, '');
+}
+
+function stripModifiers(text: string): string {
+    return text.replace(/^(?:(?:export|default|declare)\s+)+/, '');
+}
+
+function flatten(text: string): string {
+    return text.replace(/\s+/g, ' ').replace(/\(\s+/g, '(').replace(/,?\s+\)/g, ')').trim();
+}
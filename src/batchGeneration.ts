@@ -0,0 +1,274 @@
+// batchGeneration.ts - Generate READMEs for several workspace folders or monorepo packages in one run
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodebaseAnalyzer } from './codebaseAnalyzer';
+import { ReadmeGenerator } from './readmeGenerator';
+import { GenerationCancelledError } from './errors';
+import { getSavedReadmeChanges, summarizeReadmeChanges } from './readmeMerge';
+import { ProposedReadmeProvider, reviewReadmeChanges } from './readmeReview';
+import { summarizeRedactions } from './secretRedactor';
+import { filterSelectedFiles } from './fileSelection';
+import { CodeChunk, CodebaseAnalysis, ExistingReadmePolicy, FileInfo, FolderGenerationResult, GenerationProgress, MonorepoLayout, RedactionReport } from './types';
+
+/**
+ * A folder to write a README for, and how to get its analysis
+ */
+interface GenerationTarget {
+    name: string;
+    root: string;
+    analyze: (report: (progress: GenerationProgress) => void) => Promise<{ analysis: CodebaseAnalysis; chunks: CodeChunk[]; redactions?: RedactionReport }>;
+}
+
+/**
+ * Analyze, generate and save a README for every folder, then show a summary.
+ * Every folder is analyzed and its files reviewed with `selectFiles` before
+ * anything is generated; a cancelled review stops the whole run. Changes to
+ * an existing README are saved only after their diff is accepted.
+ */
+export async function generateReadmesForFolders(
+    folders: readonly vscode.WorkspaceFolder[],
+    offline: boolean,
+    reviewProvider: ProposedReadmeProvider,
+    selectFiles: (folderRoot: string, files: FileInfo[], token: vscode.CancellationToken) => Promise<string[] | undefined> = async () => []
+): Promise<FolderGenerationResult[]> {
+    const targets = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'README AI Generator',
+        cancellable: true
+    }, async (progress, token) => {
+        const prepared: GenerationTarget[] = [];
+
+        for (const folder of folders) {
+            const analyzer = new CodebaseAnalyzer(folder.uri.fsPath);
+            const analyzed = await analyzer.analyzeCodebase(progressInfo => {
+                progress.report({ message: `${folder.name}: ${progressInfo.message}` });
+            });
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+
+            progress.report({ message: `${folder.name}: waiting for the file review` });
+            const files = analyzed.chunks.flatMap(chunk => chunk.files);
+            const excluded = await selectFiles(folder.uri.fsPath, files, token);
+            if (!excluded) {
+                return undefined;
+            }
+
+            const selected = excluded.length > 0
+                ? { ...analyzer.analyzeSelection(filterSelectedFiles(files, new Set(excluded))), redactions: analyzed.redactions }
+                : analyzed;
+            prepared.push({ name: folder.name, root: folder.uri.fsPath, analyze: async () => selected });
+        }
+        return prepared;
+    });
+
+    if (!targets) {
+        vscode.window.showInformationMessage('❌ File review cancelled; nothing was sent');
+        return [];
+    }
+    return generateReadmesForTargets(targets, offline, reviewProvider);
+}
+
+/**
+ * Generate a README in every package folder of a monorepo from the files
+ * already analyzed (and reviewed) for the repository root
+ */
+export async function generatePackageReadmes(
+    workspaceRoot: string,
+    monorepo: MonorepoLayout,
+    files: FileInfo[],
+    offline: boolean,
+    reviewProvider: ProposedReadmeProvider
+): Promise<FolderGenerationResult[]> {
+    const analyzer = new CodebaseAnalyzer(workspaceRoot);
+    return generateReadmesForTargets(monorepo.packages.map(pkg => ({
+        name: pkg.name,
+        root: path.join(workspaceRoot, ...pkg.path.split('/')),
+        analyze: async () => analyzer.analyzePackage(files, monorepo, pkg)
+    })), offline, reviewProvider);
+}
+
+async function generateReadmesForTargets(
+    targets: GenerationTarget[],
+    offline: boolean,
+    reviewProvider: ProposedReadmeProvider
+): Promise<FolderGenerationResult[]> {
+    const existingPolicy = await askExistingReadmePolicy(targets);
+    if (existingPolicy === undefined) {
+        return [];
+    }
+
+    const results: FolderGenerationResult[] = [];
+    const structuredOutput = vscode.workspace.getConfiguration('readmeGenerator').get<string>('outputFormat', 'markdown') === 'structured';
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'README AI Generator',
+        cancellable: true
+    }, async (progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => {
+            console.log('❌ Batch README generation cancelled by user');
+            abortController.abort();
+        });
+
+        const targetShare = 100 / targets.length;
+
+        for (let i = 0; i < targets.length; i++) {
+            const target = targets[i];
+            const prefix = `[${i + 1}/${targets.length}] ${target.name}`;
+            let reported = 0;
+
+            const report = (message: string, percentage: number) => {
+                const targetProgress = Math.min(100, Math.max(0, percentage));
+                progress.report({
+                    message: `${prefix}: ${message}`,
+                    increment: (targetProgress - reported) * targetShare / 100
+                });
+                reported = targetProgress;
+            };
+
+            if (token.isCancellationRequested) {
+                results.push(createResult(target, 'skipped', 'Cancelled before start'));
+                continue;
+            }
+
+            const readmePath = path.join(target.root, 'README.md');
+            if (existingPolicy === 'skip' && fs.existsSync(readmePath)) {
+                results.push(createResult(target, 'skipped', 'README.md already exists'));
+                report('skipped', 100);
+                continue;
+            }
+
+            try {
+                const { analysis, chunks, redactions } = await target.analyze(progressInfo => {
+                    report(progressInfo.message, progressInfo.percentage / 2);
+                });
+
+                if (analysis.totalFiles === 0) {
+                    results.push(createResult(target, 'skipped', 'No files to analyze'));
+                    report('skipped', 100);
+                    continue;
+                }
+
+                const readmeGenerator = new ReadmeGenerator(target.root, { offline });
+                const readmeContent = await readmeGenerator.generateReadme(analysis, chunks, progressInfo => {
+                    report(progressInfo.message, 50 + progressInfo.percentage / 2);
+                }, { signal: abortController.signal, structuredOutput });
+
+                const merged = existingPolicy === 'update' ? readmeGenerator.mergeWithExistingReadme(readmeContent) : undefined;
+                let contentToSave = merged ? merged.content : readmeContent;
+
+                // Nothing overwrites an existing README until the user has reviewed the diff
+                if (fs.existsSync(readmePath)) {
+                    report('waiting for review', 100);
+                    const reviewed = await reviewReadmeChanges(reviewProvider, readmePath, fs.readFileSync(readmePath, 'utf8'), contentToSave, token);
+                    if (reviewed === undefined) {
+                        results.push(createResult(target, 'skipped', 'Changes not accepted in review'));
+                        continue;
+                    }
+                    contentToSave = reviewed;
+                }
+
+                const savedPath = await readmeGenerator.saveReadme(contentToSave);
+                let detail = merged
+                    ? `${analysis.totalFiles} files analyzed; updated: ${summarizeReadmeChanges(getSavedReadmeChanges(merged.changes, merged.content, contentToSave))}`
+                    : `${analysis.totalFiles} files analyzed`;
+                if (redactions && redactions.findings.length > 0) {
+                    detail += `; redacted ${summarizeRedactions(redactions)}`;
+                }
+                results.push({ ...createResult(target, 'succeeded', detail), readmePath: savedPath });
+            } catch (error) {
+                if (error instanceof GenerationCancelledError || token.isCancellationRequested) {
+                    results.push(createResult(target, 'skipped', 'Cancelled'));
+                } else {
+                    console.error(`❌ README generation failed for ${target.name}:`, error);
+                    results.push(createResult(target, 'failed', error instanceof Error ? error.message : 'Unknown error'));
+                }
+            }
+
+            report('done', 100);
+        }
+    });
+
+    await showBatchSummary(results);
+    return results;
+}
+
+/**
+ * Ask how to handle folders that already have a README. Returns undefined when dismissed.
+ */
+async function askExistingReadmePolicy(targets: GenerationTarget[]): Promise<'update' | 'overwrite' | 'skip' | undefined> {
+    const withReadme = targets.filter(target => fs.existsSync(path.join(target.root, 'README.md')));
+    if (withReadme.length === 0) {
+        return 'overwrite';
+    }
+
+    const policy = vscode.workspace.getConfiguration('readmeGenerator').get<ExistingReadmePolicy>('existingReadme', 'ask');
+    if (policy !== 'ask') {
+        return policy;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `${withReadme.length} of ${targets.length} folders already have a README.md (${withReadme.map(target => target.name).join(', ')}).`,
+        { modal: true },
+        'Update (Keep Hand-Written Content)',
+        'Overwrite',
+        'Skip Those Folders'
+    );
+
+    if (answer === 'Update (Keep Hand-Written Content)') {
+        return 'update';
+    }
+    if (answer === 'Overwrite') {
+        return 'overwrite';
+    }
+    if (answer === 'Skip Those Folders') {
+        return 'skip';
+    }
+    return undefined;
+}
+
+function createResult(target: GenerationTarget, status: FolderGenerationResult['status'], detail: string): FolderGenerationResult {
+    return {
+        folderName: target.name,
+        folderPath: target.root,
+        status,
+        detail
+    };
+}
+
+/**
+ * Show a one-line summary with an option to open the full per-folder report
+ */
+async function showBatchSummary(results: FolderGenerationResult[]): Promise<void> {
+    if (results.length === 0) {
+        return;
+    }
+
+    const count = (status: FolderGenerationResult['status']) => results.filter(result => result.status === status).length;
+    const summary = `README generation finished: ✅ ${count('succeeded')} succeeded, ❌ ${count('failed')} failed, ⏭️ ${count('skipped')} skipped`;
+
+    const show = count('failed') > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+    const action = await show(summary, 'Show Summary');
+
+    if (action === 'Show Summary') {
+        const icons = { succeeded: '✅', failed: '❌', skipped: '⏭️' };
+        const rows = results.map(result =>
+            `| ${icons[result.status]} ${result.folderName} | ${result.status} | ${result.detail.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`
+        );
+        const content = `# README Generation Summary
+
+| Folder | Status | Details |
+| --- | --- | --- |
+${rows.join('\n')}
+
+---
+*Generated by README AI Generator*`;
+
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+        await vscode.window.showTextDocument(doc);
+    }
+}
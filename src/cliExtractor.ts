@@ -0,0 +1,938 @@
+// cliExtractor.ts - Commands, flags and defaults of command-line programs from their argument parser setup
+
+import { CliCommand, CliOption, CommandLineInterface, FileInfo } from './types';
+
+/**
+ * Commands found by one argument parser, with the program name its setup declares
+ */
+interface ParsedCli {
+    program?: string;
+    commands: CliCommand[];
+}
+
+type Extractor = (files: FileInfo[]) => ParsedCli;
+
+/**
+ * A command before its place in the command tree is known
+ */
+interface CommandDraft {
+    command: CliCommand;
+    /** Word that invokes it under its parent */
+    word: string;
+    parent?: CommandDraft;
+}
+
+/**
+ * How strings, comments and brackets look in a language, for bracket matching
+ */
+interface Syntax {
+    quotes: string;
+    lineComment: string;
+    blockComments: boolean;
+    /** Treat < > as brackets, for Rust generics */
+    angles?: boolean;
+}
+
+const JAVASCRIPT: Syntax = { quotes: '\'"`', lineComment: '//', blockComments: true };
+const PYTHON: Syntax = { quotes: '\'"', lineComment: '#', blockComments: false };
+const GO: Syntax = { quotes: '"`', lineComment: '//', blockComments: true };
+const RUST: Syntax = { quotes: '"', lineComment: '//', blockComments: true, angles: true };
+
+const JS_FILE = /\.(js|mjs|cjs|ts|mts|cts)$/i;
+const TEST_FILE = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|(^|\/)test_\w+\.py$|_test\.go$/i;
+const MAX_DEFAULT_LENGTH = 40;
+
+const EXTRACTORS: [string, Extractor][] = [
+    ['commander', extractCommander],
+    ['yargs', extractYargs],
+    ['argparse', extractArgparse],
+    ['click', extractClick],
+    ['cobra', extractCobra],
+    ['clap', extractClap]
+];
+
+/**
+ * Commands and options declared with commander, yargs, argparse, click,
+ * cobra or clap's derive API. Undefined when the project declares none.
+ * @param binName Name from a package manifest `bin`, preferred over names in code
+ * @param projectName Used when neither the manifest nor the code names the program
+ */
+export function extractCommandLineInterface(fileInfos: FileInfo[], binName: string | undefined, projectName: string): CommandLineInterface | undefined {
+    const files = fileInfos
+        .map(file => ({ ...file, path: file.path.replace(/\\/g, '/') }))
+        .filter(file => !TEST_FILE.test(file.path));
+    const commands = new Map<string, CliCommand>();
+    const frameworks: string[] = [];
+    let program: string | undefined;
+
+    for (const [framework, extractor] of EXTRACTORS) {
+        let parsed: ParsedCli;
+        try {
+            parsed = extractor(files);
+        } catch (error) {
+            console.error(`Error extracting ${framework} commands:`, error);
+            continue;
+        }
+
+        const found = parsed.commands.filter(command => command.name !== '' || command.description || command.options.length > 0);
+        if (found.length === 0) {
+            continue;
+        }
+        frameworks.push(framework);
+        program ??= parsed.program;
+
+        for (const command of found) {
+            const existing = commands.get(command.name);
+            if (!existing) {
+                commands.set(command.name, command);
+                continue;
+            }
+            existing.description ??= command.description;
+            for (const option of command.options) {
+                if (!existing.options.some(known => known.flags === option.flags)) {
+                    existing.options.push(option);
+                }
+            }
+        }
+    }
+
+    if (commands.size === 0) {
+        return undefined;
+    }
+    return {
+        program: binName || program || projectName,
+        frameworks,
+        commands: Array.from(commands.values()).sort((a, b) => a.name.localeCompare(b.name))
+    };
+}
+
+/**
+ * program.command('add <name>').description(...).option('-f, --force', ...)
+ * chains, and variables holding a subcommand
+ */
+function extractCommander(files: FileInfo[]): ParsedCli {
+    const parsed: ParsedCli = { commands: [] };
+
+    for (const file of files.filter(file => JS_FILE.test(file.path) && /['"]commander['"]/.test(file.content))) {
+        const { content } = file;
+        const root = newCommand('', file, 1);
+        const variables = new Map<string, CliCommand>();
+        let current = root;
+        parsed.commands.push(root);
+
+        const call = /(?:\b([A-Za-z_$][\w$]*)\s*)?\.\s*(command|description|summary|option|requiredOption|argument|name)\s*\(/g;
+        for (const match of content.matchAll(call)) {
+            const args = callArguments(content, match.index! + match[0].length - 1, JAVASCRIPT);
+            if (!args) {
+                continue;
+            }
+            // A receiver starts a new chain; without one the call continues the last chain
+            const target = match[1] === undefined ? current : variables.get(match[1]) ?? root;
+            const first = literal(args[0]);
+            current = target;
+
+            switch (match[2]) {
+                case 'command': {
+                    if (!first) {
+                        break;
+                    }
+                    const [word, ...params] = first.trim().split(/\s+/);
+                    const command = newCommand(joinCommand(target.name, word), file, lineAt(content, match.index!));
+                    command.description = literal(args[1]);
+                    command.options.push(...params.map(param => positionalFromUsage(param)));
+                    parsed.commands.push(command);
+
+                    const assigned = content.slice(0, match.index).match(/\b(?:const|let|var)\s+(\w+)\s*=\s*$/);
+                    if (assigned) {
+                        variables.set(assigned[1], command);
+                    }
+                    // With a description the subcommand is a separate executable and the chain stays on the parent
+                    current = command.description === undefined ? command : target;
+                    break;
+                }
+                case 'description':
+                case 'summary':
+                    target.description ??= first;
+                    break;
+                case 'name':
+                    if (target === root) {
+                        parsed.program ??= first;
+                    }
+                    break;
+                case 'argument':
+                    if (first) {
+                        addOption(target, {
+                            ...positionalFromUsage(first),
+                            description: literal(args[1]),
+                            defaultValue: defaultText(args[2])
+                        });
+                    }
+                    break;
+                default:
+                    if (first) {
+                        // A parser function may sit between the description and the default
+                        const defaultArg = args.slice(2).filter(arg => isLiteralValue(arg)).pop();
+                        addOption(target, {
+                            flags: first,
+                            positional: false,
+                            description: literal(args[1]),
+                            defaultValue: defaultText(defaultArg),
+                            required: match[2] === 'requiredOption'
+                        });
+                    }
+            }
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * yargs .command('serve [port]', 'desc', builder) with options declared
+ * inside the builder belonging to that command, and .option/.options/.positional
+ */
+function extractYargs(files: FileInfo[]): ParsedCli {
+    const parsed: ParsedCli = { commands: [] };
+
+    for (const file of files.filter(file => JS_FILE.test(file.path) && /['"]yargs(?:\/yargs)?['"]/.test(file.content))) {
+        const { content } = file;
+        const root = newCommand('', file, 1);
+        const scopes: { start: number; end: number; command: CliCommand }[] = [];
+        parsed.commands.push(root);
+
+        const innermost = (index: number) => scopes.filter(scope => scope.start < index && index < scope.end).pop()?.command ?? root;
+        const call = /\.\s*(command|option|options|positional|scriptName)\s*\(/g;
+
+        for (const match of content.matchAll(call)) {
+            const open = match.index! + match[0].length - 1;
+            const end = closingBracket(content, open, JAVASCRIPT);
+            const args = callArguments(content, open, JAVASCRIPT);
+            if (!args || end === -1) {
+                continue;
+            }
+            const target = innermost(match.index!);
+
+            if (match[1] === 'scriptName') {
+                parsed.program ??= literal(args[0]);
+            } else if (match[1] === 'command') {
+                const module = args[0]?.startsWith('{') ? keywordArguments(objectEntries(args[0]), ':') : undefined;
+                const usage = module ? literal(module.get('command')) : literal(args[0]) ?? literal(arrayItems(args[0])[0]);
+                if (!usage) {
+                    continue;
+                }
+                const description = module ? literal(module.get('describe') ?? module.get('description') ?? module.get('desc')) : literal(args[1]);
+                const [word, ...params] = usage.trim().split(/\s+/);
+                // $0 and * declare the default command, which is the program itself
+                const command = word === '$0' || word === '*'
+                    ? target
+                    : newCommand(joinCommand(target.name, word), file, lineAt(content, match.index!));
+                command.description ??= description;
+                for (const param of params) {
+                    addOption(command, positionalFromUsage(param));
+                }
+                if (command !== target) {
+                    parsed.commands.push(command);
+                }
+                scopes.push({ start: open, end, command });
+            } else if (match[1] === 'options') {
+                for (const [name, value] of keywordArguments(objectEntries(args[0] ?? ''), ':')) {
+                    addOption(target, yargsOption(name, value));
+                }
+            } else {
+                const name = literal(args[0]);
+                if (!name) {
+                    continue;
+                }
+                if (match[1] === 'option') {
+                    addOption(target, yargsOption(name, args[1] ?? '{}'));
+                } else {
+                    const fields = keywordArguments(objectEntries(args[1] ?? '{}'), ':');
+                    const existing = target.options.find(option => option.positional && option.flags.replace(/[<>[\].]/g, '') === name);
+                    const positional = existing ?? { flags: `<${name}>`, positional: true, required: true };
+                    positional.description ??= literal(fields.get('describe') ?? fields.get('description') ?? fields.get('desc'));
+                    positional.defaultValue ??= defaultText(fields.get('default'));
+                    if (!existing) {
+                        target.options.push(positional);
+                    }
+                }
+            }
+        }
+    }
+
+    return parsed;
+}
+
+function yargsOption(name: string, object: string): CliOption {
+    const fields = keywordArguments(objectEntries(object), ':');
+    const alias = fields.get('alias');
+    const aliases = [name, ...(alias?.startsWith('[') ? arrayItems(alias).map(literal) : [literal(alias)])]
+        .filter((item): item is string => item !== undefined);
+    const type = literal(fields.get('type'));
+    const demanded = fields.get('demandOption') ?? fields.get('demand') ?? fields.get('required');
+
+    return {
+        flags: sortFlags(Array.from(new Set(aliases)).map(alias => alias.length === 1 ? `-${alias}` : `--${alias}`)).join(', ') +
+            (type && type !== 'boolean' && type !== 'count' ? ` <${type}>` : ''),
+        positional: false,
+        description: literal(fields.get('describe') ?? fields.get('description') ?? fields.get('desc')),
+        defaultValue: defaultText(fields.get('default')),
+        required: demanded !== undefined && demanded !== 'false'
+    };
+}
+
+/**
+ * ArgumentParser, add_subparsers().add_parser() and add_argument calls,
+ * including argument groups
+ */
+function extractArgparse(files: FileInfo[]): ParsedCli {
+    const parsed: ParsedCli = { commands: [] };
+
+    for (const file of files.filter(file => file.path.endsWith('.py') && /\bargparse\b/.test(file.content))) {
+        const { content } = file;
+        const parsers = new Map<string, CliCommand>();
+        const subparsers = new Map<string, CliCommand>();
+        let root: CliCommand | undefined;
+
+        const call = /(?:\b([\w.]+)\s*=\s*)?(?:\b([\w.]+)\.)?\b(ArgumentParser|add_subparsers|add_parser|add_argument_group|add_mutually_exclusive_group|add_argument)\s*\(/g;
+        for (const match of content.matchAll(call)) {
+            const args = callArguments(content, match.index! + match[0].length - 1, PYTHON);
+            if (!args) {
+                continue;
+            }
+            const [variable, receiver, method] = [match[1], match[2] ?? '', match[3]];
+            const keywords = keywordArguments(args, '=');
+            const positionals = args.filter(arg => !/^\w+\s*=/.test(arg)).map(literal).filter((arg): arg is string => arg !== undefined);
+
+            if (method === 'ArgumentParser') {
+                root ??= newCommand('', file, lineAt(content, match.index!));
+                root.description ??= firstLine(literal(keywords.get('description')));
+                parsed.program ??= literal(keywords.get('prog'));
+                parsed.commands.push(root);
+                if (variable) {
+                    parsers.set(variable, root);
+                }
+            } else if (method === 'add_subparsers') {
+                if (variable) {
+                    subparsers.set(variable, parsers.get(receiver) ?? root ?? newCommand('', file, 1));
+                }
+            } else if (method === 'add_parser') {
+                const parent = subparsers.get(receiver);
+                if (!parent || !positionals[0]) {
+                    continue;
+                }
+                const command = newCommand(joinCommand(parent.name, positionals[0]), file, lineAt(content, match.index!));
+                command.description = firstLine(literal(keywords.get('help') ?? keywords.get('description')));
+                parsed.commands.push(command);
+                if (variable) {
+                    parsers.set(variable, command);
+                }
+            } else if (method === 'add_argument') {
+                const target = parsers.get(receiver);
+                if (target && positionals.length > 0 && keywords.get('help') !== 'argparse.SUPPRESS') {
+                    addOption(target, argparseOption(positionals, keywords));
+                }
+            } else if (variable && parsers.has(receiver)) {
+                parsers.set(variable, parsers.get(receiver)!);
+            }
+        }
+    }
+
+    return parsed;
+}
+
+function argparseOption(names: string[], keywords: Map<string, string>): CliOption {
+    const defaultValue = defaultText(keywords.get('default'));
+    const description = literal(keywords.get('help'))?.replace(/%\(default\)s/g, defaultValue ?? '');
+    const metavar = literal(keywords.get('metavar'));
+    const nargs = literal(keywords.get('nargs')) ?? keywords.get('nargs');
+
+    if (!names[0].startsWith('-')) {
+        const optional = nargs === '?' || nargs === '*';
+        const variadic = nargs === '*' || nargs === '+' ? '...' : '';
+        const name = metavar ?? names[0];
+        return { flags: optional ? `[${name}]${variadic}` : `<${name}>${variadic}`, positional: true, description, defaultValue, required: !optional };
+    }
+
+    const action = literal(keywords.get('action'));
+    const takesValue = action === undefined || ['store', 'append', 'extend'].includes(action);
+    const dest = names.reduce((longest, name) => name.length > longest.length ? name : longest).replace(/^-+/, '');
+    return {
+        flags: sortFlags(names).join(', ') + (takesValue ? ` <${metavar ?? dest}>` : ''),
+        positional: false,
+        description,
+        defaultValue: takesValue ? defaultValue : undefined,
+        required: keywords.get('required') === 'True'
+    };
+}
+
+/**
+ * @click.group/@click.command functions with their @click.option and
+ * @click.argument decorators; @group.command() and group.add_command() nest them
+ */
+function extractClick(files: FileInfo[]): ParsedCli {
+    const drafts = new Map<string, CommandDraft & { parentName?: string }>();
+    const additions: { parent: string; child: string; word?: string }[] = [];
+
+    for (const file of files.filter(file => file.path.endsWith('.py') && /^\s*(?:import|from)\s+(?:click|cloup)\b/m.test(file.content))) {
+        const { content } = file;
+        let decorators: { name: string; args: string[] }[] = [];
+
+        for (const match of content.matchAll(/^[ \t]*(?:@([\w.]+)\s*(\()?|(?:async\s+)?def\s+(\w+))/gm)) {
+            if (match[1]) {
+                const args = match[2] ? callArguments(content, match.index! + match[0].length - 1, PYTHON) ?? [] : [];
+                decorators.push({ name: match[1], args });
+                continue;
+            }
+
+            const functionName = match[3];
+            const declaration = decorators.find(decorator => /(^|\.)(command|group)$/.test(decorator.name));
+            if (declaration) {
+                const keywords = keywordArguments(declaration.args, '=');
+                const receiver = declaration.name.split('.').slice(0, -1).join('.');
+                const command = newCommand('', file, lineAt(content, match.index!));
+                command.description = firstLine(literal(keywords.get('help') ?? keywords.get('short_help'))) ?? docstring(content, match.index!);
+                for (const decorator of decorators) {
+                    if (/(^|\.)(option|argument)$/.test(decorator.name)) {
+                        command.options.push(clickOption(decorator.args, decorator.name.endsWith('argument')));
+                    }
+                }
+                drafts.set(functionName, {
+                    command,
+                    word: literal(declaration.args[0]) ?? literal(keywords.get('name')) ?? functionName.replace(/_/g, '-'),
+                    parentName: ['click', 'cloup', ''].includes(receiver) ? undefined : receiver
+                });
+            }
+            decorators = [];
+        }
+
+        for (const match of content.matchAll(/\b(\w+)\.add_command\(\s*(\w+)(?:\s*,\s*(?:name\s*=\s*)?['"]([^'"]+)['"])?/g)) {
+            additions.push({ parent: match[1], child: match[2], word: match[3] });
+        }
+    }
+
+    for (const addition of additions) {
+        const child = drafts.get(addition.child);
+        if (child && drafts.has(addition.parent)) {
+            child.parentName = addition.parent;
+            child.word = addition.word ?? child.word;
+        }
+    }
+    for (const draft of drafts.values()) {
+        draft.parent = draft.parentName ? drafts.get(draft.parentName) : undefined;
+    }
+
+    // The root group's function name is not what users type
+    return { commands: nameCommandTree(Array.from(drafts.values())).commands };
+}
+
+function clickOption(args: string[], isArgument: boolean): CliOption {
+    const keywords = keywordArguments(args, '=');
+    const names = args.filter(arg => !/^\w+\s*=/.test(arg)).map(literal).filter((arg): arg is string => arg !== undefined);
+    const defaultValue = keywords.get('default') === 'None' ? undefined : defaultText(keywords.get('default'));
+    const description = firstLine(literal(keywords.get('help')));
+
+    if (isArgument) {
+        const variadic = keywords.get('nargs') === '-1' ? '...' : '';
+        const required = keywords.get('required') !== 'False' && defaultValue === undefined;
+        return { flags: `${required ? `<${names[0]}>` : `[${names[0]}]`}${variadic}`, positional: true, description, defaultValue, required };
+    }
+
+    const flags = names.filter(name => name.startsWith('-'));
+    const dest = names.find(name => !name.startsWith('-'));
+    const isFlag = keywords.get('is_flag') === 'True' || keywords.get('count') === 'True' || flags.some(flag => flag.includes('/'));
+    const valueName = literal(keywords.get('metavar')) ?? dest ?? flags.reduce((longest, flag) => flag.length > longest.length ? flag : longest, '').replace(/^-+/, '');
+    return {
+        flags: sortFlags(flags).join(', ') + (isFlag ? '' : ` <${valueName}>`),
+        positional: false,
+        description,
+        defaultValue,
+        required: keywords.get('required') === 'True'
+    };
+}
+
+/**
+ * &cobra.Command{Use, Short} literals linked by AddCommand, with flags from
+ * Flags()/PersistentFlags() and MarkFlagRequired. Commands are resolved
+ * across the whole package, since cobra apps spread them over files.
+ */
+function extractCobra(files: FileInfo[]): ParsedCli {
+    const drafts: (CommandDraft & { variable?: string; func: string; file: string })[] = [];
+    const goFiles = files.filter(file => file.path.endsWith('.go') && file.content.includes('github.com/spf13/cobra'));
+
+    for (const file of goFiles) {
+        for (const match of file.content.matchAll(/(?:\b(\w+)\s*:?=|\breturn)\s*&cobra\.Command\s*\{/g)) {
+            const open = match.index! + match[0].length - 1;
+            const end = closingBracket(file.content, open, GO);
+            if (end === -1) {
+                continue;
+            }
+            const fields = keywordArguments(splitTopLevel(file.content.slice(open + 1, end), GO), ':');
+            const [word = '', ...params] = (literal(fields.get('Use')) ?? '').trim().split(/\s+/);
+            const command = newCommand('', file, lineAt(file.content, match.index!));
+            command.description = literal(fields.get('Short')) ?? firstLine(literal(fields.get('Long')));
+            command.options.push(...params.filter(param => /^[<[]/.test(param) && param !== '[flags]').map(param => positionalFromUsage(param)));
+            drafts.push({ command, word, variable: match[1], func: enclosingGoFunction(file.content, match.index!), file: file.path });
+        }
+    }
+
+    const resolve = (expression: string, file: string, func: string) => {
+        const called = expression.match(/^(\w+)\(.*\)$/s)?.[1];
+        if (called) {
+            return drafts.find(draft => draft.func === called);
+        }
+        return drafts.find(draft => draft.variable === expression && draft.file === file && draft.func === func) ??
+            drafts.find(draft => draft.variable === expression && draft.func === '') ??
+            drafts.find(draft => draft.variable === expression);
+    };
+
+    for (const file of goFiles) {
+        const { content } = file;
+        for (const match of content.matchAll(/\b(\w+)\.(?:Persistent)?Flags\(\)\.(\w+)\(/g)) {
+            const draft = resolve(match[1], file.path, enclosingGoFunction(content, match.index!));
+            const args = callArguments(content, match.index! + match[0].length - 1, GO);
+            const option = draft && args && cobraFlag(match[2], args);
+            if (option) {
+                addOption(draft.command, option);
+            }
+        }
+        for (const match of content.matchAll(/\b(\w+)\.Mark(?:Persistent)?FlagRequired\(\s*"([^"]+)"/g)) {
+            const draft = resolve(match[1], file.path, enclosingGoFunction(content, match.index!));
+            const option = draft?.command.options.find(candidate => new RegExp(`--${escapeRegExp(match[2])}\\b`).test(candidate.flags));
+            if (option) {
+                option.required = true;
+            }
+        }
+        for (const match of content.matchAll(/\b(\w+)\.AddCommand\(/g)) {
+            const func = enclosingGoFunction(content, match.index!);
+            const parent = resolve(match[1], file.path, func);
+            for (const arg of callArguments(content, match.index! + match[0].length - 1, GO) ?? []) {
+                const child = resolve(arg, file.path, func);
+                if (parent && child && child !== parent) {
+                    child.parent = parent;
+                }
+            }
+        }
+    }
+
+    return nameCommandTree(drafts);
+}
+
+const COBRA_FLAG = /^(String|Bool|Int|Int8|Int16|Int32|Int64|Uint|Uint8|Uint16|Uint32|Uint64|Float32|Float64|Duration|StringSlice|StringArray|StringToString|IntSlice|BoolSlice|DurationSlice|Count)(Var)?(P)?$/;
+const GO_ZERO_VALUE = /^(""|false|0|0\.0|nil|\[\]\w+\{\}|map\[\w+\]\w+\{\})$/;
+
+/**
+ * StringVarP(&port, "port", "p", "8080", "usage") and its variants
+ */
+function cobraFlag(method: string, args: string[]): CliOption | undefined {
+    const kind = method.match(COBRA_FLAG);
+    if (!kind) {
+        return undefined;
+    }
+    const [type, withVariable, withShorthand] = [kind[1], kind[2], kind[3]];
+    const rest = withVariable ? args.slice(1) : args;
+    const name = literal(rest[0]);
+    if (!name) {
+        return undefined;
+    }
+
+    const short = withShorthand ? literal(rest[1]) : undefined;
+    const values = rest.slice(withShorthand ? 2 : 1);
+    const defaultArg = type === 'Count' || values.length < 2 ? undefined : values[0];
+    const takesValue = type !== 'Bool' && type !== 'Count';
+    return {
+        flags: `${short ? `-${short}, ` : ''}--${name}${takesValue ? ` <${type.toLowerCase()}>` : ''}`,
+        positional: false,
+        description: literal(values[values.length - 1]),
+        defaultValue: defaultArg && !GO_ZERO_VALUE.test(defaultArg) ? defaultText(defaultArg) : undefined,
+        required: false
+    };
+}
+
+function enclosingGoFunction(content: string, index: number): string {
+    const lineStart = content.lastIndexOf('\n', index) + 1;
+    if (/^(var|const)\b/.test(content.slice(lineStart))) {
+        return '';
+    }
+    let name = '';
+    for (const match of content.slice(0, index).matchAll(/^func\s+(?:\([^)]*\)\s*)?(\w+)\s*\(/gm)) {
+        name = match[1];
+    }
+    return name;
+}
+
+/**
+ * clap derive API: #[derive(Parser)] structs, #[derive(Subcommand)] enums
+ * and #[derive(Args)] structs reached through subcommand and flatten fields
+ */
+function extractClap(files: FileInfo[]): ParsedCli {
+    const parsed: ParsedCli = { commands: [] };
+    const items = new Map<string, { kind: string; preamble: string; body: string; bodyStart: number; file: FileInfo }>();
+
+    for (const file of files.filter(file => file.path.endsWith('.rs') && /\b(clap|structopt)\b/.test(file.content))) {
+        const { content } = file;
+        for (const match of content.matchAll(/\b(struct|enum)\s+(\w+)(?:<[^>{]*>)?\s*\{/g)) {
+            const open = match.index! + match[0].length - 1;
+            const end = closingBracket(content, open, RUST);
+            if (end === -1) {
+                continue;
+            }
+            const preambleStart = Math.max(content.lastIndexOf('}', match.index!), content.lastIndexOf(';', match.index!)) + 1;
+            items.set(match[2], { kind: match[1], preamble: content.slice(preambleStart, match.index), body: content.slice(open + 1, end), bodyStart: open + 1, file });
+        }
+    }
+
+    const optionsOf = (body: string, commandName: string, depth: number): CliOption[] => {
+        const options: CliOption[] = [];
+        for (const field of splitTopLevel(body, RUST)) {
+            const args = rustAttributeArguments(field);
+            const declaration = stripRustAttributes(field).match(/^(?:pub(?:\([^)]*\))?\s+)?(\w+)\s*:\s*([\s\S]+)$/);
+            if (!declaration) {
+                continue;
+            }
+            const type = declaration[2].trim();
+            const referenced = items.get(type.replace(/^Option<\s*(.*?)\s*>$/, '$1'));
+            if (args.includes('subcommand')) {
+                if (referenced?.kind === 'enum' && depth < 4) {
+                    addSubcommands(referenced, commandName, depth + 1);
+                }
+            } else if (args.includes('flatten')) {
+                if (referenced?.kind === 'struct' && depth < 4) {
+                    options.push(...optionsOf(referenced.body, commandName, depth + 1));
+                }
+            } else {
+                options.push(clapOption(declaration[1], type, args, rustDocComment(field)));
+            }
+        }
+        return options;
+    };
+
+    const addSubcommands = (item: { body: string; bodyStart: number; file: FileInfo }, parentName: string, depth: number) => {
+        for (const variant of splitTopLevel(item.body, RUST)) {
+            const head = rustItemHead(variant);
+            const keywords = keywordArguments(rustAttributeArguments(head), '=');
+            const declaration = stripRustAttributes(head).match(/^\w+$/);
+            if (!declaration) {
+                continue;
+            }
+            const variantStart = item.file.content.indexOf(variant, item.bodyStart);
+            const command = newCommand(joinCommand(parentName, literal(keywords.get('name')) ?? kebabCase(declaration[0])), item.file, lineAt(item.file.content, Math.max(variantStart, item.bodyStart)));
+            parsed.commands.push(command);
+
+            const fields = variant.slice(head.length).trim();
+            if (fields.startsWith('{')) {
+                command.options.push(...optionsOf(fields.slice(1, -1), command.name, depth));
+            } else if (fields.startsWith('(')) {
+                const args = items.get(fields.slice(1, -1).trim());
+                if (args?.kind === 'struct') {
+                    command.options.push(...optionsOf(args.body, command.name, depth));
+                    command.description = rustDocComment(args.preamble);
+                }
+            }
+            command.description = literal(keywords.get('about')) ?? rustDocComment(head) ?? command.description;
+        }
+    };
+
+    for (const item of items.values()) {
+        const derives = item.preamble.match(/#\[derive\(([^)]*)\)\]/)?.[1] ?? '';
+        if (item.kind !== 'struct' || !/\b(Parser|StructOpt)\b/.test(derives)) {
+            continue;
+        }
+        const keywords = keywordArguments(rustAttributeArguments(item.preamble), '=');
+        const root = newCommand('', item.file, lineAt(item.file.content, item.bodyStart));
+        root.description = literal(keywords.get('about')) ?? rustDocComment(item.preamble);
+        parsed.program ??= literal(keywords.get('name'));
+        parsed.commands.push(root);
+        root.options.push(...optionsOf(item.body, '', 0));
+    }
+
+    return parsed;
+}
+
+function clapOption(field: string, type: string, args: string[], doc: string | undefined): CliOption {
+    const keywords = keywordArguments(args, '=');
+    const isBool = type === 'bool';
+    const isOptional = /^Option</.test(type);
+    const isList = /^(Option<\s*)?Vec</.test(type);
+    const short = keywords.has('short') ? literal(keywords.get('short')) : args.includes('short') ? field[0] : undefined;
+    const long = keywords.has('long') ? literal(keywords.get('long')) : args.includes('long') ? kebabCase(field) : undefined;
+    const valueName = literal(keywords.get('value_name')) ?? field.toUpperCase();
+    const defaultValue = literal(keywords.get('default_value')) ?? defaultText(keywords.get('default_value_t'));
+    const counted = /ArgAction::(Count|SetTrue|SetFalse)/.test(keywords.get('action') ?? '');
+    const required = keywords.get('required') === 'true' || (!isBool && !isOptional && !isList && !counted && defaultValue === undefined);
+    const description = literal(keywords.get('help')) ?? doc;
+
+    if (!short && !long) {
+        const flags = required ? `<${valueName}>` : `[${valueName}]`;
+        return { flags: `${flags}${isList ? '...' : ''}`, positional: true, description, defaultValue, required };
+    }
+    const names = [short && `-${short}`, long && `--${long}`].filter(Boolean).join(', ');
+    return {
+        flags: names + (isBool || counted ? '' : ` <${valueName}>${isList ? '...' : ''}`),
+        positional: false,
+        description,
+        defaultValue,
+        required: required && keywords.get('required') !== 'false'
+    };
+}
+
+/**
+ * Arguments of #[arg(...)], #[command(...)], #[clap(...)] and #[structopt(...)] attributes
+ */
+function rustAttributeArguments(text: string): string[] {
+    const code = text.split('\n').filter(line => !/^\s*\/\//.test(line)).join('\n');
+    const args: string[] = [];
+    for (const match of code.matchAll(/#\[\s*(arg|command|clap|structopt)\s*\(/g)) {
+        args.push(...callArguments(code, match.index! + match[0].length - 1, RUST) ?? []);
+    }
+    return args;
+}
+
+/**
+ * Text of an item or variant before its fields: doc comments, attributes and name
+ */
+function rustItemHead(text: string): string {
+    for (let i = 0; i < text.length; i++) {
+        const skipped = skipLiteral(text, i, RUST);
+        if (skipped !== i) {
+            i = skipped - 1;
+        } else if (text.startsWith('#[', i)) {
+            const end = closingBracket(text, i + 1, RUST);
+            if (end === -1) {
+                return text;
+            }
+            i = end;
+        } else if ('({'.includes(text[i])) {
+            return text.slice(0, i);
+        }
+    }
+    return text;
+}
+
+function stripRustAttributes(text: string): string {
+    let code = text.split('\n').filter(line => !/^\s*\/\//.test(line)).join('\n');
+    for (let start = code.indexOf('#['); start !== -1; start = code.indexOf('#[')) {
+        const end = closingBracket(code, start + 1, RUST);
+        code = code.slice(0, start) + (end === -1 ? '' : code.slice(end + 1));
+    }
+    return code.trim();
+}
+
+function rustDocComment(text: string): string | undefined {
+    return firstLine(Array.from(text.matchAll(/^\s*\/\/\/\s?(.*)$/gm), match => match[1]).join('\n'));
+}
+
+/**
+ * Name every command after its parents. The root with the most
+ * descendants is the program itself; other roots keep their own word.
+ */
+function nameCommandTree(drafts: CommandDraft[]): ParsedCli {
+    const roots = drafts.filter(draft => !draft.parent);
+    const descendants = (root: CommandDraft) => drafts.filter(draft => {
+        let parent = draft.parent;
+        for (let depth = 0; parent && depth < 10; depth++, parent = parent.parent) {
+            if (parent === root) {
+                return true;
+            }
+        }
+        return false;
+    }).length;
+    const program = roots.reduce<CommandDraft | undefined>((best, root) => !best || descendants(root) > descendants(best) ? root : best, undefined);
+
+    const fullName = (draft: CommandDraft, depth = 0): string => {
+        if (draft === program) {
+            return '';
+        }
+        return draft.parent && depth < 10 ? joinCommand(fullName(draft.parent, depth + 1), draft.word) : draft.word;
+    };
+    for (const draft of drafts) {
+        draft.command.name = fullName(draft);
+    }
+    return { program: program?.word || undefined, commands: drafts.map(draft => draft.command) };
+}
+
+function newCommand(name: string, file: FileInfo, line: number): CliCommand {
+    return { name, options: [], file: file.path, line };
+}
+
+function addOption(command: CliCommand, option: CliOption): void {
+    if (!command.options.some(known => known.flags === option.flags)) {
+        command.options.push(option);
+    }
+}
+
+/**
+ * <name>, [name] or [names...] from a usage string
+ */
+function positionalFromUsage(param: string): CliOption {
+    return { flags: param, positional: true, required: param.startsWith('<') };
+}
+
+function joinCommand(parent: string, word: string): string {
+    return parent ? `${parent} ${word}` : word;
+}
+
+/**
+ * Short flags before long ones, as help output lists them
+ */
+function sortFlags(flags: string[]): string[] {
+    return [...flags].sort((a, b) => (a.startsWith('--') ? 1 : 0) - (b.startsWith('--') ? 1 : 0));
+}
+
+function kebabCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/_/g, '-').toLowerCase();
+}
+
+function lineAt(content: string, index: number): number {
+    return content.slice(0, index).split('\n').length;
+}
+
+function firstLine(text: string | undefined): string | undefined {
+    return text?.split('\n').map(line => line.trim()).find(line => line.length > 0);
+}
+
+/**
+ * First docstring line of the Python function defined at `index`
+ */
+function docstring(content: string, index: number): string | undefined {
+    const open = content.indexOf('(', index);
+    const close = open === -1 ? -1 : closingBracket(content, open, PYTHON);
+    if (close === -1) {
+        return undefined;
+    }
+    const match = content.slice(close + 1).match(/^\s*(?:->[^:\n]*)?:[ \t]*(?:#[^\n]*)?\n\s*[rRuU]?("""|''')([\s\S]*?)\1/);
+    return firstLine(match?.[2]);
+}
+
+/**
+ * Content of a string literal, or undefined when the expression is not one
+ */
+function literal(expression: string | undefined): string | undefined {
+    return expression?.trim().match(/^[rRbBuUfF]{0,2}("""|'''|["'`])([\s\S]*)\1$/)?.[2];
+}
+
+function isLiteralValue(expression: string): boolean {
+    return literal(expression) !== undefined || /^(-?[\d.]+|true|false|True|False|\[.*\])$/s.test(expression.trim());
+}
+
+/**
+ * A default as shown to users: string contents, or short expressions as written
+ */
+function defaultText(expression: string | undefined): string | undefined {
+    const text = literal(expression) ?? expression?.trim();
+    if (!text || /^(undefined|null|None|nil)$/.test(text)) {
+        return undefined;
+    }
+    return text.length > MAX_DEFAULT_LENGTH ? `${text.slice(0, MAX_DEFAULT_LENGTH)}…` : text;
+}
+
+/**
+ * key = value (Python, Rust) or key: value (JavaScript, Go) arguments by key
+ */
+function keywordArguments(args: string[], separator: '=' | ':'): Map<string, string> {
+    const keywords = new Map<string, string>();
+    const pattern = new RegExp(`^(['"]?)([\\w$-]+)\\1\\s*${separator}(?!=)\\s*([\\s\\S]+)$`);
+    for (const arg of args) {
+        const match = arg.match(pattern);
+        if (match) {
+            keywords.set(match[2], match[3].trim());
+        }
+    }
+    return keywords;
+}
+
+function objectEntries(expression: string): string[] {
+    const text = expression.trim();
+    return text.startsWith('{') && text.endsWith('}') ? splitTopLevel(text.slice(1, -1), JAVASCRIPT) : [];
+}
+
+function arrayItems(expression: string | undefined): string[] {
+    const text = expression?.trim() ?? '';
+    return text.startsWith('[') && text.endsWith(']') ? splitTopLevel(text.slice(1, -1), JAVASCRIPT) : [];
+}
+
+/**
+ * Arguments of the call whose "(" is at `open`, or undefined when it never closes
+ */
+function callArguments(content: string, open: number, syntax: Syntax): string[] | undefined {
+    const end = closingBracket(content, open, syntax);
+    return end === -1 ? undefined : splitTopLevel(content.slice(open + 1, end), syntax);
+}
+
+/**
+ * Index of the bracket closing the one at `open`, skipping strings and comments; -1 when unbalanced
+ */
+function closingBracket(content: string, open: number, syntax: Syntax): number {
+    let depth = 0;
+    for (let i = open; i < content.length; i++) {
+        const skipped = skipLiteral(content, i, syntax);
+        if (skipped !== i) {
+            i = skipped - 1;
+        } else if (isOpening(content, i, syntax)) {
+            depth++;
+        } else if (isClosing(content, i, syntax) && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Split on commas outside brackets, strings and comments
+ */
+function splitTopLevel(text: string, syntax: Syntax): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const skipped = skipLiteral(text, i, syntax);
+        if (skipped !== i) {
+            i = skipped - 1;
+        } else if (isOpening(text, i, syntax)) {
+            depth++;
+        } else if (isClosing(text, i, syntax)) {
+            depth--;
+        } else if (text[i] === ',' && depth === 0) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+function isOpening(text: string, i: number, syntax: Syntax): boolean {
+    return '([{'.includes(text[i]) || (syntax.angles === true && text[i] === '<');
+}
+
+function isClosing(text: string, i: number, syntax: Syntax): boolean {
+    return ')]}'.includes(text[i]) || (syntax.angles === true && text[i] === '>' && !'-='.includes(text[i - 1]));
+}
+
+/**
+ * Index just past the string or comment starting at `i`, or `i` when none starts there
+ */
+function skipLiteral(text: string, i: number, syntax: Syntax): number {
+    if (text.startsWith(syntax.lineComment, i)) {
+        const end = text.indexOf('\n', i);
+        return end === -1 ? text.length : end;
+    }
+    if (syntax.blockComments && text.startsWith('/*', i)) {
+        const end = text.indexOf('*/', i + 2);
+        return end === -1 ? text.length : end + 2;
+    }
+    if (!syntax.quotes.includes(text[i])) {
+        return i;
+    }
+    for (let j = i + 1; j < text.length; j++) {
+        if (text[j] === '\\') {
+            j++;
+        } else if (text[j] === text[i]) {
+            return j + 1;
+        }
+    }
+    return text.length;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,208 @@
+// codeChunker.ts - Split analyzed files into chunks that keep modules and their imports together
+
+import * as path from 'path';
+import { getPromptContent } from './fileOutline';
+import { countTokens } from './tokenizer';
+import { CodeChunk, FileInfo } from './types';
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.vue', '.svelte'];
+const JS_IMPORT_PATTERNS = [
+    /\b(?:import|export)\s[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,
+    /\bimport\s*['"]([^'"]+)['"]/g,
+    /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g
+];
+const PYTHON_FROM_IMPORT = /^\s*from\s+(\.*)([\w.]*)\s+import\b/gm;
+const PYTHON_IMPORT = /^\s*import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm;
+
+/**
+ * CodeChunker - Groups files by directory, orders the groups by following
+ * imports from the entry points, and packs them into token-bounded chunks
+ */
+export class CodeChunker {
+    private readonly maxTokensPerChunk: number;
+    private readonly model: string;
+
+    constructor(maxTokensPerChunk: number, model: string) {
+        this.maxTokensPerChunk = maxTokensPerChunk;
+        this.model = model;
+    }
+
+    public createChunks(fileInfos: FileInfo[]): CodeChunk[] {
+        const ordered = this.orderByImports(fileInfos);
+        const groups = this.groupByDirectory(ordered);
+        const tokens = new Map(fileInfos.map(file => [file, countTokens(getPromptContent(file), this.model)]));
+
+        const chunks: CodeChunk[] = [];
+        let current: FileInfo[] = [];
+        let currentTokens = 0;
+
+        const flush = () => {
+            if (current.length > 0) {
+                chunks.push(this.createChunk(current, currentTokens, chunks.length));
+                current = [];
+                currentTokens = 0;
+            }
+        };
+
+        for (const group of groups) {
+            const groupTokens = group.reduce((total, file) => total + tokens.get(file)!, 0);
+
+            // Start a fresh chunk rather than splitting a module that would fit in one
+            if (currentTokens + groupTokens > this.maxTokensPerChunk && groupTokens <= this.maxTokensPerChunk) {
+                flush();
+            }
+
+            for (const file of group) {
+                const fileTokens = tokens.get(file)!;
+                if (currentTokens + fileTokens > this.maxTokensPerChunk) {
+                    flush();
+                }
+                current.push(file);
+                currentTokens += fileTokens;
+            }
+        }
+        flush();
+
+        console.log(`📦 Created ${chunks.length} code chunks (budget ${this.maxTokensPerChunk} tokens each)`);
+        return chunks;
+    }
+
+    /**
+     * Depth-first walk of the import graph starting at the entry points, so
+     * a file is followed by the local modules it uses
+     */
+    private orderByImports(fileInfos: FileInfo[]): FileInfo[] {
+        const byPath = new Map(fileInfos.map(file => [toPosix(file.path), file]));
+        const visited = new Set<FileInfo>();
+        const ordered: FileInfo[] = [];
+
+        const visit = (file: FileInfo) => {
+            if (visited.has(file)) {
+                return;
+            }
+            visited.add(file);
+            ordered.push(file);
+
+            for (const dependency of this.resolveImports(file, byPath)) {
+                visit(dependency);
+            }
+        };
+
+        const depth = (file: FileInfo) => toPosix(file.path).split('/').length;
+        const starts = [...fileInfos].sort((a, b) => {
+            if (a.isMainFile !== b.isMainFile) {
+                return a.isMainFile ? -1 : 1;
+            }
+            return depth(a) - depth(b) || toPosix(a.path).localeCompare(toPosix(b.path));
+        });
+        starts.forEach(visit);
+
+        return ordered;
+    }
+
+    /**
+     * Group files by directory; groups appear in the order their first file was visited
+     */
+    private groupByDirectory(ordered: FileInfo[]): FileInfo[][] {
+        const groups = new Map<string, FileInfo[]>();
+        for (const file of ordered) {
+            const directory = path.posix.dirname(toPosix(file.path));
+            const group = groups.get(directory) ?? [];
+            group.push(file);
+            groups.set(directory, group);
+        }
+        return Array.from(groups.values());
+    }
+
+    /**
+     * Local files imported by a JavaScript/TypeScript or Python file
+     */
+    private resolveImports(file: FileInfo, byPath: Map<string, FileInfo>): FileInfo[] {
+        const filePath = toPosix(file.path);
+        const directory = path.posix.dirname(filePath);
+        const candidates: string[] = [];
+
+        if (JS_EXTENSIONS.includes(path.posix.extname(filePath))) {
+            for (const pattern of JS_IMPORT_PATTERNS) {
+                for (const match of file.content.matchAll(pattern)) {
+                    const specifier = match[1];
+                    if (specifier.startsWith('.')) {
+                        candidates.push(...this.getJsCandidates(path.posix.join(directory, specifier)));
+                    }
+                }
+            }
+        } else if (filePath.endsWith('.py')) {
+            for (const match of file.content.matchAll(PYTHON_FROM_IMPORT)) {
+                const [, dots, moduleName] = match;
+                if (!dots) {
+                    candidates.push(...this.getPythonCandidates('.', moduleName), ...this.getPythonCandidates('src', moduleName));
+                    continue;
+                }
+
+                let base = directory;
+                for (let i = 1; i < dots.length; i++) {
+                    base = path.posix.dirname(base);
+                }
+                candidates.push(...this.getPythonCandidates(base, moduleName));
+            }
+            for (const match of file.content.matchAll(PYTHON_IMPORT)) {
+                for (const moduleName of match[1].split(',')) {
+                    candidates.push(...this.getPythonCandidates('.', moduleName.trim()));
+                    candidates.push(...this.getPythonCandidates('src', moduleName.trim()));
+                }
+            }
+        }
+
+        const resolved: FileInfo[] = [];
+        for (const candidate of candidates) {
+            const target = byPath.get(path.posix.normalize(candidate));
+            if (target && target !== file && !resolved.includes(target)) {
+                resolved.push(target);
+            }
+        }
+        return resolved;
+    }
+
+    private getJsCandidates(base: string): string[] {
+        // TypeScript sources import compiled names, e.g. './util.js' for util.ts
+        const withoutJsExtension = base.replace(/\.(m|c)?js$/, '');
+        return [
+            base,
+            ...JS_EXTENSIONS.map(extension => withoutJsExtension + extension),
+            ...JS_EXTENSIONS.map(extension => `${base}/index${extension}`)
+        ];
+    }
+
+    private getPythonCandidates(base: string, moduleName: string): string[] {
+        if (!moduleName) {
+            return [`${base}/__init__.py`];
+        }
+        const modulePath = path.posix.join(base, ...moduleName.split('.'));
+        return [`${modulePath}.py`, `${modulePath}/__init__.py`];
+    }
+
+    private createChunk(files: FileInfo[], totalTokens: number, chunkIndex: number): CodeChunk {
+        const languages = new Set(files.map(f => f.language));
+        const directories = Array.from(new Set(files.map(file => path.posix.dirname(toPosix(file.path)))));
+        const hasMainFiles = files.some(f => f.isMainFile);
+
+        let description = `Chunk ${chunkIndex + 1}`;
+        if (hasMainFiles) {
+            description += ' (contains main files)';
+        }
+        const shownDirectories = directories.slice(0, 5).map(directory => directory === '.' ? '(root)' : directory);
+        description += ` - ${shownDirectories.join(', ')}${directories.length > 5 ? ', ...' : ''}`;
+        description += ` - ${Array.from(languages).join(', ')} files`;
+
+        return {
+            files,
+            totalTokens,
+            chunkIndex,
+            description
+        };
+    }
+}
+
+function toPosix(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
@@ -2,23 +2,47 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { GitignoreParser } from './gitignoreParser';
-import { PerplexityClient } from './perplexityClient';
-import { CodeChunk, FileInfo, GenerationProgress, ProjectStructure, CodebaseAnalysis } from './types';
+import { CodeChunker } from './codeChunker';
+import { createFileOutline } from './fileOutline';
+import { getConfiguredModel, isProviderConfigured } from './llmProvider';
+import { SecretRedactor } from './secretRedactor';
+import { isManifestFile, mergeDependencies, parseManifestDependencies } from './dependencyParser';
+import { detectProjectType, detectTechnologies } from './frameworkDetector';
+import { detectMonorepo, findPackage, getPackageFiles } from './monorepoDetector';
+import { isScriptManifest, parseManifestScripts, parsePackageEntryPoints } from './scriptParser';
+import { scanEnvironmentVariables } from './envScanner';
+import { extractHttpRoutes } from './routeExtractor';
+import { extractCommandLineInterface } from './cliExtractor';
+import { extractPublicApi } from './apiExtractor';
+import { CodeChunk, FileInfo, GenerationProgress, ProjectStructure, CodebaseAnalysis, ProjectMetadata, ProjectScript, RedactionReport, CustomRedactionPattern, Dependency, EntryPoint, MonorepoLayout, MonorepoPackage } from './types';
 
 export class CodebaseAnalyzer {
     private workspaceRoot: string;
     private gitignoreParser: GitignoreParser;
-    private perplexityClient: PerplexityClient;
     private maxFileSize: number;
-    private maxTokensPerChunk: number = 5000;
+    private maxTokensPerChunk: number;
+    /** 0 when the public API is not read */
+    private maxApiEntries: number;
+    /** Undefined when `readmeGenerator.redaction.enabled` is off */
+    private secretRedactor?: SecretRedactor;
+    /** Files above maxFileSize are outlined; above this they are skipped entirely */
+    private readonly maxOutlineSourceSize: number = 20 * 1024 * 1024;
 
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
         this.gitignoreParser = new GitignoreParser(workspaceRoot);
-        this.perplexityClient = new PerplexityClient();
 
         const config = vscode.workspace.getConfiguration('readmeGenerator');
         this.maxFileSize = config.get<number>('maxFileSize', 1048576);
+        this.maxTokensPerChunk = Math.max(500, config.get<number>('maxTokensPerChunk', 5000));
+        this.maxApiEntries = Math.max(0, config.get<number>('publicApi.maxEntries', 30));
+
+        if (config.get<boolean>('redaction.enabled', true)) {
+            this.secretRedactor = new SecretRedactor({
+                customPatterns: config.get<CustomRedactionPattern[]>('redaction.customPatterns', []),
+                disabledDetectors: config.get<string[]>('redaction.disabledDetectors', [])
+            });
+        }
     }
 
     private async discoverFiles(): Promise<string[]> {
@@ -32,11 +56,11 @@ export class CodebaseAnalyzer {
                     const fullPath = path.join(dirPath, entry.name);
 
                     if (entry.isDirectory()) {
-                        if (!this.gitignoreParser.shouldIgnore(fullPath)) {
+                        if (!this.gitignoreParser.shouldIgnore(fullPath, true)) {
                             traverseDirectory(fullPath);
                         }
                     } else if (entry.isFile()) {
-                        if (!this.gitignoreParser.shouldIgnore(fullPath) &&
+                        if (!this.gitignoreParser.shouldIgnore(fullPath, false) &&
                             !this.gitignoreParser.isBinaryFile(fullPath)) {
                             files.push(fullPath);
                         }
@@ -77,21 +101,30 @@ export class CodebaseAnalyzer {
             try {
                 const stats = fs.statSync(filePath);
 
-                if (stats.size > this.maxFileSize) {
-                    console.log(`⚠️ Skipping large file: ${filePath}`);
+                if (stats.size > this.maxOutlineSourceSize) {
+                    console.log(`⚠️ Skipping very large file: ${filePath}`);
                     continue;
                 }
 
-                const content = fs.readFileSync(filePath, 'utf8');
+                const relativePath = path.relative(this.workspaceRoot, filePath);
+                let content = fs.readFileSync(filePath, 'utf8');
                 const language = this.gitignoreParser.getLanguageFromExtension(filePath);
                 const isMainFile = this.isMainFile(filePath);
 
+                // Keep only the outline of files over maxFileSize so their API is still visible
+                const isOutline = stats.size > this.maxFileSize;
+                if (isOutline) {
+                    console.log(`📐 Outlining large file: ${filePath}`);
+                    content = createFileOutline(relativePath, content);
+                }
+
                 const fileInfo: FileInfo = {
-                    path: path.relative(this.workspaceRoot, filePath),
+                    path: relativePath,
                     content,
                     size: stats.size,
                     language,
-                    isMainFile
+                    isMainFile,
+                    isOutline
                 };
 
                 fileInfos.push(fileInfo);
@@ -118,77 +151,21 @@ export class CodebaseAnalyzer {
         return fileInfos;
     }
 
-    private determineProjectType(fileInfos: FileInfo[], languages: string[]): string {
-        const hasFile = (name: string) => fileInfos.some(f => path.basename(f.path).toLowerCase() === name);
-        const hasExtension = (ext: string) => fileInfos.some(f => f.path.endsWith(ext));
-
-        console.log('🔍 Detecting project type...');
-        
-        if (hasFile('package.json')) {
-            console.log('📦 Found package.json - Node.js project detected');
-            if (hasExtension('.jsx') || hasExtension('.tsx')) {
-                console.log('⚛️ React components found - React Application');
-                return 'React Application';
-            }
-            if (hasExtension('.vue')) {
-                console.log('🟢 Vue components found - Vue.js Application');
-                return 'Vue.js Application';
-            }
-            if (hasFile('next.config.js') || hasFile('next.config.ts')) {
-                console.log('⚡ Next.js config found - Next.js Application');
-                return 'Next.js Application';
-            }
-            console.log('📦 Node.js Application');
-            return 'Node.js Application';
-        }
-
-        if (hasFile('setup.py') || hasFile('requirements.txt')) {
-            console.log('🐍 Python project detected');
-            if (hasFile('manage.py')) {
-                console.log('🌐 Django framework detected - Django Application');
-                return 'Django Application';
-            }
-            console.log('🐍 Python Project');
-            return 'Python Project';
-        }
-
-        if (hasFile('pom.xml')) {
-            console.log('☕ Maven Java project detected');
-            return 'Maven Java Project';
-        }
-        if (hasFile('build.gradle')) {
-            console.log('☕ Gradle Java project detected');
-            return 'Gradle Java Project';
-        }
-        if (hasFile('go.mod')) {
-            console.log('🐹 Go module detected');
-            return 'Go Module';
-        }
-        if (hasFile('cargo.toml')) {
-            console.log('🦀 Rust project detected');
-            return 'Rust Project';
-        }
-        if (hasFile('pubspec.yaml')) {
-            console.log('📱 Flutter application detected');
-            return 'Flutter Application';
-        }
-
-        if (languages.length > 0) {
-            console.log(`💻 ${languages[0]} project detected`);
-            return `${languages[0]} Project`;
-        }
-
-        console.log('📁 Generic software project detected');
-        return 'Software Project';
-    }
-
-    private analyzeProjectStructure(fileInfos: FileInfo[]): CodebaseAnalysis {
+    /**
+     * @param options.name Project name when no manifest declares one
+     * @param options.nested Analyzing a package of a monorepo, so do not look for packages again
+     */
+    private analyzeProjectStructure(fileInfos: FileInfo[], options: { name?: string; nested?: boolean } = {}): CodebaseAnalysis {
+        const monorepo = options.nested ? undefined : detectMonorepo(fileInfos);
         const languages = new Set<string>();
         const mainFiles: string[] = [];
-        const dependencies: string[] = [];
-        const frameworks: string[] = [];
+        const dependencies: Dependency[] = [];
         let totalSize = 0;
 
+        // Lets requirements files follow their -r includes
+        const contents = new Map(fileInfos.map(file => [file.path.split(path.sep).join('/'), file.content]));
+        const readFile = (relativePath: string) => contents.get(relativePath);
+
         const structure: ProjectStructure = {
             directories: [],
             importantFiles: [],
@@ -207,30 +184,24 @@ export class CodebaseAnalyzer {
                 structure.importantFiles.push(file.path);
             }
 
-            // Extract dependencies from package.json
-            if (path.basename(file.path).toLowerCase() === 'package.json') {
-                try {
-                    const packageJson = JSON.parse(file.content);
-                    if (packageJson.dependencies) {
-                        dependencies.push(...Object.keys(packageJson.dependencies));
-                    }
-                    if (packageJson.devDependencies) {
-                        dependencies.push(...Object.keys(packageJson.devDependencies));
-                    }
-                } catch (error) {
-                    console.error('Error parsing package.json:', error);
-                }
+            switch (this.gitignoreParser.getFileCategory(file.path)) {
+                case 'config':
+                    structure.configFiles.push(file.path);
+                    break;
+                case 'test':
+                    structure.testFiles.push(file.path);
+                    break;
+                case 'documentation':
+                    structure.documentationFiles.push(file.path);
+                    break;
+                case 'source':
+                    structure.sourceFiles.push(file.path);
+                    break;
             }
 
-            // Extract Python dependencies
-            if (file.path.toLowerCase().includes('requirements.txt')) {
-                const lines = file.content.split('\n');
-                for (const line of lines) {
-                    const dep = line.trim().split('==')[0].split('>=')[0].split('<=')[0];
-                    if (dep && !dep.startsWith('#')) {
-                        dependencies.push(dep);
-                    }
-                }
+            // Package manifests belong to the package analyses, not the root
+            if (isManifestFile(file.path) && !(monorepo && findPackage(file.path, monorepo))) {
+                dependencies.push(...parseManifestDependencies(file.path, file.content, readFile));
             }
         }
 
@@ -243,95 +214,116 @@ export class CodebaseAnalyzer {
         }
         structure.directories = Array.from(uniqueDirs);
 
-        const projectType = this.determineProjectType(fileInfos, Array.from(languages));
+        const { metadata, scripts, entryPoints } = this.extractManifestInfo(fileInfos, options.name ?? path.basename(this.workspaceRoot));
+        const dependencyDetails = mergeDependencies(dependencies);
+        const detectedLanguages = Array.from(languages).filter(lang => lang !== 'Unknown');
+
+        const binName = entryPoints.find(entry => entry.kind === 'bin')?.name ??
+            scripts.find(script => script.source === 'python' || script.source === 'cargo')?.name;
+
+        const technologies = detectTechnologies(fileInfos, dependencyDetails);
+        const projectType = monorepo ? 'Monorepo' : detectProjectType(technologies, fileInfos, detectedLanguages);
+        console.log(`🧭 ${projectType}; detected ${technologies.map(technology => `${technology.name} (${Math.round(technology.confidence * 100)}%)`).join(', ') || 'no known frameworks or tools'}`);
 
         return {
             totalFiles: fileInfos.length,
             totalSize,
-            languages: Array.from(languages).filter(lang => lang !== 'Unknown'),
+            languages: detectedLanguages,
             mainFiles,
-            dependencies: Array.from(new Set(dependencies)),
-            frameworks: Array.from(new Set(frameworks)),
+            dependencies: Array.from(new Set(dependencyDetails.map(dependency => dependency.name))),
+            dependencyDetails,
+            frameworks: technologies.filter(technology => technology.category === 'framework').map(technology => technology.name),
+            technologies,
             projectType,
-            structure
+            structure,
+            metadata,
+            scripts,
+            entryPoints,
+            environmentVariables: scanEnvironmentVariables(fileInfos),
+            routes: extractHttpRoutes(fileInfos),
+            cli: extractCommandLineInterface(fileInfos, binName, metadata.name),
+            publicApi: this.maxApiEntries > 0 ? extractPublicApi(fileInfos, entryPoints, this.maxApiEntries) : undefined,
+            monorepo: monorepo && this.analyzePackages(fileInfos, monorepo)
         };
     }
 
-    private createChunk(files: FileInfo[], totalTokens: number, chunkIndex: number): CodeChunk {
-        const languages = new Set(files.map(f => f.language));
-        const hasMainFiles = files.some(f => f.isMainFile);
-
-        let description = `Chunk ${chunkIndex + 1}`;
-        if (hasMainFiles) {
-            description += ' (contains main files)';
-        }
-        description += ` - ${Array.from(languages).join(', ')} files`;
-
+    /**
+     * Give every package of a monorepo its own analysis
+     */
+    private analyzePackages(fileInfos: FileInfo[], monorepo: MonorepoLayout): MonorepoLayout {
+        console.log(`🗂️ Monorepo (${monorepo.tools.join(', ')}) with ${monorepo.packages.length} packages`);
         return {
-            files,
-            totalTokens,
-            chunkIndex,
-            description
+            ...monorepo,
+            packages: monorepo.packages.map(pkg => ({
+                ...pkg,
+                analysis: this.analyzeProjectStructure(getPackageFiles(fileInfos, monorepo, pkg), { name: pkg.name, nested: true })
+            }))
         };
     }
 
-    private createCodeChunks(fileInfos: FileInfo[]): CodeChunk[] {
-        const chunks: CodeChunk[] = [];
-        let currentChunk: FileInfo[] = [];
-        let currentTokens = 0;
-        let chunkIndex = 0;
+    /**
+     * Read project metadata and entry points from the root package manifest,
+     * and scripts from every root build manifest
+     */
+    private extractManifestInfo(fileInfos: FileInfo[], defaultName: string): { metadata: ProjectMetadata; scripts: ProjectScript[]; entryPoints: EntryPoint[] } {
+        const metadata: ProjectMetadata = { name: defaultName };
+        let entryPoints: EntryPoint[] = [];
 
-        const sortedFiles = fileInfos.sort((a, b) => {
-            if (a.isMainFile && !b.isMainFile) return -1;
-            if (!a.isMainFile && b.isMainFile) return 1;
-            return b.size - a.size;
-        });
-
-        for (const file of sortedFiles) {
-            const fileTokens = this.perplexityClient.estimateTokenCount(file.content);
-
-            if (currentTokens + fileTokens > this.maxTokensPerChunk && currentChunk.length > 0) {
-                chunks.push(this.createChunk(currentChunk, currentTokens, chunkIndex));
-                currentChunk = [];
-                currentTokens = 0;
-                chunkIndex++;
-            }
-
-            currentChunk.push(file);
-            currentTokens += fileTokens;
+        const rootPackageJson = fileInfos.find(f => f.path === 'package.json');
+        if (rootPackageJson) {
+            try {
+                const packageJson = JSON.parse(rootPackageJson.content);
+
+                metadata.name = packageJson.displayName || packageJson.name || metadata.name;
+                metadata.description = packageJson.description;
+                metadata.version = packageJson.version;
+                metadata.license = packageJson.license;
+                metadata.homepage = packageJson.homepage;
+                metadata.packageManager = packageJson.packageManager;
+                if (packageJson.engines && typeof packageJson.engines === 'object') {
+                    metadata.engines = Object.fromEntries(Object.entries(packageJson.engines).map(([engine, version]) => [engine, String(version)]));
+                }
 
-            if (fileTokens > this.maxTokensPerChunk) {
-                chunks.push(this.createChunk([file], fileTokens, chunkIndex));
-                currentChunk = [];
-                currentTokens = 0;
-                chunkIndex++;
+                if (typeof packageJson.repository === 'string') {
+                    metadata.repository = packageJson.repository;
+                } else if (packageJson.repository && packageJson.repository.url) {
+                    metadata.repository = packageJson.repository.url;
+                }
+            } catch (error) {
+                console.error('Error parsing package.json:', error);
             }
+            entryPoints = parsePackageEntryPoints(rootPackageJson.content);
         }
 
-        if (currentChunk.length > 0) {
-            chunks.push(this.createChunk(currentChunk, currentTokens, chunkIndex));
-        }
+        const packageManager = metadata.packageManager?.split('@')[0] || 'npm';
+        const scripts = fileInfos
+            .filter(file => !/[\\/]/.test(file.path) && isScriptManifest(file.path))
+            .flatMap(file => parseManifestScripts(file.path, file.content, packageManager));
 
-        console.log(`📦 Created ${chunks.length} code chunks for processing`);
-        return chunks;
+        return { metadata, scripts, entryPoints };
     }
 
-    public validateWorkspace(): { isValid: boolean; error?: string } {
+    /**
+     * Validate the workspace. `offlineAvailable` is set when only the AI
+     * provider is missing, so a template-only README can still be produced.
+     */
+    public validateWorkspace(): { isValid: boolean; error?: string; offlineAvailable?: boolean } {
         if (!fs.existsSync(this.workspaceRoot)) {
             return { isValid: false, error: 'Workspace root does not exist' };
         }
 
-        if (!this.perplexityClient.validateAPIKey()) {
+        if (!isProviderConfigured()) {
             return {
                 isValid: false,
-                error: 'Invalid Perplexity API key. Please configure your API key in settings.'
+                error: 'Invalid AI provider configuration. Please configure your API key in settings.',
+                offlineAvailable: true
             };
         }
 
         return { isValid: true };
     }
 
-    async analyzeCodebase(progressCallback: (progress: GenerationProgress) => void): Promise<{ analysis: CodebaseAnalysis; chunks: CodeChunk[] }> {
+    async analyzeCodebase(progressCallback: (progress: GenerationProgress) => void): Promise<{ analysis: CodebaseAnalysis; chunks: CodeChunk[]; redactions: RedactionReport }> {
 
         progressCallback({
             stage: 'scanning',
@@ -352,6 +344,16 @@ export class CodebaseAnalyzer {
 
         const fileInfos = await this.processFiles(allFiles, progressCallback);
 
+        // Redact before the analysis too, since manifest values end up in prompts
+        progressCallback({
+            stage: 'analyzing',
+            message: 'Redacting secrets and personal data...',
+            percentage: 57
+        });
+        const redactions = this.secretRedactor
+            ? this.secretRedactor.redactFiles(fileInfos)
+            : { findings: [], filesAffected: 0, errors: [] };
+
         progressCallback({
             stage: 'analyzing',
             message: 'Analyzing project structure...',
@@ -371,7 +373,7 @@ export class CodebaseAnalyzer {
         });
 
         console.log('📦 Creating code chunks for AI processing...');
-        const chunks = this.createCodeChunks(fileInfos);
+        const chunks = new CodeChunker(this.maxTokensPerChunk, getConfiguredModel()).createChunks(fileInfos);
 
         progressCallback({
             stage: 'chunking',
@@ -380,6 +382,27 @@ export class CodebaseAnalyzer {
         });
 
         console.log(`✅ Analysis completed! Created ${chunks.length} chunks for AI processing`);
+        return { analysis, chunks, redactions };
+    }
+
+    /**
+     * Analyze and chunk again with only the files left after the privacy review
+     */
+    public analyzeSelection(fileInfos: FileInfo[]): { analysis: CodebaseAnalysis; chunks: CodeChunk[] } {
+        console.log(`🔐 Rebuilding chunks from ${fileInfos.length} selected files`);
+        const analysis = this.analyzeProjectStructure(fileInfos);
+        const chunks = new CodeChunker(this.maxTokensPerChunk, getConfiguredModel()).createChunks(fileInfos);
+        return { analysis, chunks };
+    }
+
+    /**
+     * Analysis and chunks of one monorepo package, with paths relative to
+     * the package folder, for generating the package's own README
+     */
+    public analyzePackage(fileInfos: FileInfo[], monorepo: MonorepoLayout, pkg: MonorepoPackage): { analysis: CodebaseAnalysis; chunks: CodeChunk[] } {
+        const packageFiles = getPackageFiles(fileInfos, monorepo, pkg);
+        const analysis = pkg.analysis ?? this.analyzeProjectStructure(packageFiles, { name: pkg.name, nested: true });
+        const chunks = new CodeChunker(this.maxTokensPerChunk, getConfiguredModel()).createChunks(packageFiles);
         return { analysis, chunks };
     }
-}
\ No newline at end of file
+}
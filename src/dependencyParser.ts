@@ -0,0 +1,457 @@
+// dependencyParser.ts - Declared dependencies from the package manifests of the major ecosystems
+
+import * as path from 'path';
+import * as TOML from '@iarna/toml';
+import { parse as parseYaml } from 'yaml';
+import { Dependency, DependencyEcosystem } from './types';
+
+/** Reads another workspace file, e.g. a requirements file included with -r */
+type ReadFile = (relativePath: string) => string | undefined;
+
+type Scope = Dependency['scope'];
+
+/** Optional-dependency, Poetry and dependency groups that only matter for development */
+const DEV_GROUP = /^(dev|devel|develop|development|test|tests|testing|lint|linting|docs?|typing|types|format|style|ci|check|coverage|bench|benchmarks?)$/i;
+const DEV_FILE = /(^|[-_./])(dev|develop|development|test|tests|testing|lint|docs?|ci)([-_.]|$)/i;
+const REQUIREMENTS_FILE = /(^|\/)([\w.-]*requirements[\w.-]*|requirements\/[\w.-]+)\.(txt|in)$/i;
+const SCOPE_ORDER: Scope[] = ['runtime', 'peer', 'optional', 'dev'];
+
+const PARSERS: Record<string, (content: string, manifest: string, readFile: ReadFile) => Dependency[]> = {
+    'package.json': parsePackageJson,
+    'pyproject.toml': parsePyproject,
+    'pipfile': parsePipfile,
+    'go.mod': parseGoMod,
+    'cargo.toml': parseCargoToml,
+    'pom.xml': parsePom,
+    'build.gradle': parseGradle,
+    'build.gradle.kts': parseGradle,
+    'gemfile': parseGemfile,
+    'composer.json': parseComposerJson,
+    'pubspec.yaml': parsePubspec
+};
+
+/**
+ * Whether a file is a manifest `parseManifestDependencies` understands
+ */
+export function isManifestFile(filePath: string): boolean {
+    const posixPath = toPosix(filePath);
+    return Object.hasOwn(PARSERS, path.posix.basename(posixPath).toLowerCase()) || REQUIREMENTS_FILE.test(posixPath);
+}
+
+/**
+ * Dependencies declared in one manifest. Parse errors are logged and yield
+ * no dependencies rather than failing the analysis.
+ */
+export function parseManifestDependencies(filePath: string, content: string, readFile: ReadFile = () => undefined): Dependency[] {
+    const manifest = toPosix(filePath);
+    const name = path.posix.basename(manifest).toLowerCase();
+    const parser = REQUIREMENTS_FILE.test(manifest)
+        ? parseRequirements
+        : Object.hasOwn(PARSERS, name) ? PARSERS[name] : undefined;
+    if (!parser) {
+        return [];
+    }
+
+    try {
+        return parser(content, manifest, readFile);
+    } catch (error) {
+        console.error(`Error parsing ${manifest}:`, error);
+        return [];
+    }
+}
+
+/**
+ * One entry per ecosystem and name; a dependency declared for runtime and
+ * development counts as runtime
+ */
+export function mergeDependencies(dependencies: Dependency[]): Dependency[] {
+    const merged = new Map<string, Dependency>();
+
+    for (const dependency of dependencies) {
+        const key = `${dependency.ecosystem}:${dependency.name.toLowerCase()}`;
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, dependency);
+        } else if (SCOPE_ORDER.indexOf(dependency.scope) < SCOPE_ORDER.indexOf(existing.scope)) {
+            merged.set(key, { ...dependency, version: dependency.version ?? existing.version });
+        } else if (!existing.version && dependency.version) {
+            merged.set(key, { ...existing, version: dependency.version });
+        }
+    }
+
+    return Array.from(merged.values());
+}
+
+/**
+ * Split a PEP 508 requirement such as `uvicorn[standard]~=0.29; python_version < "3.12"`
+ */
+export function parsePep508(requirement: string): { name: string; version?: string; extras?: string[]; marker?: string } | undefined {
+    let spec = requirement.trim();
+    let marker: string | undefined;
+
+    const markerStart = spec.search(/;(?=\s*[a-z_]+\s*(==|!=|<=|>=|<|>|~=|in\b|not\b))/i);
+    if (markerStart !== -1) {
+        marker = spec.substring(markerStart + 1).trim();
+        spec = spec.substring(0, markerStart).trim();
+    }
+
+    const match = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[([^\]]*)\])?\s*(.*)$/.exec(spec);
+    if (!match) {
+        return undefined;
+    }
+
+    const [, name, extras, rest] = match;
+    const version = rest.startsWith('@')
+        ? rest.replace(/^@\s*/, '')
+        : rest.replace(/^\(\s*|\s*\)$/g, '').replace(/\s+/g, '');
+
+    return {
+        name,
+        version: version || undefined,
+        extras: extras ? extras.split(',').map(extra => extra.trim()).filter(Boolean) : undefined,
+        marker
+    };
+}
+
+function parsePackageJson(content: string, manifest: string): Dependency[] {
+    const packageJson = JSON.parse(content);
+    return [
+        ...fromVersionMap(packageJson.dependencies, 'runtime', 'npm', manifest),
+        ...fromVersionMap(packageJson.peerDependencies, 'peer', 'npm', manifest),
+        ...fromVersionMap(packageJson.optionalDependencies, 'optional', 'npm', manifest),
+        ...fromVersionMap(packageJson.devDependencies, 'dev', 'npm', manifest)
+    ];
+}
+
+function parseComposerJson(content: string, manifest: string): Dependency[] {
+    const composerJson = JSON.parse(content);
+    return [
+        ...fromVersionMap(composerJson.require, 'runtime', 'composer', manifest),
+        ...fromVersionMap(composerJson['require-dev'], 'dev', 'composer', manifest)
+    ];
+}
+
+/**
+ * pip requirements files, following -r includes; -c constraints and
+ * editable local paths are not dependencies
+ */
+function parseRequirements(content: string, manifest: string, readFile: ReadFile, seen: Set<string> = new Set()): Dependency[] {
+    seen.add(manifest);
+    const scope: Scope = DEV_FILE.test(path.posix.basename(manifest)) || /(^|\/)requirements\/(dev|test|lint|docs?)/i.test(manifest)
+        ? 'dev'
+        : 'runtime';
+    const dependencies: Dependency[] = [];
+
+    for (const rawLine of content.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+        const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+        if (!line) {
+            continue;
+        }
+
+        const include = /^(?:-r|--requirement)[\s=]+(\S+)/.exec(line);
+        if (include) {
+            const included = path.posix.normalize(path.posix.join(path.posix.dirname(manifest), include[1]));
+            const includedContent = seen.has(included) ? undefined : readFile(included);
+            if (includedContent !== undefined) {
+                dependencies.push(...parseRequirements(includedContent, included, readFile, seen));
+            }
+            continue;
+        }
+
+        // Editable installs and bare URLs name the package in their #egg= fragment
+        const egg = /#egg=([A-Za-z0-9._-]+)/.exec(line);
+        if (/^(-e|--editable)\b/.test(line) || /^[a-z+]+:\/\//i.test(line)) {
+            if (egg) {
+                dependencies.push({ name: egg[1], scope, ecosystem: 'pypi', manifest });
+            }
+            continue;
+        }
+        if (line.startsWith('-') || line.startsWith('.') || line.startsWith('/')) {
+            continue;
+        }
+
+        const requirement = parsePep508(line);
+        if (requirement) {
+            dependencies.push({ ...withoutUndefined(requirement), scope, ecosystem: 'pypi', manifest });
+        }
+    }
+
+    return dependencies;
+}
+
+/**
+ * PEP 621 [project], PEP 735 [dependency-groups] and Poetry tables
+ */
+function parsePyproject(content: string, manifest: string): Dependency[] {
+    const data = TOML.parse(content) as Record<string, any>;
+    const dependencies: Dependency[] = [];
+
+    const addRequirements = (requirements: unknown, scope: Scope) => {
+        for (const requirement of Array.isArray(requirements) ? requirements : []) {
+            const parsed = typeof requirement === 'string' ? parsePep508(requirement) : undefined;
+            if (parsed) {
+                dependencies.push({ ...withoutUndefined(parsed), scope, ecosystem: 'pypi', manifest });
+            }
+        }
+    };
+
+    const project = data.project ?? {};
+    addRequirements(project.dependencies, 'runtime');
+    for (const [group, requirements] of Object.entries(project['optional-dependencies'] ?? {})) {
+        addRequirements(requirements, DEV_GROUP.test(group) ? 'dev' : 'optional');
+    }
+    for (const requirements of Object.values(data['dependency-groups'] ?? {})) {
+        addRequirements(requirements, 'dev');
+    }
+
+    const poetry = data.tool?.poetry ?? {};
+    const addPoetry = (table: Record<string, unknown> | undefined, scope: Scope) => {
+        for (const [name, value] of Object.entries(table ?? {})) {
+            if (name.toLowerCase() !== 'python') {
+                dependencies.push(fromManifestValue(name, Array.isArray(value) ? value[0] : value, scope, 'pypi', manifest));
+            }
+        }
+    };
+    addPoetry(poetry.dependencies, 'runtime');
+    addPoetry(poetry['dev-dependencies'], 'dev');
+    for (const [group, table] of Object.entries<Record<string, any>>(poetry.group ?? {})) {
+        addPoetry(table.dependencies, group === 'main' ? 'runtime' : 'dev');
+    }
+
+    return dependencies;
+}
+
+function parsePipfile(content: string, manifest: string): Dependency[] {
+    const data = TOML.parse(content) as Record<string, any>;
+    return [
+        ...Object.entries(data.packages ?? {}).map(([name, value]) => fromManifestValue(name, value, 'runtime', 'pypi', manifest)),
+        ...Object.entries(data['dev-packages'] ?? {}).map(([name, value]) => fromManifestValue(name, value, 'dev', 'pypi', manifest))
+    ];
+}
+
+/**
+ * Direct requirements of a Go module; `// indirect` ones are transitive
+ */
+function parseGoMod(content: string, manifest: string): Dependency[] {
+    const dependencies: Dependency[] = [];
+    let inRequireBlock = false;
+
+    for (const line of content.split(/\r?\n/)) {
+        const indirect = /\/\/\s*indirect\b/.test(line);
+        const code = line.replace(/\/\/.*$/, '').trim();
+
+        let requirement: string | undefined;
+        if (inRequireBlock) {
+            if (code === ')') {
+                inRequireBlock = false;
+                continue;
+            }
+            requirement = code;
+        } else if (/^require\s*\($/.test(code)) {
+            inRequireBlock = true;
+            continue;
+        } else if (code.startsWith('require ')) {
+            requirement = code.substring('require '.length).trim();
+        }
+
+        const [name, version] = requirement ? requirement.split(/\s+/) : [];
+        if (name && !indirect) {
+            dependencies.push({ name, version, scope: 'runtime', ecosystem: 'go', manifest });
+        }
+    }
+
+    return dependencies;
+}
+
+function parseCargoToml(content: string, manifest: string): Dependency[] {
+    const data = TOML.parse(content) as Record<string, any>;
+    const dependencies: Dependency[] = [];
+
+    const addTables = (tables: Record<string, any>) => {
+        const entries: [unknown, Scope][] = [
+            [tables.dependencies, 'runtime'],
+            [tables['dev-dependencies'], 'dev'],
+            [tables['build-dependencies'], 'dev']
+        ];
+        for (const [table, scope] of entries) {
+            for (const [name, value] of Object.entries(table ?? {})) {
+                dependencies.push(fromManifestValue(name, value, scope, 'cargo', manifest));
+            }
+        }
+    };
+
+    addTables(data);
+    for (const target of Object.values<Record<string, any>>(data.target ?? {})) {
+        addTables(target);
+    }
+
+    return dependencies;
+}
+
+/**
+ * Maven dependencies outside <dependencyManagement> and <build>, with
+ * ${property} versions resolved from <properties>
+ */
+function parsePom(content: string, manifest: string): Dependency[] {
+    const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+    const properties = new Map<string, string>();
+
+    for (const block of xml.match(/<properties>[\s\S]*?<\/properties>/g) ?? []) {
+        for (const property of block.matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+            properties.set(property[1], property[2]);
+        }
+    }
+
+    const resolve = (value: string | undefined) => value?.replace(/\$\{([^}]+)\}/g, (placeholder, name) => properties.get(name) ?? placeholder);
+    const tag = (block: string, name: string) => new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`).exec(block)?.[1];
+
+    const dependencies: Dependency[] = [];
+    const declared = xml
+        .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+        .replace(/<build>[\s\S]*?<\/build>/g, '');
+
+    for (const [block] of declared.matchAll(/<dependency>[\s\S]*?<\/dependency>/g)) {
+        const groupId = resolve(tag(block, 'groupId'));
+        const artifactId = resolve(tag(block, 'artifactId'));
+        if (!artifactId) {
+            continue;
+        }
+
+        const mavenScope = tag(block, 'scope');
+        const scope: Scope = mavenScope === 'test' ? 'dev' : tag(block, 'optional') === 'true' ? 'optional' : 'runtime';
+        dependencies.push(withoutUndefined({
+            name: groupId ? `${groupId}:${artifactId}` : artifactId,
+            version: resolve(tag(block, 'version')),
+            scope,
+            ecosystem: 'maven' as const,
+            manifest
+        }));
+    }
+
+    return dependencies;
+}
+
+/**
+ * Groovy and Kotlin DSL dependency declarations in string or map notation
+ */
+function parseGradle(content: string, manifest: string): Dependency[] {
+    const configurations = 'implementation|api|compileOnly|runtimeOnly|compile|runtime|testImplementation|testCompileOnly|testRuntimeOnly|testCompile|androidTestImplementation|debugImplementation|kapt|ksp|annotationProcessor|developmentOnly';
+    const stringNotation = new RegExp(`\\b(${configurations})\\s*\\(?\\s*(?:(?:platform|enforcedPlatform)\\s*\\(\\s*)?["']([^"':\\s]+):([^"':\\s]+)(?::([^"'\\s@]+))?(?:@\\w+)?["']`, 'g');
+    const mapNotation = new RegExp(`\\b(${configurations})\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["'](?:\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["'])?`, 'g');
+    const code = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+    const dependencies: Dependency[] = [];
+
+    for (const pattern of [stringNotation, mapNotation]) {
+        for (const [, configuration, group, name, version] of code.matchAll(pattern)) {
+            const scope: Scope = /^(test|androidTest|debug|kapt|ksp|annotationProcessor|developmentOnly)/.test(configuration) ? 'dev' : 'runtime';
+            dependencies.push(withoutUndefined({ name: `${group}:${name}`, version, scope, ecosystem: 'gradle' as const, manifest }));
+        }
+    }
+
+    return dependencies;
+}
+
+/**
+ * Bundler gems; gems in development or test groups are dev dependencies
+ */
+function parseGemfile(content: string, manifest: string): Dependency[] {
+    const dependencies: Dependency[] = [];
+    // One entry per open do-block: whether it is a development/test group
+    const blocks: boolean[] = [];
+    const isDevGroups = (groups: string) => {
+        const names = Array.from(groups.matchAll(/:?["']?(\w+)["']?/g), match => match[1]).filter(name => name !== 'group' && name !== 'groups');
+        return names.length > 0 && names.every(name => name === 'development' || name === 'test');
+    };
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+
+        const group = /^group\s+(.+?)\s+do\b/.exec(line);
+        if (group) {
+            blocks.push(isDevGroups(group[1]));
+            continue;
+        }
+        if (/\bdo(\s*\|[^|]*\|)?$/.test(line) || /^(if|unless|case|while|until|begin)\b/.test(line)) {
+            blocks.push(blocks.length > 0 && blocks[blocks.length - 1]);
+            continue;
+        }
+        if (line === 'end') {
+            blocks.pop();
+            continue;
+        }
+
+        const gem = /^gem\s*\(?\s*["']([^"']+)["']((?:\s*,\s*["'][^"']*["'])*)(.*)$/.exec(line);
+        if (!gem) {
+            continue;
+        }
+
+        const versions = Array.from(gem[2].matchAll(/["']([^"']*)["']/g), match => match[1]);
+        const inlineGroup = /\bgroups?(?::|\s*=>)\s*(\[[^\]]*\]|:\w+|["']\w+["'])/.exec(gem[3]);
+        const dev = inlineGroup ? isDevGroups(inlineGroup[1]) : blocks.length > 0 && blocks[blocks.length - 1];
+
+        dependencies.push(withoutUndefined({
+            name: gem[1],
+            version: versions.length > 0 ? versions.join(', ') : undefined,
+            scope: dev ? 'dev' as const : 'runtime' as const,
+            ecosystem: 'rubygems' as const,
+            manifest
+        }));
+    }
+
+    return dependencies;
+}
+
+function parsePubspec(content: string, manifest: string): Dependency[] {
+    const data = parseYaml(content) ?? {};
+    return [
+        ...Object.entries(data.dependencies ?? {}).map(([name, value]) => fromManifestValue(name, value, 'runtime', 'pub', manifest)),
+        ...Object.entries(data.dev_dependencies ?? {}).map(([name, value]) => fromManifestValue(name, value, 'dev', 'pub', manifest))
+    ];
+}
+
+function fromVersionMap(versions: unknown, scope: Scope, ecosystem: DependencyEcosystem, manifest: string): Dependency[] {
+    if (!versions || typeof versions !== 'object') {
+        return [];
+    }
+    return Object.entries(versions).map(([name, version]) => fromManifestValue(name, version, scope, ecosystem, manifest));
+}
+
+/**
+ * A dependency written as a version string or as a table such as
+ * `{ version = "1", features = [...] }`, `{ git = "..." }` or `{ sdk: flutter }`
+ */
+function fromManifestValue(name: string, value: unknown, scope: Scope, ecosystem: DependencyEcosystem, manifest: string): Dependency {
+    if (typeof value === 'string' || typeof value === 'number') {
+        const version = String(value).trim();
+        return withoutUndefined({ name, version: version && version !== '*' ? version : undefined, scope, ecosystem, manifest });
+    }
+    if (!value || typeof value !== 'object') {
+        return { name, scope, ecosystem, manifest };
+    }
+
+    const table = value as Record<string, unknown>;
+    const source = ['git', 'path', 'url', 'sdk'].find(key => typeof table[key] === 'string');
+    const version = typeof table.version === 'string' && table.version !== '*'
+        ? table.version
+        : source ? `${source}: ${table[source]}` : undefined;
+    const extras = Array.isArray(table.extras) ? table.extras.map(String) : undefined;
+    const marker = typeof table.markers === 'string' ? table.markers : undefined;
+
+    return withoutUndefined({
+        name,
+        version,
+        scope: table.optional === true && scope === 'runtime' ? 'optional' : scope,
+        ecosystem,
+        manifest,
+        extras,
+        marker
+    });
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+function toPosix(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
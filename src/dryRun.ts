@@ -0,0 +1,142 @@
+// dryRun.ts - Token and cost estimate of a README generation run, and export of its prompts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelPrice, PlannedRequest } from './types';
+
+/**
+ * Approximate list prices in US dollars; `readmeGenerator.pricing` adds to
+ * and overrides these
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'sonar-medium-online': { input: 0.6, output: 0.6, perRequest: 0.005 },
+    'sonar': { input: 1, output: 1, perRequest: 0.005 },
+    'sonar-pro': { input: 3, output: 15, perRequest: 0.006 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 }
+};
+
+const PHASE_NAMES: Record<PlannedRequest['phase'], string> = {
+    readme: 'README',
+    summary: 'chunk summaries',
+    merge: 'summary merges',
+    synthesis: 'final README'
+};
+
+/**
+ * Price for a model: an exact entry, otherwise the longest entry the model
+ * name starts with (e.g. "gpt-4o-mini-2024-07-18" uses "gpt-4o-mini")
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+    const name = model.toLowerCase().split('/').pop() ?? '';
+    const entries = Object.entries(prices).map(([key, price]) => [key.toLowerCase(), price] as const);
+
+    const exact = entries.find(([key]) => key === name || key === model.toLowerCase());
+    if (exact) {
+        return exact[1];
+    }
+
+    const prefixes = entries.filter(([key]) => name.startsWith(key)).sort((a, b) => b[0].length - a[0].length);
+    return prefixes[0]?.[1];
+}
+
+/**
+ * Cost of one request in US dollars, assuming the output reaches its limit
+ */
+export function estimateRequestCost(request: PlannedRequest, price: ModelPrice): number {
+    return (request.inputTokens * price.input + request.outputTokens * price.output) / 1_000_000 + (price.perRequest ?? 0);
+}
+
+/**
+ * Markdown report of the planned requests, their tokens and cost
+ */
+export function formatDryRunReport(
+    model: string,
+    requests: PlannedRequest[],
+    price: ModelPrice | undefined,
+    options: { structuredOutput?: boolean; maxRetries?: number } = {}
+): string {
+    const inputTokens = requests.reduce((total, request) => total + request.inputTokens, 0);
+    const outputTokens = requests.reduce((total, request) => total + request.outputTokens, 0);
+    const phases = Object.entries(PHASE_NAMES)
+        .map(([phase, name]) => [requests.filter(request => request.phase === phase).length, name] as const)
+        .filter(([count]) => count > 0)
+        .map(([count, name]) => `${count} ${name}`);
+
+    const lines = [
+        '# README Dry Run',
+        '',
+        'Nothing was sent to the AI provider. These are the requests a generation run would make with the current files and settings.',
+        '',
+        `- **Model**: ${model}`,
+        `- **Requests**: ${requests.length}${phases.length > 0 ? ` (${phases.join(', ')})` : ''}`,
+        `- **Input tokens**: ${formatNumber(inputTokens)}`,
+        `- **Output tokens**: at most ${formatNumber(outputTokens)}`,
+        price
+            ? `- **Estimated cost**: at most ${formatCost(requests.reduce((total, request) => total + estimateRequestCost(request, price), 0))} (input $${price.input}/M, output $${price.output}/M${price.perRequest ? `, $${price.perRequest} per request` : ''})`
+            : `- **Estimated cost**: unknown, no price configured for \`${model}\`; add it to \`readmeGenerator.pricing\``,
+        ''
+    ];
+
+    if (requests.length === 0) {
+        lines.push('No files would be sent, so no requests would be made.');
+        return `${lines.join('\n')}\n`;
+    }
+
+    lines.push(
+        '| # | Request | Files | Input tokens | Max output tokens | Cost |',
+        '|---|---------|-------|--------------|-------------------|------|'
+    );
+    requests.forEach((request, i) => {
+        const cost = price ? formatCost(estimateRequestCost(request, price)) : '–';
+        lines.push(`| ${i + 1} | ${request.label} | ${request.files.length || '–'} | ${formatNumber(request.inputTokens)}${request.estimated ? '*' : ''} | ${formatNumber(request.outputTokens)} | ${cost} |`);
+    });
+
+    lines.push('', '## Notes', '');
+    if (requests.some(request => request.estimated)) {
+        lines.push('- \\* Includes notes written by earlier requests, counted at their token limit.');
+    }
+    lines.push('- Output is counted at each request\'s `max_tokens`, so the cost is an upper bound.');
+    if (options.maxRetries) {
+        lines.push(`- Failed requests are retried up to ${options.maxRetries} times; retries are not included.`);
+    }
+    if (options.structuredOutput) {
+        lines.push('- Structured output: invalid JSON is re-requested up to 2 more times; those requests are not included.');
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Write every planned request as the JSON body it would be sent with, plus
+ * the report, to a folder. Returns the written file paths.
+ */
+export function exportPrompts(folder: string, model: string, requests: PlannedRequest[], report: string): string[] {
+    fs.mkdirSync(folder, { recursive: true });
+    const written: string[] = [];
+
+    const reportPath = path.join(folder, 'dry-run.md');
+    fs.writeFileSync(reportPath, report, 'utf8');
+    written.push(reportPath);
+
+    requests.forEach((request, i) => {
+        const requestPath = path.join(folder, `${String(i + 1).padStart(3, '0')}-${request.phase}.json`);
+        const body = { model, max_tokens: request.outputTokens, messages: request.messages };
+        fs.writeFileSync(requestPath, `${JSON.stringify(body, null, 2)}\n`, 'utf8');
+        written.push(requestPath);
+    });
+
+    console.log(`📤 Exported ${requests.length} prompts to ${folder}`);
+    return written;
+}
+
+function formatNumber(value: number): string {
+    return value.toLocaleString('en-US');
+}
+
+function formatCost(value: number): string {
+    return `$${value < 0.01 ? value.toFixed(4) : value.toFixed(2)}`;
+}
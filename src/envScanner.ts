@@ -0,0 +1,213 @@
+// envScanner.ts - Environment variables a project reads, with defaults and the files that read them
+
+import * as path from 'path';
+import { EnvironmentVariable, FileInfo } from './types';
+
+/**
+ * One read of a variable in code
+ */
+interface EnvironmentRead {
+    name: string;
+    defaultValue?: string;
+    /** Has a default or is read in a way that tolerates it being unset */
+    optional: boolean;
+}
+
+type Scanner = (content: string) => EnvironmentRead[];
+
+const NAME = '([A-Za-z_][A-Za-z0-9_]*)';
+const STRING_NAME = `['"\`]${NAME}['"\`]`;
+const MAX_DEFAULT_LENGTH = 60;
+
+const SCANNERS: Record<string, Scanner> = {
+    '.js': scanJavaScript,
+    '.jsx': scanJavaScript,
+    '.mjs': scanJavaScript,
+    '.cjs': scanJavaScript,
+    '.ts': scanJavaScript,
+    '.tsx': scanJavaScript,
+    '.mts': scanJavaScript,
+    '.cts': scanJavaScript,
+    '.vue': scanJavaScript,
+    '.svelte': scanJavaScript,
+    '.py': scanPython,
+    '.go': scanGo,
+    '.rs': scanRust
+};
+
+/** Example dotenv files are documentation; real .env files are never read */
+const DOTENV_EXAMPLE = /(^|\/)(\.env\.(example|sample|template|dist|defaults)|(example|sample)\.env)$/i;
+const TEST_FILE = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|(^|\/)test_\w+\.py$/i;
+
+/**
+ * Find the environment variables read by the code and listed in example
+ * dotenv files. A variable is required when no read gives it a default or
+ * tolerates it being unset. Sorted by name.
+ */
+export function scanEnvironmentVariables(fileInfos: FileInfo[]): EnvironmentVariable[] {
+    const variables = new Map<string, EnvironmentVariable & { optionalReads: number; reads: number; listedOptional: boolean }>();
+    const get = (name: string) => {
+        let variable = variables.get(name);
+        if (!variable) {
+            variable = { name, required: false, files: [], optionalReads: 0, reads: 0, listedOptional: false };
+            variables.set(name, variable);
+        }
+        return variable;
+    };
+
+    for (const file of fileInfos) {
+        const filePath = file.path.replace(/\\/g, '/');
+
+        if (DOTENV_EXAMPLE.test(filePath)) {
+            for (const entry of parseDotenvExample(file.content)) {
+                const variable = get(entry.name);
+                variable.description ??= entry.description;
+                variable.example ??= entry.value;
+                variable.documentedIn ??= filePath;
+                variable.listedOptional ||= entry.commented;
+            }
+            continue;
+        }
+
+        const scanner = SCANNERS[path.posix.extname(filePath).toLowerCase()];
+        if (!scanner || TEST_FILE.test(filePath)) {
+            continue;
+        }
+
+        for (const read of scanner(file.content)) {
+            const variable = get(read.name);
+            variable.reads++;
+            variable.optionalReads += read.optional ? 1 : 0;
+            variable.defaultValue ??= read.defaultValue;
+            if (!variable.files.includes(filePath)) {
+                variable.files.push(filePath);
+            }
+        }
+    }
+
+    return Array.from(variables.values())
+        .map(({ optionalReads, reads, listedOptional, ...variable }) => ({
+            ...variable,
+            // Only listed in an example file: required unless commented out there
+            required: reads > 0 ? optionalReads === 0 : !listedOptional
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * process.env.X, process.env['X'], import.meta.env.X and destructuring
+ * from process.env, with `||` / `??` / destructuring defaults
+ */
+function scanJavaScript(content: string): EnvironmentRead[] {
+    const reads: EnvironmentRead[] = [];
+    const access = new RegExp(`\\b(?:process\\.env|import\\.meta\\.env)(?:\\.${NAME}|\\[\\s*${STRING_NAME}\\s*\\])`, 'g');
+
+    for (const match of content.matchAll(access)) {
+        const name = match[1] ?? match[2];
+        const before = content.slice(content.lastIndexOf('\n', match.index!) + 1, match.index);
+        const after = content.slice(match.index! + match[0].length);
+        const defaultValue = after.match(/^\s*(?:\|\||\?\?)\s*([^,;)\n}]+)/)?.[1];
+        const conditional = /(?:\bif\s*\(\s*!*|!\s*|&&\s*)$/.test(before) || /^\s*(?:\?(?![?.])|&&|[!=]==?)/.test(after);
+        reads.push({ name, defaultValue: cleanDefault(defaultValue), optional: defaultValue !== undefined || conditional });
+    }
+
+    for (const match of content.matchAll(/\{([^{}]*)\}\s*=\s*process\.env\b/g)) {
+        for (const property of match[1].split(',')) {
+            const destructured = property.trim().match(new RegExp(`^${NAME}(?:\\s*:\\s*\\w+)?(?:\\s*=\\s*(.+))?$`, 's'));
+            if (destructured) {
+                reads.push({ name: destructured[1], defaultValue: cleanDefault(destructured[2]), optional: destructured[2] !== undefined });
+            }
+        }
+    }
+
+    return reads;
+}
+
+/**
+ * os.environ['X'] (required), os.environ.get / os.getenv with an optional default
+ */
+function scanPython(content: string): EnvironmentRead[] {
+    const reads: EnvironmentRead[] = [];
+
+    for (const match of content.matchAll(new RegExp(`\\bos\\.environ\\[\\s*${STRING_NAME}\\s*\\]`, 'g'))) {
+        reads.push({ name: match[1], optional: false });
+    }
+    for (const match of content.matchAll(new RegExp(`\\b(?:os\\.environ\\.get|os\\.getenv|getenv)\\(\\s*${STRING_NAME}\\s*(?:,\\s*([^)\\n]+))?\\)`, 'g'))) {
+        reads.push({ name: match[1], defaultValue: cleanDefault(match[2]), optional: true });
+    }
+
+    return reads;
+}
+
+/**
+ * os.Getenv (required, an unset variable reads as "") and os.LookupEnv (optional)
+ */
+function scanGo(content: string): EnvironmentRead[] {
+    const reads: EnvironmentRead[] = [];
+
+    for (const match of content.matchAll(new RegExp(`\\bos\\.(Getenv|LookupEnv)\\(\\s*"${NAME}"\\s*\\)`, 'g'))) {
+        reads.push({ name: match[2], optional: match[1] === 'LookupEnv' });
+    }
+
+    return reads;
+}
+
+/**
+ * env::var / env::var_os with unwrap_or defaults, env! (required) and option_env! (optional)
+ */
+function scanRust(content: string): EnvironmentRead[] {
+    const reads: EnvironmentRead[] = [];
+
+    for (const match of content.matchAll(new RegExp(`\\benv::var(?:_os)?\\(\\s*"${NAME}"\\s*\\)`, 'g'))) {
+        const after = content.slice(match.index! + match[0].length);
+        const fallback = after.match(/^\s*\.(?:unwrap_or|unwrap_or_else|unwrap_or_default)\(\s*(?:\|[^|]*\|\s*)?("[^"]*"|[\w.:-]+)?/);
+        const optional = fallback !== null || /^\s*\.(?:ok|is_ok|is_err)\(\)/.test(after);
+        reads.push({ name: match[1], defaultValue: cleanDefault(fallback?.[1]), optional });
+    }
+    for (const match of content.matchAll(new RegExp(`\\b(option_env|env)!\\(\\s*"${NAME}"`, 'g'))) {
+        reads.push({ name: match[2], optional: match[1] === 'option_env' });
+    }
+
+    return reads;
+}
+
+/**
+ * KEY=value lines of an example dotenv file; comment lines directly above
+ * a key describe it, and "# KEY=value" lines are optional keys
+ */
+function parseDotenvExample(content: string): { name: string; value?: string; description?: string; commented: boolean }[] {
+    const entries: { name: string; value?: string; description?: string; commented: boolean }[] = [];
+    let comments: string[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+        const entry = line.match(new RegExp(`^\\s*(#\\s*)?(?:export\\s+)?${NAME}\\s*=\\s*(.*)$`));
+        if (entry) {
+            entries.push({
+                name: entry[2],
+                value: stripDotenvValue(entry[3]),
+                description: comments.join(' ') || undefined,
+                commented: entry[1] !== undefined
+            });
+            comments = [];
+        } else if (/^\s*#/.test(line)) {
+            comments.push(line.replace(/^\s*#+\s?/, '').trim());
+        } else {
+            comments = [];
+        }
+    }
+
+    return entries;
+}
+
+function stripDotenvValue(raw: string): string | undefined {
+    const value = raw.trim().match(/^(['"])(.*)\1/)?.[2] ?? raw.replace(/\s+#.*$/, '').trim();
+    return value.length > 0 && !value.startsWith('[REDACTED') ? value : undefined;
+}
+
+function cleanDefault(value: string | undefined): string | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+    return trimmed.length > MAX_DEFAULT_LENGTH ? `${trimmed.slice(0, MAX_DEFAULT_LENGTH)}…` : trimmed;
+}
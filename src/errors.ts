@@ -0,0 +1,307 @@
+// errors.ts - Typed errors for LLM provider calls and retry with backoff
+
+import { GenerationOptions } from './types';
+
+/**
+ * Category of a failed provider request
+ */
+export type ApiErrorKind = 'auth' | 'rateLimit' | 'timeout' | 'server' | 'badRequest' | 'connection' | 'unknown';
+
+/**
+ * Base class for all errors returned by an LLM provider
+ */
+export class ApiError extends Error {
+    public readonly kind: ApiErrorKind;
+    public readonly status?: number;
+    public readonly retryable: boolean;
+
+    constructor(message: string, kind: ApiErrorKind = 'unknown', status?: number, retryable: boolean = false) {
+        super(message);
+        this.name = new.target.name;
+        this.kind = kind;
+        this.status = status;
+        this.retryable = retryable;
+    }
+}
+
+/**
+ * The API key is missing, invalid or lacks permission (401/403)
+ */
+export class AuthenticationError extends ApiError {
+    constructor(message: string, status?: number) {
+        super(message, 'auth', status, false);
+    }
+}
+
+/**
+ * The provider rejected the request because of rate limiting (429)
+ */
+export class RateLimitError extends ApiError {
+    /** Delay requested by the provider through `Retry-After`, if any */
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, retryAfterMs?: number, status: number = 429) {
+        super(message, 'rateLimit', status, true);
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * The request did not complete in time
+ */
+export class ApiTimeoutError extends ApiError {
+    constructor(message: string) {
+        super(message, 'timeout', undefined, true);
+    }
+}
+
+/**
+ * The provider failed on its side (5xx)
+ */
+export class ServerError extends ApiError {
+    constructor(message: string, status?: number) {
+        super(message, 'server', status, true);
+    }
+}
+
+/**
+ * The request itself was rejected (400/404/422), e.g. an unknown model
+ */
+export class BadRequestError extends ApiError {
+    constructor(message: string, status?: number) {
+        super(message, 'badRequest', status, false);
+    }
+}
+
+/**
+ * The provider could not be reached at all
+ */
+export class ConnectionError extends ApiError {
+    constructor(message: string) {
+        super(message, 'connection', undefined, true);
+    }
+}
+
+/**
+ * The provider is not configured (missing API key, base URL, ...)
+ */
+export class ProviderConfigurationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderConfigurationError';
+    }
+}
+
+/**
+ * The user cancelled the running operation
+ */
+export class GenerationCancelledError extends Error {
+    constructor(message: string = 'README generation cancelled by user') {
+        super(message);
+        this.name = 'GenerationCancelledError';
+    }
+}
+
+/**
+ * Options for {@link withRetry}
+ */
+export interface RetryOptions {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    signal?: AbortSignal;
+    /** Extra veto on retrying, e.g. once streamed output has been shown */
+    shouldRetry?: (error: ApiError) => boolean;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000
+};
+
+/**
+ * Convert any error thrown by the Perplexity SDK or axios into a typed error
+ */
+export function classifyApiError(error: unknown, providerName: string): Error {
+    if (error instanceof ApiError || error instanceof GenerationCancelledError) {
+        return error;
+    }
+
+    const err = (error ?? {}) as any;
+    const errorName: string = err.name || '';
+    const code: string = err.code || '';
+
+    if (errorName === 'APIUserAbortError' || errorName === 'AbortError' || errorName === 'CanceledError' || code === 'ERR_CANCELED') {
+        return new GenerationCancelledError();
+    }
+
+    const status: number | undefined = typeof err.status === 'number'
+        ? err.status
+        : err.response?.status;
+    const message = `${providerName}: ${extractErrorMessage(err)}`;
+
+    if (status === undefined) {
+        if (errorName === 'APIConnectionTimeoutError' || code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+            return new ApiTimeoutError(`${providerName}: request timed out`);
+        }
+        if (errorName === 'APIConnectionError' || ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ERR_NETWORK'].includes(code)) {
+            return new ConnectionError(`${providerName}: could not connect (${code || err.message || 'network error'})`);
+        }
+        return new ApiError(message);
+    }
+
+    if (status === 401 || status === 403) {
+        return new AuthenticationError(message, status);
+    }
+    if (status === 429) {
+        return new RateLimitError(message, parseRetryAfter(getHeader(err, 'retry-after-ms'), true) ?? parseRetryAfter(getHeader(err, 'retry-after')));
+    }
+    if (status === 408) {
+        return new ApiTimeoutError(message);
+    }
+    if (status >= 500) {
+        return new ServerError(message, status);
+    }
+    if (status >= 400) {
+        return new BadRequestError(message, status);
+    }
+
+    return new ApiError(message, 'unknown', status);
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff and jitter.
+ * Rate-limit responses wait for the provider's `Retry-After` when it is given.
+ */
+export async function withRetry<T>(
+    operation: (attempt: number) => Promise<T>,
+    providerName: string,
+    options: Partial<RetryOptions> = {}
+): Promise<T> {
+    const { maxRetries, baseDelayMs, maxDelayMs, signal, shouldRetry } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            const classified = classifyApiError(error, providerName);
+
+            if (!(classified instanceof ApiError) || !classified.retryable || attempt >= maxRetries ||
+                (shouldRetry && !shouldRetry(classified))) {
+                throw classified;
+            }
+
+            const delay = getRetryDelay(classified, attempt, baseDelayMs, maxDelayMs);
+            console.warn(`⏳ ${classified.message} - retrying in ${Math.round(delay)} ms (attempt ${attempt + 1}/${maxRetries})`);
+            await sleep(delay, signal);
+        }
+    }
+}
+
+/**
+ * Run one chat completion for a provider with retries. `request` streams
+ * when given an onToken callback and returns the whole text otherwise.
+ */
+export function completeWithRetry(
+    request: (onToken?: (text: string) => void) => Promise<string>,
+    providerName: string,
+    maxRetries: number,
+    options: GenerationOptions = {}
+): Promise<string> {
+    // A stream that already produced visible output must not be retried,
+    // otherwise the preview would show the text twice
+    let hasStreamedOutput = false;
+    const onToken = options.onToken
+        ? (text: string) => {
+            hasStreamedOutput = true;
+            options.onToken!(text);
+        }
+        : undefined;
+
+    return withRetry(attempt => {
+        if (attempt > 0) {
+            console.log(`🔁 Retrying API request (attempt ${attempt + 1})`);
+        }
+        return request(onToken);
+    }, providerName, {
+        maxRetries,
+        signal: options.signal,
+        shouldRetry: () => !hasStreamedOutput
+    });
+}
+
+/**
+ * Backoff delay for a retry: the provider's Retry-After if known,
+ * otherwise exponential backoff with "equal jitter"
+ */
+function getRetryDelay(error: ApiError, attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+    if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, maxDelayMs);
+    }
+
+    const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+    return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Parse a Retry-After header value: delta-seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | undefined, isMilliseconds: boolean = false): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const numeric = Number(value);
+    if (!Number.isNaN(numeric)) {
+        return Math.max(0, isMilliseconds ? numeric : numeric * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+function getHeader(err: any, name: string): string | undefined {
+    const headers = err.headers ?? err.response?.headers;
+    if (!headers) {
+        return undefined;
+    }
+    if (typeof headers.get === 'function') {
+        return headers.get(name) ?? undefined;
+    }
+    return headers[name];
+}
+
+function extractErrorMessage(err: any): string {
+    const body = err.response?.data ?? err.error;
+    const bodyMessage = body?.error?.message ?? body?.message ?? (typeof body?.error === 'string' ? body.error : undefined);
+
+    if (typeof bodyMessage === 'string' && bodyMessage.length > 0) {
+        return bodyMessage;
+    }
+    return err.message || 'Unknown error';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new GenerationCancelledError());
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new GenerationCancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
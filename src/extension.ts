@@ -1,9 +1,34 @@
 // extension.ts - Main VS Code extension entry point
 
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { CodebaseAnalyzer } from './codebaseAnalyzer';
+import { GitignoreParser, README_IGNORE_FILE } from './gitignoreParser';
 import { ReadmeGenerator } from './readmeGenerator';
+import { generatePackageReadmes, generateReadmesForFolders } from './batchGeneration';
+import { getConfiguredModel, getProviderSettingsKey } from './llmProvider';
+import { formatReadmeChangeReport, getSavedReadmeChanges, summarizeReadmeChanges } from './readmeMerge';
+import { parseReadmeSections } from './readmeSections';
+import { PROPOSED_README_SCHEME, ProposedReadmeProvider, reviewReadmeChanges } from './readmeReview';
+import { formatRedactionReport, summarizeRedactions } from './secretRedactor';
+import { FileSelectionReview } from './fileSelectionReview';
+import { filterSelectedFiles } from './fileSelection';
+import { DEFAULT_MODEL_PRICES, exportPrompts, findModelPrice, formatDryRunReport } from './dryRun';
+import { CodeChunk, CodebaseAnalysis, ExistingReadmePolicy, FileInfo, GitignoreRule, ModelPrice, RedactionReport } from './types';
+import {
+    ApiTimeoutError,
+    AuthenticationError,
+    BadRequestError,
+    ConnectionError,
+    GenerationCancelledError,
+    ProviderConfigurationError,
+    RateLimitError,
+    ServerError
+} from './errors';
+
+const proposedReadmeProvider = new ProposedReadmeProvider();
+let fileSelectionReview: FileSelectionReview | undefined;
 
 /**
  * Extension activation
@@ -19,7 +44,58 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 	
-    context.subscriptions.push(generateCommand);
+    const generateOfflineCommand = vscode.commands.registerCommand(
+        'readme.generateOffline',
+        async () => {
+            await generateReadme({ offline: true });
+        }
+    );
+
+    const explainFileCommand = vscode.commands.registerCommand(
+        'readme.explainFile',
+        async (uri?: vscode.Uri) => {
+            await explainFileInclusion(uri);
+        }
+    );
+
+    const regenerateSectionCommand = vscode.commands.registerCommand(
+        'readme.regenerateSection',
+        async () => {
+            await regenerateExistingReadmeSection();
+        }
+    );
+
+    const dryRunCommand = vscode.commands.registerCommand(
+        'readme.dryRun',
+        async () => {
+            await dryRun();
+        }
+    );
+
+    const proposedReadmeRegistration = vscode.workspace.registerTextDocumentContentProvider(
+        PROPOSED_README_SCHEME,
+        proposedReadmeProvider
+    );
+
+    fileSelectionReview = new FileSelectionReview(context.workspaceState);
+    const review = fileSelectionReview;
+    const fileSelectionCommands = [
+        vscode.commands.registerCommand('readme.confirmFileSelection', () => review.confirm()),
+        vscode.commands.registerCommand('readme.saveFileSelection', () => review.confirm(true)),
+        vscode.commands.registerCommand('readme.cancelFileSelection', () => review.cancel())
+    ];
+
+    context.subscriptions.push(
+        generateCommand,
+        generateOfflineCommand,
+        explainFileCommand,
+        regenerateSectionCommand,
+        dryRunCommand,
+        proposedReadmeRegistration,
+        proposedReadmeProvider,
+        fileSelectionReview,
+        ...fileSelectionCommands
+    );
 
     // Show welcome message on first activation
     const hasShownWelcome = context.globalState.get('hasShownWelcome', false);
@@ -39,22 +115,29 @@ export function deactivate() {
 /**
  * Main README generation function
  */
-async function generateReadme(): Promise<void> {
+async function generateReadme(options: { offline?: boolean } = {}): Promise<void> {
     try {
         // Step 1: Validate workspace
-        const workspaceFolder = getWorkspaceFolder();
-        if (!workspaceFolder) {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
             vscode.window.showErrorMessage(
                 'Please open a workspace or folder to generate a README.'
             );
             return;
         }
 
-        const workspaceRoot = workspaceFolder.uri.fsPath;
-        console.log(`📁 Working in: ${workspaceRoot}`);
+        const selectedFolders = await pickWorkspaceFolders(workspaceFolders);
+        if (!selectedFolders) {
+            return;
+        }
+
+        const workspaceRoot = selectedFolders[0].uri.fsPath;
+        console.log(`📁 Working in: ${selectedFolders.map(folder => folder.uri.fsPath).join(', ')}`);
 
         // Step 2: Show confirmation dialog
-        const shouldProceed = await showConfirmationDialog();
+        const config = vscode.workspace.getConfiguration('readmeGenerator');
+        let offline = options.offline || config.get<boolean>('offline', false);
+        const shouldProceed = await showConfirmationDialog(offline);
         if (!shouldProceed) {
             return;
         }
@@ -63,20 +146,31 @@ async function generateReadme(): Promise<void> {
         const analyzer = new CodebaseAnalyzer(workspaceRoot);
         const validation = analyzer.validateWorkspace();
         
-        if (!validation.isValid) {
-            vscode.window.showErrorMessage(
+        if (!validation.isValid && !(offline && validation.offlineAvailable)) {
+            const actions = validation.offlineAvailable
+                ? ['Configure API Key', 'Generate Offline']
+                : ['Configure API Key'];
+            const action = await vscode.window.showErrorMessage(
                 `❌ ${validation.error}`,
-                'Configure API Key'
-            ).then(action => {
-                if (action === 'Configure API Key') {
-                    vscode.commands.executeCommand('workbench.action.openSettings', 'readmeGenerator.perplexityApiKey');
-                }
-            });
-            return;
+                ...actions
+            );
+
+            if (action === 'Configure API Key') {
+                vscode.commands.executeCommand('workbench.action.openSettings', getProviderSettingsKey());
+                return;
+            }
+            if (action !== 'Generate Offline') {
+                return;
+            }
+            offline = true;
         }
 
         // Step 4: Start analysis with progress tracking
-        await performAnalysis(analyzer, workspaceRoot);
+        if (selectedFolders.length > 1) {
+            await generateReadmesForFolders(selectedFolders, offline, proposedReadmeProvider, (root, files, token) => chooseExcludedFiles(root, files, !offline, token));
+        } else {
+            await performAnalysis(analyzer, workspaceRoot, offline);
+        }
 
     } catch (error) {
         handleError(error);
@@ -84,11 +178,14 @@ async function generateReadme(): Promise<void> {
 }
 
 /**
- * Show confirmation dialog
+ * Show confirmation dialog, worded for offline generation when nothing is sent
  */
-async function showConfirmationDialog(): Promise<boolean> {
+async function showConfirmationDialog(offline: boolean): Promise<boolean> {
+    const detail = offline
+        ? 'This will analyze all files in your workspace and build a README from the analysis only; nothing is sent to an AI provider.'
+        : 'This will analyze all files in your workspace and generate a comprehensive README using AI. You can review which files are sent before anything leaves your machine.';
     const answer = await vscode.window.showInformationMessage(
-        '🤖 Do you want us to read this codebase and make README for it?\n\nThis will analyze all files in your workspace and generate a comprehensive README using AI.',
+        `🤖 Do you want us to read this codebase and make README for it?\n\n${detail}`,
         { modal: true },
         'Yes, Generate README',
         'Cancel'
@@ -98,66 +195,124 @@ async function showConfirmationDialog(): Promise<boolean> {
 }
 
 /**
- * Get current workspace folder
+ * Let the user choose the workspace folder to document, or all of them.
+ * Returns undefined when the picker is dismissed.
  */
-function getWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-        return undefined;
+async function pickWorkspaceFolders(
+    workspaceFolders: readonly vscode.WorkspaceFolder[],
+    allowAll: boolean = true
+): Promise<vscode.WorkspaceFolder[] | undefined> {
+    if (workspaceFolders.length === 1) {
+        return [workspaceFolders[0]];
     }
 
-    if (workspaceFolders.length > 1) {
-        return workspaceFolders[0];
+    type FolderPickItem = vscode.QuickPickItem & { folders: vscode.WorkspaceFolder[] };
+
+    const items: FolderPickItem[] = workspaceFolders.map(folder => ({
+        label: `$(folder) ${folder.name}`,
+        description: folder.uri.fsPath,
+        folders: [folder]
+    }));
+
+    if (allowAll) {
+        items.push(
+            { label: '', kind: vscode.QuickPickItemKind.Separator, folders: [] },
+            {
+                label: '$(files) All workspace folders',
+                description: `Generate a README for each of the ${workspaceFolders.length} folders`,
+                folders: [...workspaceFolders]
+            }
+        );
     }
 
-    return workspaceFolders[0];
-}
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the workspace folder to generate a README for',
+        ignoreFocusOut: true
+    });
 
+    return picked?.folders;
+}
 
 /**
- * Handle errors gracefully
+ * Handle errors gracefully, reacting to the error type
  */
 function handleError(error: any): void {
     console.error('README generation error:', error);
-    
-    let errorMessage = 'An unexpected error occurred';
-    
-    if (error instanceof Error) {
-        errorMessage = error.message;
+
+    if (error instanceof GenerationCancelledError) {
+        vscode.window.showInformationMessage('README generation cancelled');
+        return;
     }
 
-    if (errorMessage.includes('API key')) {
+    if (error instanceof AuthenticationError || error instanceof ProviderConfigurationError) {
         vscode.window.showErrorMessage(
-            `❌ ${errorMessage}`,
+            `❌ ${error.message}`,
             'Configure API Key'
         ).then(action => {
             if (action === 'Configure API Key') {
-                vscode.commands.executeCommand('workbench.action.openSettings', 'readmeGenerator.perplexityApiKey');
+                vscode.commands.executeCommand('workbench.action.openSettings', getProviderSettingsKey());
+            }
+        });
+        return;
+    }
+
+    if (error instanceof RateLimitError) {
+        const waitHint = error.retryAfterMs !== undefined
+            ? `Please wait about ${Math.ceil(error.retryAfterMs / 1000)} seconds before trying again.`
+            : 'Please wait a few minutes before trying again.';
+        vscode.window.showErrorMessage(`❌ Rate limit reached: ${error.message}\n\n${waitHint}`);
+        return;
+    }
+
+    if (error instanceof ApiTimeoutError || error instanceof ConnectionError) {
+        vscode.window.showErrorMessage(
+            `❌ ${error.message}\n\nCheck your network connection or the provider endpoint and try again.`,
+            'Open Settings'
+        ).then(action => {
+            if (action === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'readmeGenerator');
             }
         });
-    } else if (errorMessage.includes('rate limit')) {
+        return;
+    }
+
+    if (error instanceof ServerError) {
         vscode.window.showErrorMessage(
-            `❌ ${errorMessage}\n\nPlease wait a few minutes before trying again.`
+            `❌ The AI provider is having problems (HTTP ${error.status ?? 'error'}). Please try again later.`
         );
-    } else if (errorMessage.includes('cancelled')) {
-        vscode.window.showInformationMessage('README generation cancelled');
-    } else {
+        return;
+    }
+
+    if (error instanceof BadRequestError) {
         vscode.window.showErrorMessage(
-            `❌ Failed to generate README: ${errorMessage}`,
-            'Show Details'
+            `❌ The AI provider rejected the request: ${error.message}\n\nCheck the configured model name.`,
+            'Open Settings'
         ).then(action => {
-            if (action === 'Show Details') {
-                console.error('Full error details:', error);
+            if (action === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'readmeGenerator');
             }
         });
+        return;
     }
+
+    const errorMessage = error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred';
+
+    vscode.window.showErrorMessage(
+        `❌ Failed to generate README: ${errorMessage}`,
+        'Show Details'
+    ).then(action => {
+        if (action === 'Show Details') {
+            console.error('Full error details:', error);
+        }
+    });
 }
 
 /**
  * Perform the complete analysis process with progress tracking
  */
-async function performAnalysis(analyzer: CodebaseAnalyzer, workspaceRoot: string): Promise<void> {
+async function performAnalysis(analyzer: CodebaseAnalyzer, workspaceRoot: string, offline: boolean): Promise<void> {
     try {
         console.log('🔍 Starting codebase analysis...');
         
@@ -165,17 +320,18 @@ async function performAnalysis(analyzer: CodebaseAnalyzer, workspaceRoot: string
         vscode.window.showInformationMessage('🔍 Starting codebase analysis...');
         
         // Create progress indicator
-        await vscode.window.withProgress({
+        const result = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "README AI Generator",
             cancellable: true
         }, async (progress, token) => {
-            return new Promise<void>((resolve, reject) => {
+            return new Promise<Awaited<ReturnType<CodebaseAnalyzer['analyzeCodebase']>>>((resolve, reject) => {
                 let lastIncrement = 0;
                 
                 token.onCancellationRequested(() => {
                     console.log('❌ Analysis cancelled by user');
-                    reject(new Error('Analysis cancelled by user'));
+                    fileSelectionReview?.cancel();
+                    reject(new GenerationCancelledError('Analysis cancelled by user'));
                 });
 
                 // Start analysis with progress callback
@@ -188,19 +344,25 @@ async function performAnalysis(analyzer: CodebaseAnalyzer, workspaceRoot: string
                     lastIncrement = progressInfo.percentage;
                     
                     console.log(`📊 ${progressMessage} (${progressInfo.percentage}%)`);
-                }).then(async (result) => {
-                    // Show analysis completion notification
-                    await showAnalysisResults(result.analysis, result.chunks, workspaceRoot);
-                    resolve();
-                }).catch((error) => {
+                }).then(resolve).catch((error) => {
                     console.error('Analysis failed:', error);
                     reject(error);
                 });
             });
         });
 
+        // Let the user choose what is sent before anything leaves the machine
+        const selection = await selectFilesToSend(analyzer, workspaceRoot, result.chunks, !offline);
+        if (!selection) {
+            vscode.window.showInformationMessage('❌ File review cancelled; nothing was sent');
+            return;
+        }
+
+        // Show analysis completion notification
+        await showAnalysisResults(selection.analysis ?? result.analysis, selection.chunks ?? result.chunks, workspaceRoot, offline, result.redactions);
+
     } catch (error) {
-        if (error instanceof Error && error.message === 'Analysis cancelled by user') {
+        if (error instanceof GenerationCancelledError) {
             vscode.window.showInformationMessage('❌ Analysis cancelled');
         } else {
             handleError(error);
@@ -208,6 +370,45 @@ async function performAnalysis(analyzer: CodebaseAnalyzer, workspaceRoot: string
     }
 }
 
+/**
+ * Apply the privacy review, or the selection saved by an earlier one, and
+ * rebuild the analysis and chunks from the remaining files. Returns
+ * undefined when the review is cancelled, and empty fields when every file
+ * is kept.
+ */
+async function selectFilesToSend(
+    analyzer: CodebaseAnalyzer,
+    workspaceRoot: string,
+    chunks: CodeChunk[],
+    interactive: boolean
+): Promise<{ analysis?: CodebaseAnalysis; chunks?: CodeChunk[] } | undefined> {
+    const files = chunks.flatMap(chunk => chunk.files);
+    const excluded = await chooseExcludedFiles(workspaceRoot, files, interactive);
+    if (!excluded) {
+        return undefined;
+    }
+
+    const selected = filterSelectedFiles(files, new Set(excluded));
+    return selected.length === files.length ? {} : analyzer.analyzeSelection(selected);
+}
+
+/**
+ * Paths to leave out of the prompts: from the review tree when interactive
+ * and enabled, otherwise from the saved selection. Undefined when cancelled.
+ */
+async function chooseExcludedFiles(
+    workspaceRoot: string,
+    files: FileInfo[],
+    interactive: boolean,
+    token?: vscode.CancellationToken
+): Promise<string[] | undefined> {
+    const reviewFiles = vscode.workspace.getConfiguration('readmeGenerator').get<boolean>('reviewFiles', true);
+
+    return interactive && reviewFiles && fileSelectionReview && files.length > 0
+        ? fileSelectionReview.review(workspaceRoot, files, token)
+        : fileSelectionReview?.getSavedExclusions(workspaceRoot) ?? [];
+}
+
 /**
  * Get user-friendly progress message
  */
@@ -255,7 +456,9 @@ async function showAnalysisResults(
         } 
     },
     chunks: any[],
-    workspaceRoot: string
+    workspaceRoot: string,
+    offline: boolean,
+    redactions: RedactionReport
 ): Promise<void> {
     const { projectType, totalFiles, languages, dependencies } = analysis;
     
@@ -269,18 +472,23 @@ async function showAnalysisResults(
     const message = `✅ Your codebase is: **${projectType}**\n\n` +
                    `📁 ${totalFiles} files analyzed\n` +
                    `💻 Languages: ${languages.join(', ')}\n` +
-                   `📦 ${dependencies.length} dependencies found`;
-    
-    const action = await vscode.window.showInformationMessage(
-        message,
-        'Generate README',
-        'View Details',
-        'Cancel'
-    );
+                   `📦 ${dependencies.length} dependencies found` +
+                   (redactions.findings.length > 0 ? `\n🔒 Redacted ${summarizeRedactions(redactions)}` : '');
+
+    if (redactions.errors.length > 0) {
+        vscode.window.showWarningMessage(`Some custom redaction patterns were skipped: ${redactions.errors.join('; ')}`);
+    }
+
+    const actions = ['Generate README', 'View Details', ...(redactions.findings.length > 0 ? ['Redaction Report'] : []), 'Cancel'];
+    const action = await vscode.window.showInformationMessage(message, ...actions);
     
-    if (action === 'Generate README') {
+    if (action === 'Redaction Report') {
+        const document = await vscode.workspace.openTextDocument({ content: formatRedactionReport(redactions), language: 'markdown' });
+        await vscode.window.showTextDocument(document);
+        return showAnalysisResults(analysis, chunks, workspaceRoot, offline, redactions);
+    } else if (action === 'Generate README') {
         // Start actual README generation
-        await generateReadmeContent(analysis, chunks, workspaceRoot);
+        await generateReadmeContent(analysis, chunks, workspaceRoot, offline);
     } else if (action === 'View Details') {
         // Show detailed analysis in a new document
         showDetailedAnalysis(analysis);
@@ -288,13 +496,13 @@ async function showAnalysisResults(
 }
 
 /**
- * Generate README content using AI
+ * Generate README content using AI, or from templates only when offline
  */
-async function generateReadmeContent(analysis: any, chunks: any[], workspaceRoot: string): Promise<void> {
+async function generateReadmeContent(analysis: any, chunks: any[], workspaceRoot: string, offline: boolean): Promise<void> {
     try {
-        console.log('🤖 Starting README generation with AI...');
+        console.log(offline ? '📝 Starting offline README generation...' : '🤖 Starting README generation with AI...');
         
-        const readmeGenerator = new ReadmeGenerator(workspaceRoot);
+        const readmeGenerator = new ReadmeGenerator(workspaceRoot, { offline });
         
         // Show progress during generation
         await vscode.window.withProgress({
@@ -304,10 +512,15 @@ async function generateReadmeContent(analysis: any, chunks: any[], workspaceRoot
         }, async (progress, token) => {
             return new Promise<void>((resolve, reject) => {
                 let lastIncrement = 0;
+                const abortController = new AbortController();
+                const config = vscode.workspace.getConfiguration('readmeGenerator');
+                const streamPreview = config.get<boolean>('streamPreview', true);
+                const structuredOutput = config.get<string>('outputFormat', 'markdown') === 'structured';
                 
                 token.onCancellationRequested(() => {
                     console.log('❌ README generation cancelled by user');
-                    reject(new Error('README generation cancelled by user'));
+                    abortController.abort();
+                    reject(new GenerationCancelledError());
                 });
 
                 // Generate README with progress tracking
@@ -320,6 +533,10 @@ async function generateReadmeContent(analysis: any, chunks: any[], workspaceRoot
                     lastIncrement = progressInfo.percentage;
                     
                     console.log(`🤖 ${progressMessage} (${progressInfo.percentage}%)`);
+                }, {
+                    streamPreview: streamPreview && !offline,
+                    signal: abortController.signal,
+                    structuredOutput
                 }).then(async (readmeContent) => {
                     // Validate content
                     const validation = readmeGenerator.validateReadmeContent(readmeContent);
@@ -329,7 +546,7 @@ async function generateReadmeContent(analysis: any, chunks: any[], workspaceRoot
                     }
                     
                     // Show preview and save options
-                    await showReadmePreview(readmeContent, readmeGenerator, workspaceRoot);
+                    await showReadmePreview(readmeContent, readmeGenerator, workspaceRoot, analysis, chunks, offline);
                     resolve();
                 }).catch((error) => {
                     console.error('❌ README generation failed:', error);
@@ -339,7 +556,7 @@ async function generateReadmeContent(analysis: any, chunks: any[], workspaceRoot
         });
 
     } catch (error) {
-        if (error instanceof Error && error.message === 'README generation cancelled by user') {
+        if (error instanceof GenerationCancelledError) {
             vscode.window.showInformationMessage('❌ README generation cancelled');
         } else {
             handleError(error);
@@ -350,7 +567,14 @@ async function generateReadmeContent(analysis: any, chunks: any[], workspaceRoot
 /**
  * Show README preview and handle save options
  */
-async function showReadmePreview(readmeContent: string, readmeGenerator: ReadmeGenerator, workspaceRoot: string): Promise<void> {
+async function showReadmePreview(
+    readmeContent: string,
+    readmeGenerator: ReadmeGenerator,
+    workspaceRoot: string,
+    analysis: CodebaseAnalysis,
+    chunks: CodeChunk[],
+    offline: boolean
+): Promise<void> {
     try {
         // Show preview
         await readmeGenerator.previewReadme(readmeContent);
@@ -363,18 +587,29 @@ async function showReadmePreview(readmeContent: string, readmeGenerator: ReadmeG
             'Regenerate',
             'Cancel'
         );
+
+        // Pick up any edits the user made in the preview document
+        const currentContent = readmeGenerator.getPreviewContent() ?? readmeContent;
         
         if (action === 'Save README') {
-            await saveReadme(readmeContent, readmeGenerator, workspaceRoot);
+            const savedPath = await saveReadme(currentContent, readmeGenerator, workspaceRoot);
+            if (savedPath && analysis.monorepo) {
+                await offerPackageReadmes(analysis, chunks, workspaceRoot, offline);
+            }
         } else if (action === 'Preview & Edit') {
             // Keep the preview open for editing
             vscode.window.showInformationMessage('📝 README is now open for editing. Save it when you\'re done!');
         } else if (action === 'Regenerate') {
-            // Restart the generation process
-            vscode.window.showInformationMessage('🔄 Regenerating README...');
-            // Note: This would require passing analysis and chunks again
-            // For now, just show a message
-            vscode.window.showInformationMessage('To regenerate, please run the command again.');
+            const sectionIndex = await pickReadmeSection(currentContent, true);
+
+            if (sectionIndex === 'all') {
+                await generateReadmeContent(analysis, chunks, workspaceRoot, offline);
+            } else if (sectionIndex !== undefined) {
+                const updatedContent = await regenerateSectionWithProgress(currentContent, sectionIndex, readmeGenerator, analysis, chunks);
+                if (updatedContent !== undefined) {
+                    await showReadmePreview(updatedContent, readmeGenerator, workspaceRoot, analysis, chunks, offline);
+                }
+            }
         }
         
     } catch (error) {
@@ -384,30 +619,403 @@ async function showReadmePreview(readmeContent: string, readmeGenerator: ReadmeG
 }
 
 /**
- * Save README to workspace
+ * Let the user pick a README section. Returns its index, 'all' for the
+ * whole document, or undefined when dismissed.
+ */
+async function pickReadmeSection(readmeContent: string, allowEntireReadme: boolean): Promise<number | 'all' | undefined> {
+    type SectionPickItem = vscode.QuickPickItem & { target: number | 'all' };
+
+    const sections = parseReadmeSections(readmeContent);
+    const items: SectionPickItem[] = sections.map((section, index) => ({
+        label: section.heading !== undefined ? `${'#'.repeat(section.level ?? 2)} ${section.title}` : '(Introduction)',
+        description: `${section.content.trim().split('\n').length} lines`,
+        target: index
+    }));
+
+    if (allowEntireReadme) {
+        items.push({ label: '$(refresh) Entire README', description: 'Generate the whole document again', target: 'all' });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the section to regenerate; the rest of the README stays unchanged'
+    });
+
+    return picked?.target;
+}
+
+/**
+ * Regenerate one section with a cancellable progress notification
  */
-async function saveReadme(readmeContent: string, readmeGenerator: ReadmeGenerator, workspaceRoot: string): Promise<void> {
+async function regenerateSectionWithProgress(
+    readmeContent: string,
+    sectionIndex: number,
+    readmeGenerator: ReadmeGenerator,
+    analysis: CodebaseAnalysis,
+    chunks: CodeChunk[]
+): Promise<string | undefined> {
+    const sectionTitle = parseReadmeSections(readmeContent)[sectionIndex]?.title || 'Introduction';
+
     try {
-        const savedPath = await readmeGenerator.saveReadme(readmeContent);
-        
-        vscode.window.showInformationMessage(
-            `✅ README saved successfully!\n\n📁 Location: ${path.basename(savedPath)}`,
-            'Open README',
-            'Open Folder'
-        ).then(action => {
+        return await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `README AI Generator: regenerating "${sectionTitle}"`,
+            cancellable: true
+        }, async (progress, token) => {
+            const abortController = new AbortController();
+            token.onCancellationRequested(() => abortController.abort());
+
+            progress.report({ message: '🤖 Generating section content...' });
+            return readmeGenerator.regenerateSection(readmeContent, sectionIndex, analysis, chunks, abortController.signal);
+        });
+    } catch (error) {
+        handleError(error);
+        return undefined;
+    }
+}
+
+/**
+ * Regenerate one section of the README.md already in the workspace
+ */
+async function regenerateExistingReadmeSection(): Promise<void> {
+    try {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('Please open a workspace or folder to regenerate a README section.');
+            return;
+        }
+
+        const selectedFolders = await pickWorkspaceFolders(workspaceFolders, false);
+        if (!selectedFolders) {
+            return;
+        }
+
+        const workspaceRoot = selectedFolders[0].uri.fsPath;
+        const readmePath = path.join(workspaceRoot, 'README.md');
+        if (!fs.existsSync(readmePath)) {
+            vscode.window.showErrorMessage('No README.md found in this folder. Generate one first.');
+            return;
+        }
+
+        const readmeContent = fs.readFileSync(readmePath, 'utf8');
+        const sectionIndex = await pickReadmeSection(readmeContent, false);
+        if (typeof sectionIndex !== 'number') {
+            return;
+        }
+
+        const readmeGenerator = new ReadmeGenerator(workspaceRoot);
+        const analyzer = new CodebaseAnalyzer(workspaceRoot);
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'README AI Generator',
+            cancellable: false
+        }, async (progress) => analyzer.analyzeCodebase(progressInfo => {
+            progress.report({ message: getProgressMessage(progressInfo) });
+        }));
+        const selection = await selectFilesToSend(analyzer, workspaceRoot, result.chunks, true);
+        if (!selection) {
+            vscode.window.showInformationMessage('❌ File review cancelled; nothing was sent');
+            return;
+        }
+        const analysis = selection.analysis ?? result.analysis;
+        const chunks = selection.chunks ?? result.chunks;
+
+        const updatedContent = await regenerateSectionWithProgress(readmeContent, sectionIndex, readmeGenerator, analysis, chunks);
+        if (updatedContent !== undefined) {
+            await showReadmePreview(updatedContent, readmeGenerator, workspaceRoot, analysis, chunks, false);
+        }
+    } catch (error) {
+        handleError(error);
+    }
+}
+
+/**
+ * Analyze the workspace and report the requests, tokens and cost a
+ * generation run would have, without sending anything
+ */
+async function dryRun(): Promise<void> {
+    try {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('Please open a workspace or folder to estimate README generation.');
+            return;
+        }
+
+        const selectedFolders = await pickWorkspaceFolders(workspaceFolders, false);
+        if (!selectedFolders) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('readmeGenerator');
+        if (config.get<boolean>('offline', false)) {
+            vscode.window.showInformationMessage('Offline mode is on: README generation makes no AI requests and costs nothing.');
+            return;
+        }
+
+        const workspaceRoot = selectedFolders[0].uri.fsPath;
+        const analyzer = new CodebaseAnalyzer(workspaceRoot);
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'README AI Generator',
+            cancellable: false
+        }, async (progress) => analyzer.analyzeCodebase(progressInfo => {
+            progress.report({ message: getProgressMessage(progressInfo) });
+        }));
+        const selection = await selectFilesToSend(analyzer, workspaceRoot, result.chunks, false);
+        const analysis = selection?.analysis ?? result.analysis;
+        const chunks = selection?.chunks ?? result.chunks;
+
+        const structuredOutput = config.get<string>('outputFormat', 'markdown') === 'structured';
+        const model = getConfiguredModel();
+        const requests = new ReadmeGenerator(workspaceRoot, { offline: true }).planRequests(analysis, chunks, { structuredOutput });
+        const price = findModelPrice(model, { ...DEFAULT_MODEL_PRICES, ...config.get<Record<string, ModelPrice>>('pricing', {}) });
+        const report = formatDryRunReport(model, requests, price, { structuredOutput, maxRetries: config.get<number>('maxRetries', 3) });
+
+        const document = await vscode.workspace.openTextDocument({ content: report, language: 'markdown' });
+        await vscode.window.showTextDocument(document);
+
+        const inputTokens = requests.reduce((total, request) => total + request.inputTokens, 0);
+        const action = await vscode.window.showInformationMessage(
+            `🧮 Dry run: ${requests.length} requests, about ${inputTokens.toLocaleString('en-US')} input tokens`,
+            'Export Prompts...'
+        );
+        if (action !== 'Export Prompts...' || requests.length === 0) {
+            return;
+        }
+
+        const folder = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.Uri.file(workspaceRoot),
+            openLabel: 'Export Prompts Here'
+        });
+        if (!folder || folder.length === 0) {
+            return;
+        }
+
+        const exportFolder = path.join(folder[0].fsPath, `readme-dry-run-${Date.now()}`);
+        exportPrompts(exportFolder, model, requests, report);
+        const open = await vscode.window.showInformationMessage(`📤 Exported ${requests.length} prompts to ${exportFolder}`, 'Reveal Folder');
+        if (open === 'Reveal Folder') {
+            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(exportFolder));
+        }
+    } catch (error) {
+        handleError(error);
+    }
+}
+
+/**
+ * Save README to workspace, updating or overwriting an existing one.
+ * Returns the saved path, or undefined when nothing was saved.
+ */
+async function saveReadme(readmeContent: string, readmeGenerator: ReadmeGenerator, workspaceRoot: string): Promise<string | undefined> {
+    try {
+        const mode = await chooseSaveMode(workspaceRoot);
+        if (!mode) {
+            return undefined;
+        }
+
+        const merged = mode === 'update' ? readmeGenerator.mergeWithExistingReadme(readmeContent) : undefined;
+        let contentToSave = merged ? merged.content : readmeContent;
+
+        // Nothing overwrites an existing README until the user has reviewed the diff
+        const readmePath = path.join(workspaceRoot, 'README.md');
+        if (fs.existsSync(readmePath)) {
+            const reviewed = await reviewReadmeChanges(proposedReadmeProvider, readmePath, fs.readFileSync(readmePath, 'utf8'), contentToSave);
+            if (reviewed === undefined) {
+                return undefined;
+            }
+            contentToSave = reviewed;
+        }
+
+        const savedPath = await readmeGenerator.saveReadme(contentToSave);
+        const changes = merged ? getSavedReadmeChanges(merged.changes, merged.content, contentToSave) : undefined;
+
+        const message = changes
+            ? `✅ README updated: ${summarizeReadmeChanges(changes)}`
+            : `✅ README saved successfully!\n\n📁 Location: ${path.basename(savedPath)}`;
+        const actions = changes ? ['Show Changes', 'Open README'] : ['Open README', 'Open Folder'];
+
+        vscode.window.showInformationMessage(message, ...actions).then(action => {
             if (action === 'Open README') {
                 vscode.workspace.openTextDocument(savedPath).then(doc => {
                     vscode.window.showTextDocument(doc);
                 });
             } else if (action === 'Open Folder') {
                 vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(savedPath));
+            } else if (action === 'Show Changes' && changes) {
+                vscode.workspace.openTextDocument({ content: formatReadmeChangeReport(changes), language: 'markdown' }).then(doc => {
+                    vscode.window.showTextDocument(doc);
+                });
             }
         });
-        
+        return savedPath;
+
     } catch (error) {
         console.error('❌ Failed to save README:', error);
         vscode.window.showErrorMessage(`Failed to save README: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return undefined;
+    }
+}
+
+/**
+ * After the root README of a monorepo is saved, generate one per package
+ * too, as `readmeGenerator.packageReadmes` says or the user chooses
+ */
+async function offerPackageReadmes(analysis: CodebaseAnalysis, chunks: CodeChunk[], workspaceRoot: string, offline: boolean): Promise<void> {
+    const monorepo = analysis.monorepo;
+    const policy = vscode.workspace.getConfiguration('readmeGenerator').get<'ask' | 'always' | 'never'>('packageReadmes', 'ask');
+    if (!monorepo || policy === 'never') {
+        return;
+    }
+
+    if (policy === 'ask') {
+        const answer = await vscode.window.showInformationMessage(
+            `This is a monorepo with ${monorepo.packages.length} packages (${monorepo.tools.join(', ')}). Generate a README for each package too?`,
+            'Generate Package READMEs',
+            'Not Now'
+        );
+        if (answer !== 'Generate Package READMEs') {
+            return;
+        }
+    }
+
+    await generatePackageReadmes(workspaceRoot, monorepo, chunks.flatMap(chunk => chunk.files), offline, proposedReadmeProvider);
+}
+
+/**
+ * Decide between updating and overwriting an existing README.md.
+ * Returns undefined when the user cancels.
+ */
+async function chooseSaveMode(workspaceRoot: string): Promise<'update' | 'overwrite' | undefined> {
+    if (!fs.existsSync(path.join(workspaceRoot, 'README.md'))) {
+        return 'overwrite';
+    }
+
+    const policy = vscode.workspace.getConfiguration('readmeGenerator').get<ExistingReadmePolicy>('existingReadme', 'ask');
+    if (policy !== 'ask') {
+        return policy;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        'README.md already exists. Update it and keep hand-written content, or overwrite it?',
+        { modal: true, detail: 'Mark sections with <!-- readme:keep --> to never touch them, or <!-- readme:auto:<section> --> to always regenerate them.' },
+        'Update',
+        'Overwrite'
+    );
+
+    if (answer === 'Update') {
+        return 'update';
+    }
+    if (answer === 'Overwrite') {
+        return 'overwrite';
+    }
+    return undefined;
+}
+
+/**
+ * Explain why a file is included in or excluded from the analysis
+ */
+async function explainFileInclusion(uri?: vscode.Uri): Promise<void> {
+    let target = uri ?? vscode.window.activeTextEditor?.document.uri;
+
+    if (!target || target.scheme !== 'file') {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Explain'
+        });
+        target = picked?.[0];
+    }
+
+    if (!target) {
+        return;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(target);
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('The selected file is not part of an open workspace folder.');
+        return;
+    }
+
+    const filePath = target.fsPath;
+    const relativePath = path.relative(workspaceFolder.uri.fsPath, filePath).replace(/\\/g, '/');
+    const stats = fs.existsSync(filePath) ? fs.statSync(filePath) : undefined;
+    const isDirectory = !!stats && stats.isDirectory();
+
+    const parser = new GitignoreParser(workspaceFolder.uri.fsPath);
+    const explanation = parser.explain(filePath, isDirectory);
+    const rule = explanation.rule;
+    const ruleText = rule ? `"${rule.isNegation ? '!' : ''}${rule.pattern}${rule.isDirectory ? '/' : ''}" (${describeRuleSource(rule, workspaceFolder.uri.fsPath)})` : '';
+
+    let message: string;
+    if (explanation.ignored && explanation.ignoredParent) {
+        message = `❌ ${relativePath} is excluded because its directory "${explanation.ignoredParent}" is excluded by ${ruleText}.`;
+    } else if (explanation.ignored) {
+        message = `❌ ${relativePath} is excluded by ${ruleText}.`;
+    } else if (!isDirectory && parser.isBinaryFile(filePath)) {
+        message = `❌ ${relativePath} is skipped because it is a binary file.`;
+    } else if (rule) {
+        message = `✅ ${relativePath} is included: re-included by ${ruleText}.`;
+    } else {
+        message = `✅ ${relativePath} is included: no ignore rule matches it.`;
+    }
+
+    const maxFileSize = vscode.workspace.getConfiguration('readmeGenerator').get<number>('maxFileSize', 1048576);
+    if (!explanation.ignored && stats && !isDirectory && stats.size > maxFileSize) {
+        message += ` It is larger than readmeGenerator.maxFileSize (${maxFileSize} bytes), so it is not sent in full.`;
+    }
+
+    const actions = rule ? ['Open Rule Source'] : [`Create ${README_IGNORE_FILE}`];
+    const action = await vscode.window.showInformationMessage(message, ...actions);
+
+    if (action === 'Open Rule Source' && rule) {
+        await openRuleSource(rule);
+    } else if (action === `Create ${README_IGNORE_FILE}`) {
+        const readmeIgnorePath = path.join(workspaceFolder.uri.fsPath, README_IGNORE_FILE);
+        if (!fs.existsSync(readmeIgnorePath)) {
+            fs.writeFileSync(readmeIgnorePath, '# Files to exclude from (or, with !, force into) README analysis\n', 'utf8');
+        }
+        const doc = await vscode.workspace.openTextDocument(readmeIgnorePath);
+        await vscode.window.showTextDocument(doc);
+    }
+}
+
+/**
+ * Human-readable origin of an ignore rule
+ */
+function describeRuleSource(rule: GitignoreRule, workspaceRoot: string): string {
+    if (rule.source === 'default') {
+        return 'built-in default exclusions';
+    }
+    if (!path.isAbsolute(rule.source)) {
+        return rule.source;
+    }
+
+    const relativeSource = path.relative(workspaceRoot, rule.source).replace(/\\/g, '/');
+    return `${relativeSource}${rule.line ? `:${rule.line}` : ''}`;
+}
+
+/**
+ * Open the file or setting an ignore rule came from
+ */
+async function openRuleSource(rule: GitignoreRule): Promise<void> {
+    if (rule.source === 'default') {
+        vscode.window.showInformationMessage(`"${rule.pattern}" is one of the built-in exclusions. Add a negation to ${README_IGNORE_FILE} to include it anyway.`);
+        return;
+    }
+    if (!path.isAbsolute(rule.source)) {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'readmeGenerator.excludePatterns');
+        return;
     }
+
+    const doc = await vscode.workspace.openTextDocument(rule.source);
+    const line = Math.max(0, (rule.line ?? 1) - 1);
+    await vscode.window.showTextDocument(doc, {
+        selection: new vscode.Range(line, 0, line, doc.lineAt(Math.min(line, doc.lineCount - 1)).text.length)
+    });
 }
 
 /**
@@ -0,0 +1,242 @@
+// fileOutline.ts - Structural outlines of source files that are too large to send in full
+
+import * as path from 'path';
+import { FileInfo } from './types';
+
+/** Files longer than this are sent to the model as an outline */
+export const MAX_FULL_FILE_CHARS = 5000;
+
+const MAX_OUTLINE_LINES = 400;
+const MAX_DOC_LINES = 6;
+const MAX_SIGNATURE_CONTINUATION = 8;
+
+const CONTROL_KEYWORDS = /^\s*(if|else|for|foreach|while|do|switch|case|catch|try|finally|return|throw|new|await|yield|delete|typeof|super|this)\b/;
+
+const IMPORT_PATTERNS = [
+    /^\s*import\b/,
+    /^\s*export\s+(\*|\{[^}]*\})\s+from\b/,
+    /^\s*(const|let|var)\s+[^=]+=\s*require\(/,
+    /^\s*from\s+\S+\s+import\b/,
+    /^\s*(use|using|package|require|require_relative|include|extern crate)\b[^(=]*;?\s*$/,
+    /^\s*#\s*include\b/
+];
+
+const SIGNATURE_PATTERNS: Record<string, RegExp[]> = {
+    script: [
+        /^\s*(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?(async\s+)?(function\*?|class|interface|type|enum|namespace|module)\s/,
+        /^(export\s+)?(const|let|var)\s+[\w$]+/,
+        /^\s*export\s+default\b/,
+        /^\s*module\.exports\b/,
+        /^\s*exports\.[\w$]+\s*=/,
+        /^\s+((public|private|protected|static|readonly|abstract|async|get|set|override)\s+)*[\w$#]+\s*(<[^>]*>)?\s*\([^)]*\)\s*(:\s*[^={;]+)?\{\s*$/,
+        /^\s+((public|private|protected|static|readonly|abstract|async|get|set|override)\s+)+[\w$#]+\s*(<[^>]*>)?\s*\(/,
+        /^\s+constructor\s*\(/,
+        /^\s*@\w+/
+    ],
+    python: [
+        /^\s*(async\s+)?def\s/,
+        /^\s*class\s/,
+        /^\s*@\w/,
+        /^__all__\s*=/,
+        /^[A-Z][A-Z0-9_]*\s*(:[^=]+)?=/
+    ],
+    go: [
+        /^func\s/,
+        /^type\s/,
+        /^(const|var)\s/
+    ],
+    rust: [
+        /^\s*(pub(\([\w:]+\))?\s+)?(async\s+)?(unsafe\s+)?(fn|struct|enum|trait|impl|mod|type|const|static|macro_rules!)\b/,
+        /^\s*#\[derive/
+    ],
+    ruby: [
+        /^\s*(def|class|module|attr_(reader|writer|accessor))\b/
+    ],
+    jvm: [
+        /^\s*(@\w+\s+)*(public|protected|private|internal|static|abstract|final|override|sealed|open|data|suspend|inline|partial|async|virtual)\b.*[({]\s*$/,
+        /^\s*(@\w+\s+)*(public|protected|private|internal|static|abstract|final|override|sealed|open|data|suspend|inline|partial|async|virtual)\b[^=;]*\)\s*(throws\s[\w\s,.]+)?[{;]?\s*$/,
+        /^\s*(fun|class|interface|object|enum class|data class|record|struct|protocol|extension|func|init)\b/,
+        /^\s*@\w+/
+    ],
+    c: [
+        /^[A-Za-z_][\w\s*&:<>,]*\([^;]*\)\s*(const)?\s*\{?\s*$/,
+        /^\s*(typedef|struct|class|enum|union|namespace|template)\b/,
+        /^\s*#\s*define\s+\w+/
+    ],
+    markdown: [
+        /^#{1,6}\s/
+    ]
+};
+
+const LANGUAGE_FAMILIES: Record<string, string> = {
+    '.ts': 'script', '.tsx': 'script', '.js': 'script', '.jsx': 'script', '.mjs': 'script', '.cjs': 'script',
+    '.mts': 'script', '.cts': 'script', '.vue': 'script', '.svelte': 'script', '.astro': 'script',
+    '.py': 'python', '.pyi': 'python', '.pyx': 'python',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.rb': 'ruby',
+    '.java': 'jvm', '.kt': 'jvm', '.kts': 'jvm', '.scala': 'jvm', '.groovy': 'jvm', '.cs': 'jvm', '.swift': 'jvm', '.dart': 'jvm', '.php': 'jvm',
+    '.c': 'c', '.h': 'c', '.cpp': 'c', '.cc': 'c', '.cxx': 'c', '.hpp': 'c', '.m': 'c', '.mm': 'c', '.zig': 'c',
+    '.md': 'markdown', '.mdx': 'markdown'
+};
+
+const outlineCache = new WeakMap<FileInfo, string>();
+
+/**
+ * Text to send to the model for a file: the full content when it is small
+ * enough, otherwise its outline
+ */
+export function getPromptContent(file: FileInfo): string {
+    if (file.isOutline || file.content.length <= MAX_FULL_FILE_CHARS) {
+        return file.content;
+    }
+
+    let outline = outlineCache.get(file);
+    if (outline === undefined) {
+        outline = createFileOutline(file.path, file.content);
+        outlineCache.set(file, outline);
+    }
+    return outline;
+}
+
+/**
+ * Whether `getPromptContent` sends an outline instead of the file itself
+ */
+export function isOutlined(file: FileInfo): boolean {
+    return Boolean(file.isOutline) || file.content.length > MAX_FULL_FILE_CHARS;
+}
+
+/**
+ * Outline of a source file: imports, exported symbols, class and function
+ * signatures and the doc comments above them, each with its line number.
+ * Files without recognizable structure fall back to their first and last lines.
+ */
+export function createFileOutline(filePath: string, content: string): string {
+    const lines = content.split(/\r?\n/);
+    const family = LANGUAGE_FAMILIES[path.extname(filePath).toLowerCase()];
+    const patterns = family ? SIGNATURE_PATTERNS[family] : [];
+    const selected = new Set<number>();
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim()) {
+            continue;
+        }
+
+        if (family !== 'markdown' && IMPORT_PATTERNS.some(pattern => pattern.test(line))) {
+            selected.add(i);
+            continue;
+        }
+
+        if (!patterns.some(pattern => pattern.test(line)) || CONTROL_KEYWORDS.test(line)) {
+            continue;
+        }
+
+        selectDocComment(lines, i, selected);
+        selected.add(i);
+        selectSignatureContinuation(lines, i, selected);
+        if (family === 'python') {
+            selectDocstring(lines, i, selected);
+        }
+    }
+
+    const header = `// Outline of ${filePath} (${lines.length} lines, ${content.length} characters): imports, exported symbols, signatures and doc comments`;
+    if (selected.size === 0) {
+        return `${header}\n${createHeadTailExcerpt(lines)}`;
+    }
+
+    const indices = Array.from(selected).sort((a, b) => a - b);
+    const outlineLines: string[] = [];
+    let previous = -1;
+
+    for (const index of indices.slice(0, MAX_OUTLINE_LINES)) {
+        if (previous >= 0 && index > previous + 1) {
+            outlineLines.push('   ...');
+        }
+        outlineLines.push(`${String(index + 1).padStart(5)}: ${truncateLine(lines[index])}`);
+        previous = index;
+    }
+    if (indices.length > MAX_OUTLINE_LINES) {
+        outlineLines.push(`   ... (${indices.length - MAX_OUTLINE_LINES} more outline lines omitted)`);
+    }
+
+    return `${header}\n${outlineLines.join('\n')}`;
+}
+
+/**
+ * Add the comment block directly above a declaration, at most a few lines of it
+ */
+function selectDocComment(lines: string[], index: number, selected: Set<number>): void {
+    const comment: number[] = [];
+    let i = index - 1;
+
+    while (i >= 0 && /^\s*@\w/.test(lines[i])) {
+        i--; // decorators/annotations between the comment and the declaration
+    }
+
+    if (i >= 0 && /\*\/\s*$/.test(lines[i])) {
+        while (i >= 0) {
+            comment.unshift(i);
+            if (/^\s*\/\*/.test(lines[i])) {
+                break;
+            }
+            i--;
+        }
+    } else {
+        while (i >= 0 && /^\s*(\/\/\/?|#(?![!\[])|--)/.test(lines[i]) && !/^\s*#\s*(include|define|if|endif|pragma)/.test(lines[i])) {
+            comment.unshift(i);
+            i--;
+        }
+    }
+
+    for (const line of comment.length > MAX_DOC_LINES ? [...comment.slice(0, MAX_DOC_LINES - 1), comment[comment.length - 1]] : comment) {
+        selected.add(line);
+    }
+}
+
+/**
+ * Signatures whose parameter list spans several lines
+ */
+function selectSignatureContinuation(lines: string[], index: number, selected: Set<number>): void {
+    let depth = countChar(lines[index], '(') - countChar(lines[index], ')');
+    for (let i = index + 1; depth > 0 && i < lines.length && i <= index + MAX_SIGNATURE_CONTINUATION; i++) {
+        selected.add(i);
+        depth += countChar(lines[i], '(') - countChar(lines[i], ')');
+    }
+}
+
+/**
+ * First line of a Python docstring following a def or class
+ */
+function selectDocstring(lines: string[], index: number, selected: Set<number>): void {
+    for (let i = index + 1; i < lines.length && i <= index + MAX_SIGNATURE_CONTINUATION; i++) {
+        if (/^\s*[rRuU]?("""|''')/.test(lines[i])) {
+            selected.add(i);
+            return;
+        }
+        if (lines[i].trim() && !/[:(,]\s*$/.test(lines[i - 1])) {
+            return;
+        }
+    }
+}
+
+function createHeadTailExcerpt(lines: string[]): string {
+    const head = 60;
+    const tail = 30;
+    if (lines.length <= head + tail) {
+        return lines.map(truncateLine).join('\n');
+    }
+    return [
+        ...lines.slice(0, head).map(truncateLine),
+        `   ... (${lines.length - head - tail} lines omitted)`,
+        ...lines.slice(-tail).map(truncateLine)
+    ].join('\n');
+}
+
+function truncateLine(line: string): string {
+    return line.length > 200 ? `${line.substring(0, 200)} ...` : line;
+}
+
+function countChar(text: string, char: string): number {
+    return text.split(char).length - 1;
+}
@@ -0,0 +1,95 @@
+// fileSelection.ts - Which analyzed files are sent to the AI provider, as a folder tree
+
+import { FileSelectionNode } from './types';
+
+/**
+ * Folder tree of the given files, folders before files and each level sorted by name
+ */
+export function buildFileSelectionTree(files: { path: string; size: number; tokens: number }[]): FileSelectionNode[] {
+    const root: FileSelectionNode = { name: '', path: '', isFolder: true, children: [], size: 0, tokens: 0 };
+
+    for (const file of files) {
+        const parts = toPosix(file.path).split('/');
+        let parent = root;
+        parent.size += file.size;
+        parent.tokens += file.tokens;
+
+        for (let i = 0; i < parts.length - 1; i++) {
+            const folderPath = parts.slice(0, i + 1).join('/');
+            let folder = parent.children.find(child => child.isFolder && child.path === folderPath);
+            if (!folder) {
+                folder = { name: parts[i], path: folderPath, isFolder: true, children: [], size: 0, tokens: 0 };
+                parent.children.push(folder);
+            }
+            folder.size += file.size;
+            folder.tokens += file.tokens;
+            parent = folder;
+        }
+
+        parent.children.push({ name: parts[parts.length - 1], path: parts.join('/'), isFolder: false, children: [], size: file.size, tokens: file.tokens });
+    }
+
+    sortTree(root.children);
+    return root.children;
+}
+
+/**
+ * Paths of the files at or below a node
+ */
+export function getNodeFiles(node: FileSelectionNode): string[] {
+    return node.isFolder ? node.children.flatMap(getNodeFiles) : [node.path];
+}
+
+/**
+ * Selected files and their tokens at or below a node
+ */
+export function summarizeSelection(nodes: FileSelectionNode[], excluded: ReadonlySet<string>): { files: number; totalFiles: number; tokens: number; size: number } {
+    const summary = { files: 0, totalFiles: 0, tokens: 0, size: 0 };
+
+    const visit = (node: FileSelectionNode) => {
+        if (node.isFolder) {
+            node.children.forEach(visit);
+            return;
+        }
+        summary.totalFiles++;
+        if (!excluded.has(node.path)) {
+            summary.files++;
+            summary.tokens += node.tokens;
+            summary.size += node.size;
+        }
+    };
+    nodes.forEach(visit);
+
+    return summary;
+}
+
+/**
+ * Tick or untick a file, or every file below a folder
+ */
+export function setNodeSelected(node: FileSelectionNode, selected: boolean, excluded: Set<string>): void {
+    for (const file of getNodeFiles(node)) {
+        if (selected) {
+            excluded.delete(file);
+        } else {
+            excluded.add(file);
+        }
+    }
+}
+
+/**
+ * Files whose path is not excluded
+ */
+export function filterSelectedFiles<T extends { path: string }>(files: T[], excluded: ReadonlySet<string>): T[] {
+    return files.filter(file => !excluded.has(toPosix(file.path)));
+}
+
+function sortTree(nodes: FileSelectionNode[]): void {
+    nodes.sort((a, b) => Number(b.isFolder) - Number(a.isFolder) || a.name.localeCompare(b.name));
+    for (const node of nodes) {
+        sortTree(node.children);
+    }
+}
+
+function toPosix(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
@@ -0,0 +1,175 @@
+// fileSelectionReview.ts - Privacy review: tick the files that may be sent to the AI provider
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getPromptContent } from './fileOutline';
+import { buildFileSelectionTree, setNodeSelected, summarizeSelection } from './fileSelection';
+import { getConfiguredModel } from './llmProvider';
+import { countTokens } from './tokenizer';
+import { FileInfo, FileSelectionNode } from './types';
+
+export const FILE_SELECTION_VIEW_ID = 'readme.fileSelection';
+const REVIEWING_CONTEXT_KEY = 'readme.reviewingFiles';
+const SAVED_SELECTION_KEY = 'readme.excludedFiles';
+
+/**
+ * FileSelectionReview - Tree view with a checkbox per analyzed file and
+ * folder. `review` resolves with the unticked paths once the user confirms,
+ * and the selection can be stored in the workspace state for later runs.
+ */
+export class FileSelectionReview implements vscode.TreeDataProvider<FileSelectionNode>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<FileSelectionNode | undefined>();
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private readonly workspaceState: vscode.Memento;
+    private readonly treeView: vscode.TreeView<FileSelectionNode>;
+    private readonly disposables: vscode.Disposable[] = [];
+    private roots: FileSelectionNode[] = [];
+    private excluded = new Set<string>();
+    private workspaceRoot = '';
+    private pending?: (excluded: string[] | undefined) => void;
+
+    constructor(workspaceState: vscode.Memento) {
+        this.workspaceState = workspaceState;
+        this.treeView = vscode.window.createTreeView(FILE_SELECTION_VIEW_ID, {
+            treeDataProvider: this,
+            manageCheckboxStateManually: true
+        });
+        this.disposables.push(
+            this.treeView,
+            this.onDidChangeTreeDataEmitter,
+            this.treeView.onDidChangeCheckboxState(event => this.onCheckboxChange(event)),
+            // Closing or hiding the view ends an open review as cancelled
+            this.treeView.onDidChangeVisibility(event => {
+                if (!event.visible) {
+                    this.cancel();
+                }
+            })
+        );
+    }
+
+    /**
+     * Show the files and wait for the user to confirm. Resolves with the
+     * excluded paths, or undefined when the review is cancelled, the view
+     * is hidden or `token` is cancelled.
+     */
+    public async review(workspaceRoot: string, files: FileInfo[], token?: vscode.CancellationToken): Promise<string[] | undefined> {
+        this.finish(undefined);
+        if (token?.isCancellationRequested) {
+            return undefined;
+        }
+
+        const model = getConfiguredModel();
+        this.workspaceRoot = workspaceRoot;
+        this.roots = buildFileSelectionTree(files.map(file => ({
+            path: file.path,
+            size: file.size,
+            tokens: countTokens(getPromptContent(file), model)
+        })));
+        this.excluded = new Set(this.getSavedExclusions(workspaceRoot));
+        this.refresh();
+
+        await vscode.commands.executeCommand('setContext', REVIEWING_CONTEXT_KEY, true);
+        await vscode.commands.executeCommand(`${FILE_SELECTION_VIEW_ID}.focus`);
+
+        const cancellation = token?.onCancellationRequested(() => this.cancel());
+        return new Promise<string[] | undefined>(resolve => {
+            this.pending = resolve;
+        }).finally(() => cancellation?.dispose());
+    }
+
+    /**
+     * Finish the review with the current selection, optionally remembering it
+     */
+    public async confirm(save: boolean = false): Promise<void> {
+        if (!this.pending) {
+            return;
+        }
+        if (summarizeSelection(this.roots, this.excluded).files === 0) {
+            vscode.window.showWarningMessage('Select at least one file to send, or cancel the review.');
+            return;
+        }
+
+        if (save) {
+            await this.saveExclusions(this.workspaceRoot, Array.from(this.excluded));
+            vscode.window.showInformationMessage(`💾 File selection saved for ${path.basename(this.workspaceRoot)}`);
+        }
+        this.finish(Array.from(this.excluded));
+    }
+
+    public cancel(): void {
+        this.finish(undefined);
+    }
+
+    /**
+     * Paths unticked in an earlier saved review of this folder
+     */
+    public getSavedExclusions(workspaceRoot: string): string[] {
+        return this.workspaceState.get<Record<string, string[]>>(SAVED_SELECTION_KEY, {})[workspaceRoot] ?? [];
+    }
+
+    public getTreeItem(node: FileSelectionNode): vscode.TreeItem {
+        const summary = summarizeSelection([node], this.excluded);
+        const item = new vscode.TreeItem(
+            node.name,
+            node.isFolder ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+
+        item.id = node.path;
+        item.resourceUri = vscode.Uri.file(path.join(this.workspaceRoot, node.path));
+        item.checkboxState = summary.files === summary.totalFiles
+            ? vscode.TreeItemCheckboxState.Checked
+            : vscode.TreeItemCheckboxState.Unchecked;
+        item.description = node.isFolder
+            ? `${summary.files}/${summary.totalFiles} files · ~${summary.tokens} tokens`
+            : `${formatSize(node.size)} · ~${node.tokens} tokens`;
+        if (!node.isFolder) {
+            item.command = { command: 'vscode.open', title: 'Open File', arguments: [item.resourceUri] };
+        }
+
+        return item;
+    }
+
+    public getChildren(node?: FileSelectionNode): FileSelectionNode[] {
+        return node ? node.children : this.roots;
+    }
+
+    public dispose(): void {
+        this.finish(undefined);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private onCheckboxChange(event: vscode.TreeCheckboxChangeEvent<FileSelectionNode>): void {
+        for (const [node, state] of event.items) {
+            setNodeSelected(node, state === vscode.TreeItemCheckboxState.Checked, this.excluded);
+        }
+        this.refresh();
+    }
+
+    private refresh(): void {
+        const summary = summarizeSelection(this.roots, this.excluded);
+        this.treeView.message = `Sending ${summary.files} of ${summary.totalFiles} files (~${summary.tokens} tokens). Untick anything that must stay private, then confirm.`;
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    private finish(excluded: string[] | undefined): void {
+        const pending = this.pending;
+        this.pending = undefined;
+        if (pending) {
+            vscode.commands.executeCommand('setContext', REVIEWING_CONTEXT_KEY, false);
+            pending(excluded);
+        }
+    }
+
+    private async saveExclusions(workspaceRoot: string, excluded: string[]): Promise<void> {
+        const saved = this.workspaceState.get<Record<string, string[]>>(SAVED_SELECTION_KEY, {});
+        await this.workspaceState.update(SAVED_SELECTION_KEY, { ...saved, [workspaceRoot]: excluded.sort() });
+    }
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
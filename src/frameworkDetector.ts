@@ -0,0 +1,215 @@
+// frameworkDetector.ts - Rule-based detection of frameworks, build tools, test runners and ORMs
+
+import * as path from 'path';
+import { DetectedTechnology, Dependency, FileInfo, TechnologyCategory } from './types';
+
+/**
+ * How to recognize one technology. Every matching signal adds evidence;
+ * the confidence is 1 - Π(1 - weight) over the evidence.
+ */
+interface TechnologyRule {
+    name: string;
+    category: TechnologyCategory;
+    /** Dependency names; regexes match e.g. every artifact of a Maven group */
+    dependencies?: (string | RegExp)[];
+    /** Matched against workspace-relative paths with forward slashes */
+    configFiles?: RegExp[];
+    /** Import or annotation that only code using the technology contains */
+    imports?: RegExp;
+    /** File extensions that hint at the technology without proving it */
+    extensions?: string[];
+    extensionWeight?: number;
+    /** Label for `CodebaseAnalysis.projectType` when this is the main framework */
+    projectType?: string;
+    /** Technologies this one is a more specific form of, e.g. Next.js of React */
+    supersedes?: string[];
+}
+
+const DEPENDENCY_WEIGHT = 0.7;
+const CONFIG_FILE_WEIGHT = 0.6;
+const IMPORT_WEIGHT = 0.3;
+const MAX_IMPORT_WEIGHT = 0.6;
+const EXTENSION_WEIGHT = 0.2;
+
+/** Detections below this are dropped */
+export const MIN_CONFIDENCE = 0.5;
+
+const js = (module: string) => new RegExp(`(from\\s+|require\\(\\s*|import\\(\\s*)['"]${module.replace(/[/.]/g, '\\$&')}(/[^'"]*)?['"]`);
+const py = (module: string) => new RegExp(`^\\s*(from\\s+${module}(\\.\\w+)*\\s+import|import\\s+${module}\\b)`, 'm');
+const config = (pattern: string) => new RegExp(`(^|/)${pattern}$`, 'i');
+const CONFIG_EXTENSIONS = '\\.(js|cjs|mjs|ts|cts|mts|json)';
+
+/**
+ * Detector registry. Meta-frameworks come before the libraries they build
+ * on, so they win ties for the project type.
+ */
+export const TECHNOLOGY_RULES: TechnologyRule[] = [
+    // JavaScript / TypeScript frameworks
+    { name: 'Next.js', category: 'framework', dependencies: ['next'], configFiles: [config(`next\\.config${CONFIG_EXTENSIONS}`)], imports: js('next'), projectType: 'Next.js Application', supersedes: ['React'] },
+    { name: 'Remix', category: 'framework', dependencies: ['@remix-run/react', '@remix-run/node'], configFiles: [config(`remix\\.config${CONFIG_EXTENSIONS}`)], projectType: 'Remix Application', supersedes: ['React', 'Express'] },
+    { name: 'Gatsby', category: 'framework', dependencies: ['gatsby'], configFiles: [config(`gatsby-config${CONFIG_EXTENSIONS}`)], projectType: 'Gatsby Site', supersedes: ['React'] },
+    { name: 'React Native', category: 'framework', dependencies: ['react-native', 'expo'], imports: js('react-native'), projectType: 'React Native Application', supersedes: ['React'] },
+    { name: 'Nuxt', category: 'framework', dependencies: ['nuxt'], configFiles: [config(`nuxt\\.config${CONFIG_EXTENSIONS}`)], projectType: 'Nuxt Application', supersedes: ['Vue.js'] },
+    { name: 'SvelteKit', category: 'framework', dependencies: ['@sveltejs/kit'], imports: js('@sveltejs/kit'), projectType: 'SvelteKit Application', supersedes: ['Svelte'] },
+    { name: 'Astro', category: 'framework', dependencies: ['astro'], configFiles: [config(`astro\\.config${CONFIG_EXTENSIONS}`)], extensions: ['.astro'], extensionWeight: 0.4, projectType: 'Astro Site' },
+    { name: 'Angular', category: 'framework', dependencies: ['@angular/core'], configFiles: [config('angular\\.json')], imports: js('@angular/core'), projectType: 'Angular Application' },
+    { name: 'React', category: 'framework', dependencies: ['react'], imports: js('react'), extensions: ['.jsx', '.tsx'], projectType: 'React Application' },
+    { name: 'Vue.js', category: 'framework', dependencies: ['vue'], imports: js('vue'), extensions: ['.vue'], extensionWeight: 0.4, projectType: 'Vue.js Application' },
+    { name: 'Svelte', category: 'framework', dependencies: ['svelte'], configFiles: [config(`svelte\\.config${CONFIG_EXTENSIONS}`)], extensions: ['.svelte'], extensionWeight: 0.4, projectType: 'Svelte Application' },
+    { name: 'Electron', category: 'framework', dependencies: ['electron'], imports: js('electron'), projectType: 'Electron Application' },
+    { name: 'VS Code Extension', category: 'framework', dependencies: ['@types/vscode', 'vscode'], configFiles: [config('\\.vscodeignore')], imports: js('vscode'), projectType: 'VS Code Extension' },
+    { name: 'NestJS', category: 'framework', dependencies: ['@nestjs/core'], configFiles: [config('nest-cli\\.json')], imports: js('@nestjs/common'), projectType: 'NestJS Application', supersedes: ['Express', 'Fastify'] },
+    { name: 'Express', category: 'framework', dependencies: ['express'], imports: js('express'), projectType: 'Express Server' },
+    { name: 'Fastify', category: 'framework', dependencies: ['fastify'], imports: js('fastify'), projectType: 'Fastify Server' },
+    { name: 'Koa', category: 'framework', dependencies: ['koa'], imports: js('koa'), projectType: 'Koa Server' },
+    { name: 'Hono', category: 'framework', dependencies: ['hono'], imports: js('hono'), projectType: 'Hono Server' },
+
+    // Python frameworks
+    { name: 'Django', category: 'framework', dependencies: ['django', 'Django'], configFiles: [config('manage\\.py')], imports: py('django'), projectType: 'Django Application' },
+    { name: 'FastAPI', category: 'framework', dependencies: ['fastapi'], imports: py('fastapi'), projectType: 'FastAPI Service' },
+    { name: 'Flask', category: 'framework', dependencies: ['flask', 'Flask'], imports: py('flask'), projectType: 'Flask Application' },
+    { name: 'Streamlit', category: 'framework', dependencies: ['streamlit'], imports: py('streamlit'), projectType: 'Streamlit App' },
+
+    // JVM, Go, Rust, Ruby, PHP and Dart frameworks
+    { name: 'Spring Boot', category: 'framework', dependencies: [/^org\.springframework\.boot:/], imports: /@SpringBootApplication\b/, projectType: 'Spring Boot Application' },
+    { name: 'Quarkus', category: 'framework', dependencies: [/^io\.quarkus:/], projectType: 'Quarkus Application' },
+    { name: 'Gin', category: 'framework', dependencies: ['github.com/gin-gonic/gin'], imports: /"github\.com\/gin-gonic\/gin"/, projectType: 'Gin Web Service' },
+    { name: 'Echo', category: 'framework', dependencies: [/^github\.com\/labstack\/echo/], projectType: 'Echo Web Service' },
+    { name: 'Fiber', category: 'framework', dependencies: [/^github\.com\/gofiber\/fiber/], projectType: 'Fiber Web Service' },
+    { name: 'Actix Web', category: 'framework', dependencies: ['actix-web'], imports: /\buse\s+actix_web\b/, projectType: 'Actix Web Service' },
+    { name: 'Axum', category: 'framework', dependencies: ['axum'], imports: /\buse\s+axum\b/, projectType: 'Axum Web Service' },
+    { name: 'Ruby on Rails', category: 'framework', dependencies: ['rails'], configFiles: [config('config/routes\\.rb'), config('bin/rails')], projectType: 'Ruby on Rails Application' },
+    { name: 'Sinatra', category: 'framework', dependencies: ['sinatra'], imports: /^\s*require\s+['"]sinatra['"]/m, projectType: 'Sinatra Application' },
+    { name: 'Laravel', category: 'framework', dependencies: ['laravel/framework'], configFiles: [config('artisan')], projectType: 'Laravel Application' },
+    { name: 'Symfony', category: 'framework', dependencies: [/^symfony\/framework-bundle$/], configFiles: [config('symfony\\.lock')], projectType: 'Symfony Application' },
+    { name: 'Flutter', category: 'framework', dependencies: ['flutter'], imports: /^\s*import\s+['"]package:flutter\//m, projectType: 'Flutter Application' },
+
+    // Build tools
+    { name: 'Vite', category: 'build-tool', dependencies: ['vite'], configFiles: [config(`vite\\.config${CONFIG_EXTENSIONS}`)] },
+    { name: 'webpack', category: 'build-tool', dependencies: ['webpack'], configFiles: [config(`webpack(\\.[\\w-]+)?\\.config${CONFIG_EXTENSIONS}`)] },
+    { name: 'esbuild', category: 'build-tool', dependencies: ['esbuild'] },
+    { name: 'Rollup', category: 'build-tool', dependencies: ['rollup'], configFiles: [config(`rollup\\.config${CONFIG_EXTENSIONS}`)] },
+    { name: 'Turborepo', category: 'build-tool', dependencies: ['turbo'], configFiles: [config('turbo\\.json')] },
+    { name: 'Maven', category: 'build-tool', configFiles: [config('pom\\.xml'), config('mvnw')] },
+    { name: 'Gradle', category: 'build-tool', configFiles: [config('build\\.gradle(\\.kts)?'), config('settings\\.gradle(\\.kts)?'), config('gradlew')] },
+    { name: 'CMake', category: 'build-tool', configFiles: [config('CMakeLists\\.txt')] },
+    { name: 'Poetry', category: 'build-tool', configFiles: [config('poetry\\.lock')] },
+
+    // Test runners
+    { name: 'Jest', category: 'test-runner', dependencies: ['jest'], configFiles: [config(`jest\\.config${CONFIG_EXTENSIONS}`)] },
+    { name: 'Vitest', category: 'test-runner', dependencies: ['vitest'], configFiles: [config(`vitest\\.config${CONFIG_EXTENSIONS}`)], imports: js('vitest') },
+    { name: 'Mocha', category: 'test-runner', dependencies: ['mocha'], configFiles: [config('\\.mocharc(\\.(js|cjs|json|ya?ml))?')] },
+    { name: 'Playwright', category: 'test-runner', dependencies: ['@playwright/test'], configFiles: [config(`playwright\\.config${CONFIG_EXTENSIONS}`)] },
+    { name: 'Cypress', category: 'test-runner', dependencies: ['cypress'], configFiles: [config(`cypress\\.config${CONFIG_EXTENSIONS}`)] },
+    { name: 'pytest', category: 'test-runner', dependencies: ['pytest'], configFiles: [config('pytest\\.ini'), config('conftest\\.py')], imports: py('pytest') },
+    { name: 'JUnit', category: 'test-runner', dependencies: [/^org\.junit\.jupiter:/, 'junit:junit'], imports: /^\s*import\s+org\.junit\b/m },
+    { name: 'RSpec', category: 'test-runner', dependencies: ['rspec', 'rspec-rails'], configFiles: [config('\\.rspec')] },
+    { name: 'PHPUnit', category: 'test-runner', dependencies: ['phpunit/phpunit'], configFiles: [config('phpunit\\.xml(\\.dist)?')] },
+
+    // ORMs
+    { name: 'Prisma', category: 'orm', dependencies: ['prisma', '@prisma/client'], configFiles: [config('schema\\.prisma')] },
+    { name: 'TypeORM', category: 'orm', dependencies: ['typeorm'], configFiles: [config(`ormconfig${CONFIG_EXTENSIONS}`)] },
+    { name: 'Drizzle', category: 'orm', dependencies: ['drizzle-orm'], configFiles: [config(`drizzle\\.config${CONFIG_EXTENSIONS}`)] },
+    { name: 'Sequelize', category: 'orm', dependencies: ['sequelize'] },
+    { name: 'Mongoose', category: 'orm', dependencies: ['mongoose'] },
+    { name: 'SQLAlchemy', category: 'orm', dependencies: ['sqlalchemy', 'SQLAlchemy'], configFiles: [config('alembic\\.ini')], imports: py('sqlalchemy') },
+    { name: 'Hibernate', category: 'orm', dependencies: [/^org\.hibernate(\.orm)?:/, 'org.springframework.boot:spring-boot-starter-data-jpa'] },
+    { name: 'GORM', category: 'orm', dependencies: ['gorm.io/gorm'] },
+    { name: 'Diesel', category: 'orm', dependencies: ['diesel'] },
+    { name: 'ActiveRecord', category: 'orm', dependencies: ['activerecord'], configFiles: [config('db/schema\\.rb')] }
+];
+
+const RULES_BY_NAME = new Map(TECHNOLOGY_RULES.map(rule => [rule.name, rule]));
+
+/**
+ * Run every rule against the files and dependencies; returns the
+ * technologies at or above MIN_CONFIDENCE, most confident first
+ */
+export function detectTechnologies(fileInfos: FileInfo[], dependencies: Dependency[], rules: TechnologyRule[] = TECHNOLOGY_RULES): DetectedTechnology[] {
+    const files = fileInfos.map(file => ({ path: toPosix(file.path), content: file.content }));
+    const detected: DetectedTechnology[] = [];
+
+    for (const rule of rules) {
+        const evidence: { weight: number; description: string }[] = [];
+
+        const dependency = dependencies.find(candidate => (rule.dependencies ?? []).some(pattern =>
+            typeof pattern === 'string' ? candidate.name === pattern : pattern.test(candidate.name)
+        ));
+        if (dependency) {
+            evidence.push({ weight: DEPENDENCY_WEIGHT, description: `depends on ${dependency.name}${dependency.version ? ` ${dependency.version}` : ''}` });
+        }
+
+        const configFile = files.find(file => (rule.configFiles ?? []).some(pattern => pattern.test(file.path)));
+        if (configFile) {
+            evidence.push({ weight: CONFIG_FILE_WEIGHT, description: `has ${configFile.path}` });
+        }
+
+        if (rule.imports) {
+            const importing = files.filter(file => rule.imports!.test(file.content)).length;
+            if (importing > 0) {
+                evidence.push({
+                    weight: Math.min(MAX_IMPORT_WEIGHT, IMPORT_WEIGHT + 0.1 * (importing - 1)),
+                    description: `imported in ${importing} file${importing === 1 ? '' : 's'}`
+                });
+            }
+        }
+
+        if (rule.extensions) {
+            const matching = files.filter(file => rule.extensions!.includes(path.posix.extname(file.path).toLowerCase())).length;
+            if (matching > 0) {
+                evidence.push({ weight: rule.extensionWeight ?? EXTENSION_WEIGHT, description: `${matching} ${rule.extensions.join('/')} file${matching === 1 ? '' : 's'}` });
+            }
+        }
+
+        const confidence = 1 - evidence.reduce((remaining, item) => remaining * (1 - item.weight), 1);
+        if (confidence >= MIN_CONFIDENCE) {
+            detected.push({
+                name: rule.name,
+                category: rule.category,
+                confidence: Math.round(confidence * 100) / 100,
+                evidence: evidence.map(item => item.description)
+            });
+        }
+    }
+
+    // Stable sort keeps registry order, and so meta-frameworks first, on ties
+    return detected.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Project type from the most confident framework that is not superseded by
+ * a more specific one, otherwise from the manifests and languages present
+ */
+export function detectProjectType(technologies: DetectedTechnology[], fileInfos: FileInfo[], languages: string[]): string {
+    const superseded = new Set(technologies.flatMap(technology => RULES_BY_NAME.get(technology.name)?.supersedes ?? []));
+    const main = technologies.find(technology =>
+        technology.category === 'framework' && !superseded.has(technology.name) && RULES_BY_NAME.get(technology.name)?.projectType
+    );
+    if (main) {
+        return RULES_BY_NAME.get(main.name)!.projectType!;
+    }
+
+    const hasFile = (...names: string[]) => fileInfos.some(file => names.includes(path.posix.basename(toPosix(file.path)).toLowerCase()));
+    const ecosystems: [string[], string][] = [
+        [['package.json'], 'Node.js Application'],
+        [['pyproject.toml', 'setup.py', 'setup.cfg', 'pipfile', 'requirements.txt'], 'Python Project'],
+        [['pom.xml'], 'Maven Java Project'],
+        [['build.gradle', 'build.gradle.kts'], 'Gradle Java Project'],
+        [['go.mod'], 'Go Module'],
+        [['cargo.toml'], 'Rust Project'],
+        [['pubspec.yaml'], 'Dart Project'],
+        [['composer.json'], 'PHP Project'],
+        [['gemfile'], 'Ruby Project']
+    ];
+    for (const [manifests, projectType] of ecosystems) {
+        if (hasFile(...manifests)) {
+            return projectType;
+        }
+    }
+
+    return languages.length > 0 ? `${languages[0]} Project` : 'Software Project';
+}
+
+function toPosix(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
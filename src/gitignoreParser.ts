@@ -2,102 +2,443 @@
 
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { GitignoreRule } from './types';
+import { GitignoreRule, IgnoreExplanation } from './types';
 
 /**
- * GitignoreParser - Handles .gitignore parsing and file filtering
+ * Per-directory ignore file shared with the team to tune README analysis.
+ * Uses gitignore syntax and overrides .gitignore, including negations.
+ */
+export const README_IGNORE_FILE = '.readmeignore';
+
+const SETTINGS_SOURCE = 'setting: readmeGenerator.excludePatterns';
+
+/**
+ * GitignoreParser - Handles .gitignore parsing and file filtering.
+ *
+ * Matching follows gitignore(5): rules come from the global excludes file,
+ * `.git/info/exclude` and every `.gitignore` between the repository root and
+ * the checked path, the last matching rule wins, and nothing below an
+ * ignored directory can be re-included.
+ *
+ * On top of git's rules, `readmeGenerator.excludePatterns` and
+ * `.readmeignore` files are applied, in that order of increasing precedence.
  */
 export class GitignoreParser {
     private rules: GitignoreRule[] = [];
+    private settingsRules: GitignoreRule[] = [];
     private workspaceRoot: string;
+    private repositoryRoot: string;
+    private readonly ignoreCase: boolean = process.platform === 'win32' || process.platform === 'darwin';
+    private readonly directoryRules = new Map<string, GitignoreRule[]>();
+    private readonly directoryIgnored = new Map<string, IgnoreExplanation>();
 
     constructor(workspaceRoot: string) {
-        this.workspaceRoot = workspaceRoot;
-        this.loadGitignoreRules();
+        this.workspaceRoot = this.toPosix(path.resolve(workspaceRoot));
+        this.repositoryRoot = this.findRepositoryRoot();
         this.addDefaultExclusions();
+        this.loadGitignoreRules();
+        this.loadSettingsExclusions();
     }
 
     /**
-     * Load .gitignore rules from the workspace
+     * Load repository-wide rules: the global excludes file and .git/info/exclude.
+     * Per-directory .gitignore files are loaded lazily while matching.
      */
     private loadGitignoreRules(): void {
-        const gitignorePath = path.join(this.workspaceRoot, '.gitignore');
-        
-        if (fs.existsSync(gitignorePath)) {
-            try {
-                const content = fs.readFileSync(gitignorePath, 'utf8');
-                this.parseGitignoreContent(content);
-                console.log(`📋 Loaded ${this.rules.length} .gitignore rules`);
-            } catch (error) {
-                console.error('Error reading .gitignore:', error);
+        const globalExcludesFile = this.getGlobalExcludesFile();
+        if (globalExcludesFile) {
+            this.loadRulesFile(globalExcludesFile, this.repositoryRoot, this.rules);
+        }
+
+        this.loadRulesFile(
+            path.join(this.repositoryRoot, '.git', 'info', 'exclude'),
+            this.repositoryRoot,
+            this.rules
+        );
+
+        const rootRules = this.getRulesForDirectory(this.workspaceRoot, '.gitignore');
+        console.log(`📋 Loaded ${rootRules.length} ignore rules for ${this.workspaceRoot}`);
+    }
+
+    /**
+     * Turn `readmeGenerator.excludePatterns` into rules relative to the workspace root
+     */
+    private loadSettingsExclusions(): void {
+        this.getAdditionalExclusions().forEach((pattern, index) => {
+            const rule = this.parseRule(pattern, this.workspaceRoot, SETTINGS_SOURCE, index + 1);
+            if (rule) {
+                this.settingsRules.push(rule);
             }
-        } else {
-            console.log('📋 No .gitignore found, using default exclusions only');
+        });
+
+        if (this.settingsRules.length > 0) {
+            console.log(`📋 Loaded ${this.settingsRules.length} exclude patterns from settings`);
         }
     }
 
+    /**
+     * Walk up from the workspace to the enclosing git repository, if any
+     */
+    private findRepositoryRoot(): string {
+        let current = this.workspaceRoot;
+
+        while (true) {
+            if (fs.existsSync(path.join(current, '.git'))) {
+                return current;
+            }
+
+            const parent = path.posix.dirname(current);
+            if (parent === current) {
+                return this.workspaceRoot;
+            }
+            current = parent;
+        }
+    }
+
+    /**
+     * Resolve git's core.excludesFile, defaulting to $XDG_CONFIG_HOME/git/ignore
+     */
+    private getGlobalExcludesFile(): string | undefined {
+        const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+        const configFiles = [
+            path.join(xdgConfigHome, 'git', 'config'),
+            path.join(os.homedir(), '.gitconfig'),
+            path.join(this.repositoryRoot, '.git', 'config')
+        ];
+
+        let excludesFile: string | undefined;
+        for (const configFile of configFiles) {
+            excludesFile = this.readCoreExcludesFile(configFile) ?? excludesFile;
+        }
+
+        if (excludesFile) {
+            return excludesFile.startsWith('~')
+                ? path.join(os.homedir(), excludesFile.slice(1))
+                : path.resolve(this.repositoryRoot, excludesFile);
+        }
+
+        return path.join(xdgConfigHome, 'git', 'ignore');
+    }
+
+    /**
+     * Read `excludesFile` from the [core] section of a git config file
+     */
+    private readCoreExcludesFile(configFile: string): string | undefined {
+        if (!fs.existsSync(configFile)) {
+            return undefined;
+        }
+
+        try {
+            let inCoreSection = false;
+            let value: string | undefined;
+
+            for (const rawLine of fs.readFileSync(configFile, 'utf8').split(/\r?\n/)) {
+                const line = rawLine.trim();
+                const section = line.match(/^\[\s*([^\s\]"]+)/);
+
+                if (section) {
+                    inCoreSection = section[1].toLowerCase() === 'core';
+                    continue;
+                }
+
+                const entry = line.match(/^excludesfile\s*=\s*(.*)$/i);
+                if (inCoreSection && entry) {
+                    value = entry[1].replace(/^"(.*)"$/, '$1').trim();
+                }
+            }
+
+            return value || undefined;
+        } catch (error) {
+            console.error(`Error reading git config ${configFile}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Read an ignore file and append its rules, relative to `baseDir`
+     */
+    private loadRulesFile(filePath: string, baseDir: string, target: GitignoreRule[]): number {
+        if (!fs.existsSync(filePath)) {
+            return 0;
+        }
+
+        try {
+            const content = fs.readFileSync(filePath, 'utf8');
+            const parsed = this.parseGitignoreContent(content, baseDir, this.toPosix(filePath));
+            target.push(...parsed);
+            return parsed.length;
+        } catch (error) {
+            console.error(`Error reading ${filePath}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Rules from `ignoreFileName` that apply to entries of `dirPath`: those of
+     * the parent directory followed by the directory's own file (which takes
+     * precedence). The .gitignore chain starts from the repository-wide rules.
+     */
+    private getRulesForDirectory(dirPath: string, ignoreFileName: string): GitignoreRule[] {
+        const cacheKey = `${ignoreFileName}:${dirPath}`;
+        const cached = this.directoryRules.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+
+        const parent = path.posix.dirname(dirPath);
+        const isTop = dirPath === this.repositoryRoot || parent === dirPath ||
+            !this.isInside(dirPath, this.repositoryRoot);
+        const inherited = isTop
+            ? (ignoreFileName === '.gitignore' ? this.rules : [])
+            : this.getRulesForDirectory(parent, ignoreFileName);
+
+        const own: GitignoreRule[] = [];
+        this.loadRulesFile(path.join(dirPath, ignoreFileName), dirPath, own);
+
+        const rules = own.length > 0 ? [...inherited, ...own] : inherited;
+        this.directoryRules.set(cacheKey, rules);
+        return rules;
+    }
+
     /**
      * Parse .gitignore content into rules
      */
-    private parseGitignoreContent(content: string): void {
+    private parseGitignoreContent(content: string, baseDir: string, source: string): GitignoreRule[] {
+        const rules: GitignoreRule[] = [];
         const lines = content.split('\n');
-        
-        for (const line of lines) {
-            const trimmedLine = line.trim();
-            
-            // Skip empty lines and comments
-            if (!trimmedLine || trimmedLine.startsWith('#')) {
+
+        lines.forEach((rawLine, index) => {
+            const rule = this.parseRule(rawLine, baseDir, source, index + 1);
+            if (rule) {
+                rules.push(rule);
+            }
+        });
+
+        return rules;
+    }
+
+    /**
+     * Parse a single gitignore line. Returns undefined for blank lines and comments.
+     */
+    private parseRule(rawLine: string, baseDir: string, source: string, line?: number): GitignoreRule | undefined {
+        let pattern = rawLine.replace(/\r$/, '');
+
+        // Skip empty lines and comments
+        if (!pattern || pattern.startsWith('#')) {
+            return undefined;
+        }
+
+        // Trailing spaces are ignored unless escaped with a backslash
+        while (pattern.endsWith(' ') && !pattern.endsWith('\\ ')) {
+            pattern = pattern.slice(0, -1);
+        }
+        if (!pattern) {
+            return undefined;
+        }
+
+        const isNegation = pattern.startsWith('!');
+        if (isNegation) {
+            pattern = pattern.substring(1);
+        }
+
+        const isDirectory = pattern.endsWith('/') && !pattern.endsWith('\\/');
+        if (isDirectory) {
+            pattern = pattern.slice(0, -1);
+        }
+
+        // A slash anywhere but the end anchors the pattern to baseDir
+        const anchored = pattern.includes('/');
+        if (pattern.startsWith('/')) {
+            pattern = pattern.substring(1);
+        }
+        if (!pattern) {
+            return undefined;
+        }
+
+        return {
+            pattern,
+            isNegation,
+            isDirectory,
+            baseDir,
+            source,
+            line,
+            regex: this.compilePattern(pattern, anchored)
+        };
+    }
+
+    /**
+     * Translate a gitignore glob into a regular expression over paths
+     * relative to the rule's base directory
+     */
+    private compilePattern(pattern: string, anchored: boolean): RegExp {
+        let regex = '';
+        let i = 0;
+
+        while (i < pattern.length) {
+            const char = pattern[i];
+
+            if (char === '*') {
+                let end = i;
+                while (pattern[end] === '*') {
+                    end++;
+                }
+
+                const isDoubleStar = end - i >= 2;
+                const startsSegment = i === 0 || pattern[i - 1] === '/';
+                const endsSegment = end === pattern.length || pattern[end] === '/';
+
+                if (isDoubleStar && startsSegment && endsSegment) {
+                    if (end === pattern.length) {
+                        // Trailing "/**" (or a lone "**") matches everything inside
+                        regex += '.*';
+                        i = end;
+                    } else {
+                        // Leading "**/" or inner "/**/" matches zero or more directories
+                        regex += '(?:[^/]*/)*';
+                        i = end + 1;
+                    }
+                } else {
+                    // Any other run of asterisks behaves like a single "*"
+                    regex += '[^/]*';
+                    i = end;
+                }
                 continue;
             }
 
-            const rule: GitignoreRule = {
-                pattern: trimmedLine,
-                isNegation: trimmedLine.startsWith('!'),
-                isDirectory: trimmedLine.endsWith('/')
-            };
+            if (char === '?') {
+                regex += '[^/]';
+                i++;
+                continue;
+            }
 
-            // Remove leading ! for negation rules
-            if (rule.isNegation) {
-                rule.pattern = rule.pattern.substring(1);
+            if (char === '[') {
+                const charClass = this.compileCharacterClass(pattern, i);
+                if (charClass) {
+                    regex += charClass.regex;
+                    i = charClass.end;
+                    continue;
+                }
+                regex += '\\[';
+                i++;
+                continue;
             }
 
-            // Remove trailing / for directory rules
-            if (rule.isDirectory) {
-                rule.pattern = rule.pattern.slice(0, -1);
+            if (char === '\\' && i + 1 < pattern.length) {
+                regex += this.escapeRegex(pattern[i + 1]);
+                i += 2;
+                continue;
             }
 
-            this.rules.push(rule);
+            regex += this.escapeRegex(char);
+            i++;
         }
+
+        const prefix = anchored ? '^' : '^(?:.*/)?';
+        return new RegExp(prefix + regex + '$', this.ignoreCase ? 'i' : '');
     }
 
     /**
-     * Add default exclusion patterns that should always be ignored
+     * Compile a bracket expression starting at `start`. Returns undefined when
+     * the bracket is not closed, in which case it is a literal "[".
+     */
+    private compileCharacterClass(pattern: string, start: number): { regex: string; end: number } | undefined {
+        const posixClasses: { [key: string]: string } = {
+            alnum: 'a-zA-Z0-9',
+            alpha: 'a-zA-Z',
+            blank: ' \\t',
+            digit: '0-9',
+            lower: 'a-z',
+            punct: '!-\\/:-@\\[-`{-~',
+            space: ' \\t\\n\\r\\f\\v',
+            upper: 'A-Z',
+            xdigit: '0-9A-Fa-f'
+        };
+
+        let i = start + 1;
+        let negated = false;
+        if (pattern[i] === '!' || pattern[i] === '^') {
+            negated = true;
+            i++;
+        }
+
+        let body = '';
+        let first = true;
+
+        while (i < pattern.length) {
+            const char = pattern[i];
+
+            if (char === ']' && !first) {
+                // A class never matches the path separator
+                return {
+                    regex: negated ? `[^/${body}]` : `(?!/)[${body}]`,
+                    end: i + 1
+                };
+            }
+
+            if (char === '[' && pattern[i + 1] === ':') {
+                const close = pattern.indexOf(':]', i + 2);
+                const name = close >= 0 ? pattern.slice(i + 2, close) : '';
+                if (posixClasses[name]) {
+                    body += posixClasses[name];
+                    i = close + 2;
+                    first = false;
+                    continue;
+                }
+            }
+
+            if (char === '\\' && i + 1 < pattern.length) {
+                body += this.escapeClassChar(pattern[i + 1]);
+                i += 2;
+            } else if (char === '-' && !first && pattern[i + 1] !== ']') {
+                body += '-';
+                i++;
+            } else {
+                body += this.escapeClassChar(char);
+                i++;
+            }
+            first = false;
+        }
+
+        return undefined;
+    }
+
+    private escapeRegex(char: string): string {
+        return char.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+    }
+
+    private escapeClassChar(char: string): string {
+        return char.replace(/[\]\\^\-\[]/g, '\\$&');
+    }
+
+    /**
+     * Add default exclusion patterns. They have the lowest precedence, so a
+     * project's own ignore files can re-include anything listed here.
      */
     private addDefaultExclusions(): void {
         const defaultPatterns = [
             // Version control
-            '.git/**',
-            '.svn/**',
-            '.hg/**',
-            '.bzr/**',
-            
+            '.git/',
+            '.svn/',
+            '.hg/',
+            '.bzr/',
+
             // Dependencies
-            'node_modules/**',
-            'bower_components/**',
-            'vendor/**',
-            'packages/**',
-            
+            'node_modules/',
+            'bower_components/',
+            'vendor/',
+
             // Build outputs
-            'dist/**',
-            'build/**',
-            'out/**',
-            'target/**',
-            'bin/**',
-            'obj/**',
+            'dist/',
+            'build/',
+            'out/',
+            'target/',
+            'bin/',
+            'obj/',
             '*.min.js',
             '*.min.css',
-            
+
             // Logs and temporary files
             '*.log',
             '*.tmp',
@@ -106,16 +447,16 @@ export class GitignoreParser {
             '.DS_Store',
             'Thumbs.db',
             'desktop.ini',
-            
+
             // IDE and editor files
-            '.vscode/**',
-            '.idea/**',
-            '.vs/**',
+            '.vscode/',
+            '.idea/',
+            '.vs/',
             '*.swp',
             '*.swo',
             '*.swn',
             '*~',
-            
+
             // Compiled/Binary files
             '*.exe',
             '*.dll',
@@ -126,7 +467,7 @@ export class GitignoreParser {
             '*.a',
             '*.lib',
             '*.bin',
-            
+
             // Archives
             '*.zip',
             '*.tar',
@@ -136,7 +477,7 @@ export class GitignoreParser {
             '*.7z',
             '*.bz2',
             '*.xz',
-            
+
             // Images (typically not needed for README generation)
             '*.jpg',
             '*.jpeg',
@@ -149,7 +490,7 @@ export class GitignoreParser {
             '*.tif',
             '*.webp',
             '*.heic',
-            
+
             // Media files
             '*.mp4',
             '*.avi',
@@ -164,7 +505,7 @@ export class GitignoreParser {
             '*.aac',
             '*.ogg',
             '*.wma',
-            
+
             // Documents
             '*.pdf',
             '*.doc',
@@ -173,13 +514,13 @@ export class GitignoreParser {
             '*.xlsx',
             '*.ppt',
             '*.pptx',
-            
+
             // Databases
             '*.sqlite',
             '*.sqlite3',
             '*.db',
             '*.mdb',
-            
+
             // Lock files (usually auto-generated)
             'package-lock.json',
             'yarn.lock',
@@ -189,12 +530,12 @@ export class GitignoreParser {
             'Pipfile.lock',
             'poetry.lock',
             'Cargo.lock',
-            
+
             // Test coverage
-            'coverage/**',
-            '.nyc_output/**',
-            '__coverage__/**',
-            
+            'coverage/',
+            '.nyc_output/',
+            '__coverage__/',
+
             // Environment and secrets
             '.env',
             '.env.local',
@@ -206,79 +547,116 @@ export class GitignoreParser {
         ];
 
         for (const pattern of defaultPatterns) {
-            this.rules.push({
-                pattern,
-                isNegation: false,
-                isDirectory: pattern.includes('**') || pattern.includes('/')
-            });
+            const rule = this.parseRule(pattern, this.workspaceRoot, 'default');
+            if (rule) {
+                this.rules.push(rule);
+            }
         }
     }
 
     /**
-     * Check if a file should be ignored based on gitignore rules
+     * Check if a file should be ignored based on gitignore rules.
+     * `isDirectory` is looked up on disk when not given.
      */
-    public shouldIgnore(filePath: string): boolean {
-        const relativePath = path.relative(this.workspaceRoot, filePath);
-        const normalizedPath = relativePath.replace(/\\/g, '/');
-        
-        let shouldIgnore = false;
+    public shouldIgnore(filePath: string, isDirectory?: boolean): boolean {
+        return this.explain(filePath, isDirectory).ignored;
+    }
 
-        for (const rule of this.rules) {
-            const matches = this.matchesPattern(normalizedPath, rule.pattern);
-            
-            if (matches) {
-                // If it's a negation rule, don't ignore
-                // Otherwise, ignore it
-                shouldIgnore = !rule.isNegation;
+    /**
+     * Explain why a path is included or excluded: the deciding rule, or the
+     * ignored parent directory that hides it
+     */
+    public explain(filePath: string, isDirectory?: boolean): IgnoreExplanation {
+        const absolutePath = this.toPosix(path.resolve(this.workspaceRoot, filePath));
+        const isDir = isDirectory ?? this.isDirectoryOnDisk(absolutePath);
+
+        // Nothing below an ignored directory can be re-included
+        const parent = path.posix.dirname(absolutePath);
+        if (parent !== absolutePath && this.isInside(parent, this.workspaceRoot) && parent !== this.workspaceRoot) {
+            const parentExplanation = this.explainDirectory(parent);
+            if (parentExplanation.ignored) {
+                return {
+                    ignored: true,
+                    rule: parentExplanation.rule,
+                    ignoredParent: parentExplanation.ignoredParent ?? path.posix.relative(this.workspaceRoot, parent)
+                };
             }
         }
 
-        return shouldIgnore;
+        const rule = this.findMatchingRule(absolutePath, isDir);
+        return { ignored: !!rule && !rule.isNegation, rule };
     }
 
     /**
-     * Match a file path against a gitignore pattern
+     * Cached explanation for a directory, including its ancestors
      */
-    private matchesPattern(filePath: string, pattern: string): boolean {
-        // Handle directory patterns with **
-        if (pattern.endsWith('/**')) {
-            const dirPattern = pattern.slice(0, -3);
-            return filePath.startsWith(dirPattern + '/') || 
-                   filePath === dirPattern ||
-                   filePath.split('/').some(segment => segment === dirPattern);
+    private explainDirectory(dirPath: string): IgnoreExplanation {
+        const cached = this.directoryIgnored.get(dirPath);
+        if (cached !== undefined) {
+            return cached;
         }
 
-        // Handle wildcard patterns
-        if (pattern.includes('*')) {
-            const regexPattern = pattern
-                .replace(/\./g, '\\.')
-                .replace(/\*/g, '.*')
-                .replace(/\?/g, '.');
-            
-            const regex = new RegExp('^' + regexPattern + '$');
-            
-            // Try full path match
-            if (regex.test(filePath)) {
-                return true;
-            }
-            
-            // Try basename match
-            if (regex.test(path.basename(filePath))) {
-                return true;
+        const explanation = this.explain(dirPath, true);
+        this.directoryIgnored.set(dirPath, explanation);
+        return explanation;
+    }
+
+    /**
+     * Last rule matching the path itself, ignoring parent directories.
+     * Precedence: .readmeignore, then settings, then the .gitignore chain.
+     */
+    private findMatchingRule(absolutePath: string, isDirectory: boolean): GitignoreRule | undefined {
+        const dirPath = path.posix.dirname(absolutePath);
+        const ruleSets = [
+            this.getRulesForDirectory(dirPath, README_IGNORE_FILE),
+            this.settingsRules,
+            this.getRulesForDirectory(dirPath, '.gitignore')
+        ];
+
+        for (const rules of ruleSets) {
+            for (let i = rules.length - 1; i >= 0; i--) {
+                if (this.matchesRule(absolutePath, isDirectory, rules[i])) {
+                    return rules[i];
+                }
             }
-            
-            // Try any segment match
-            const segments = filePath.split('/');
-            return segments.some(segment => regex.test(segment));
         }
 
-        // Exact match or path starts with pattern
-        return filePath === pattern || 
-               filePath.startsWith(pattern + '/') || 
-               path.basename(filePath) === pattern ||
-               filePath.split('/').includes(pattern);
+        return undefined;
+    }
+
+    /**
+     * Match an absolute path against a single rule
+     */
+    private matchesRule(absolutePath: string, isDirectory: boolean, rule: GitignoreRule): boolean {
+        if (rule.isDirectory && !isDirectory) {
+            return false;
+        }
+
+        const relativePath = path.posix.relative(rule.baseDir, absolutePath);
+        if (!relativePath || relativePath.startsWith('../') || relativePath === '..') {
+            return false;
+        }
+
+        return rule.regex.test(relativePath);
     }
 
+    private isInside(childPath: string, parentPath: string): boolean {
+        return childPath === parentPath || childPath.startsWith(parentPath.endsWith('/') ? parentPath : parentPath + '/');
+    }
+
+    private isDirectoryOnDisk(absolutePath: string): boolean {
+        try {
+            return fs.statSync(absolutePath).isDirectory();
+        } catch {
+            return false;
+        }
+    }
+
+    private toPosix(filePath: string): string {
+        return filePath.replace(/\\/g, '/');
+    }
+
+
     /**
      * Get additional exclusion patterns from VS Code settings
      */
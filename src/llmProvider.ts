@@ -0,0 +1,70 @@
+// llmProvider.ts - Select the configured LLM backend
+
+import * as vscode from 'vscode';
+import { LLMProvider, LLMProviderType } from './types';
+import { PERPLEXITY_MAX_TOKENS, PERPLEXITY_MODEL, PerplexityClient } from './perplexityClient';
+import { OpenAICompatibleClient } from './openAICompatibleClient';
+
+/**
+ * Read the provider chosen in the `readmeGenerator.provider` setting
+ */
+export function getConfiguredProviderType(): LLMProviderType {
+    const config = vscode.workspace.getConfiguration('readmeGenerator');
+    const provider = config.get<string>('provider', 'perplexity');
+
+    return provider === 'openaiCompatible' ? 'openaiCompatible' : 'perplexity';
+}
+
+/**
+ * Create the LLM provider selected in the settings
+ */
+export function createLLMProvider(type: LLMProviderType = getConfiguredProviderType()): LLMProvider {
+    switch (type) {
+        case 'openaiCompatible':
+            return new OpenAICompatibleClient();
+        case 'perplexity':
+        default:
+            return new PerplexityClient();
+    }
+}
+
+/**
+ * Model name the configured provider sends requests to. Works without
+ * credentials, e.g. for counting tokens in offline mode.
+ */
+export function getConfiguredModel(type: LLMProviderType = getConfiguredProviderType()): string {
+    if (type === 'openaiCompatible') {
+        return vscode.workspace.getConfiguration('readmeGenerator').get<string>('openaiCompatible.model', 'gpt-4o-mini');
+    }
+    return PERPLEXITY_MODEL;
+}
+
+/**
+ * Output token limit of requests that do not set their own, as sent by the configured provider
+ */
+export function getConfiguredMaxTokens(type: LLMProviderType = getConfiguredProviderType()): number {
+    if (type === 'openaiCompatible') {
+        return vscode.workspace.getConfiguration('readmeGenerator').get<number>('openaiCompatible.maxTokens', 5000);
+    }
+    return PERPLEXITY_MAX_TOKENS;
+}
+
+/**
+ * Check whether the configured provider can be created and has credentials
+ */
+export function isProviderConfigured(): boolean {
+    try {
+        return createLLMProvider().validateAPIKey();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Settings key users should edit to configure credentials for a provider
+ */
+export function getProviderSettingsKey(type: LLMProviderType = getConfiguredProviderType()): string {
+    return type === 'openaiCompatible'
+        ? 'readmeGenerator.openaiCompatible'
+        : 'readmeGenerator.perplexityApiKey';
+}
@@ -0,0 +1,199 @@
+// monorepoDetector.ts - Workspace packages of npm/Yarn/pnpm, Lerna, Nx, Turborepo, Cargo and Go monorepos
+
+import * as path from 'path';
+import * as TOML from '@iarna/toml';
+import { parse as parseYaml } from 'yaml';
+import { FileInfo, MonorepoLayout, MonorepoPackage } from './types';
+
+/** Manifests that define a package, by file name */
+const PACKAGE_MANIFESTS = ['package.json', 'Cargo.toml', 'go.mod', 'project.json'];
+
+/**
+ * Find the workspace packages declared by the root manifests. Returns
+ * undefined when the folder is not a monorepo, i.e. no packages are found.
+ */
+export function detectMonorepo(fileInfos: FileInfo[]): MonorepoLayout | undefined {
+    const contents = new Map(fileInfos.map(file => [toPosix(file.path), file.content]));
+    const manifests = Array.from(contents.keys()).filter(file => file.includes('/') && PACKAGE_MANIFESTS.includes(path.posix.basename(file)));
+    const tools: string[] = [];
+    const packages = new Map<string, MonorepoPackage>();
+
+    const addPackages = (patterns: string[], manifestName: string) => {
+        const include = patterns.filter(pattern => !pattern.startsWith('!')).map(globToRegExp);
+        const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(pattern.slice(1)));
+
+        for (const manifest of manifests.filter(file => path.posix.basename(file) === manifestName)) {
+            const folder = path.posix.dirname(manifest);
+            if (!packages.has(folder) && include.some(regex => regex.test(folder)) && !exclude.some(regex => regex.test(folder))) {
+                packages.set(folder, readPackage(folder, manifest, contents.get(manifest) ?? ''));
+            }
+        }
+    };
+
+    const packageJson = parseJson(contents.get('package.json'));
+    const workspaces = Array.isArray(packageJson?.workspaces) ? packageJson.workspaces : packageJson?.workspaces?.packages;
+    if (Array.isArray(workspaces)) {
+        const manager = String(packageJson.packageManager ?? '').split('@')[0];
+        tools.push(manager === 'yarn' ? 'Yarn workspaces' : manager === 'bun' ? 'Bun workspaces' : 'npm workspaces');
+        addPackages(workspaces.map(String), 'package.json');
+    }
+
+    const pnpmWorkspace = contents.get('pnpm-workspace.yaml');
+    if (pnpmWorkspace !== undefined) {
+        tools.push('pnpm workspaces');
+        try {
+            const patterns = parseYaml(pnpmWorkspace)?.packages;
+            addPackages(Array.isArray(patterns) ? patterns.map(String) : [], 'package.json');
+        } catch (error) {
+            console.error('Error parsing pnpm-workspace.yaml:', error);
+        }
+    }
+
+    const lernaJson = parseJson(contents.get('lerna.json'));
+    if (lernaJson) {
+        tools.push('Lerna');
+        addPackages(Array.isArray(lernaJson.packages) ? lernaJson.packages.map(String) : ['packages/*'], 'package.json');
+    }
+
+    if (contents.has('nx.json')) {
+        tools.push('Nx');
+        addPackages(['**'], 'project.json');
+    }
+
+    if (contents.has('turbo.json')) {
+        tools.push('Turborepo');
+    }
+
+    const cargoToml = contents.get('Cargo.toml');
+    if (cargoToml !== undefined) {
+        try {
+            const workspace = (TOML.parse(cargoToml) as Record<string, any>).workspace;
+            if (workspace) {
+                tools.push('Cargo workspace');
+                const members: string[] = Array.isArray(workspace.members) ? workspace.members.map(String) : [];
+                const excluded: string[] = Array.isArray(workspace.exclude) ? workspace.exclude.map((pattern: unknown) => `!${pattern}`) : [];
+                addPackages([...members, ...excluded], 'Cargo.toml');
+            }
+        } catch (error) {
+            console.error('Error parsing Cargo.toml:', error);
+        }
+    }
+
+    const goWork = contents.get('go.work');
+    if (goWork !== undefined) {
+        tools.push('Go workspace');
+        addPackages(parseGoWorkUses(goWork), 'go.mod');
+    }
+
+    if (packages.size === 0) {
+        return undefined;
+    }
+
+    return {
+        tools,
+        packages: Array.from(packages.values()).sort((a, b) => a.path.localeCompare(b.path))
+    };
+}
+
+/**
+ * The package a file belongs to: the deepest package folder containing it
+ */
+export function findPackage(filePath: string, layout: MonorepoLayout): MonorepoPackage | undefined {
+    const posixPath = toPosix(filePath);
+    return layout.packages
+        .filter(pkg => posixPath.startsWith(`${pkg.path}/`))
+        .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Files of one package, excluding nested packages, with paths relative to
+ * the package folder
+ */
+export function getPackageFiles(fileInfos: FileInfo[], layout: MonorepoLayout, pkg: MonorepoPackage): FileInfo[] {
+    return fileInfos
+        .filter(file => findPackage(file.path, layout)?.path === pkg.path)
+        .map(file => ({ ...file, path: file.path.slice(pkg.path.length + 1) }));
+}
+
+function readPackage(folder: string, manifest: string, content: string): MonorepoPackage {
+    const pkg: MonorepoPackage = { name: path.posix.basename(folder), path: folder, manifest };
+
+    try {
+        switch (path.posix.basename(manifest)) {
+            case 'package.json':
+            case 'project.json': {
+                const data = JSON.parse(content);
+                pkg.name = typeof data.name === 'string' && data.name ? data.name : pkg.name;
+                pkg.description = typeof data.description === 'string' ? data.description : undefined;
+                break;
+            }
+            case 'Cargo.toml': {
+                const data = (TOML.parse(content) as Record<string, any>).package ?? {};
+                pkg.name = typeof data.name === 'string' ? data.name : pkg.name;
+                pkg.description = typeof data.description === 'string' ? data.description : undefined;
+                break;
+            }
+            case 'go.mod':
+                pkg.name = content.match(/^\s*module\s+(\S+)/m)?.[1] ?? pkg.name;
+                break;
+        }
+    } catch (error) {
+        console.error(`Error parsing ${manifest}:`, error);
+    }
+
+    return pkg;
+}
+
+/**
+ * Folders listed by `use` directives, single or in a block
+ */
+function parseGoWorkUses(content: string): string[] {
+    const uses: string[] = [];
+    const withoutComments = content.replace(/\/\/.*$/gm, '');
+
+    for (const match of withoutComments.matchAll(/^\s*use\s+(?:\(([^)]*)\)|(\S+))/gm)) {
+        const entries = match[1] !== undefined ? match[1].split('\n') : [match[2]];
+        uses.push(...entries.map(entry => entry.trim().replace(/^"|"$/g, '')).filter(entry => entry.length > 0));
+    }
+    return uses;
+}
+
+/**
+ * Workspace glob ("packages/*", "apps/**", "./tools/cli/") as a regex over
+ * folder paths
+ */
+function globToRegExp(pattern: string): RegExp {
+    const normalized = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+    const source = normalized
+        .split(/(\*\*\/?|\*|\?)/)
+        .map(part => {
+            if (part.startsWith('**')) {
+                return part.endsWith('/') ? '(?:.*/)?' : '.*';
+            }
+            if (part === '*') {
+                return '[^/]*';
+            }
+            if (part === '?') {
+                return '[^/]';
+            }
+            return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    return new RegExp(`^${source}$`);
+}
+
+function parseJson(content: string | undefined): any {
+    if (content === undefined) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(content);
+    } catch (error) {
+        console.error('Error parsing workspace manifest:', error);
+        return undefined;
+    }
+}
+
+function toPosix(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
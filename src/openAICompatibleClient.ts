@@ -0,0 +1,183 @@
+import * as vscode from "vscode";
+import axios, { AxiosInstance } from 'axios';
+import { StringDecoder } from 'string_decoder';
+import { CodeChunk, GenerationOptions, LLMProvider, PerplexityMessage } from "./types";
+import { countTokens } from "./tokenizer";
+import { PromptBuilder } from "./promptBuilder";
+import { classifyApiError, completeWithRetry, ProviderConfigurationError } from "./errors";
+
+/**
+ * OpenAICompatibleClient - Talks to any endpoint implementing the OpenAI
+ * `/chat/completions` API (OpenAI, vLLM, Ollama, LM Studio, LiteLLM, ...)
+ */
+export class OpenAICompatibleClient implements LLMProvider {
+    public readonly name: string = 'OpenAI-compatible';
+    private readonly http: AxiosInstance;
+    private readonly promptBuilder: PromptBuilder = new PromptBuilder();
+    private readonly model: string;
+    private readonly maxTokens: number;
+    private readonly maxRetries: number;
+
+    constructor() {
+        const config = vscode.workspace.getConfiguration('readmeGenerator');
+        const baseUrl = config.get<string>('openaiCompatible.baseUrl', '').trim();
+        if (!baseUrl) {
+            throw new ProviderConfigurationError('OpenAI-compatible base URL not configured. Please set readmeGenerator.openaiCompatible.baseUrl in VS Code settings.');
+        }
+
+        this.model = config.get<string>('openaiCompatible.model', 'gpt-4o-mini');
+        this.maxTokens = config.get<number>('openaiCompatible.maxTokens', 5000);
+        this.maxRetries = config.get<number>('maxRetries', 3);
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const apiKey = this.getApiKey();
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+
+        this.http = axios.create({
+            baseURL: baseUrl.replace(/\/+$/, ''),
+            headers,
+            timeout: config.get<number>('openaiCompatible.timeout', 120000)
+        });
+    }
+
+    private getApiKey(): string | undefined {
+        const config = vscode.workspace.getConfiguration('readmeGenerator');
+        const settingsApiKey = config.get<string>('openaiCompatible.apiKey');
+
+        if (settingsApiKey && settingsApiKey.trim() !== '') {
+            return settingsApiKey;
+        }
+
+        // Fallback to environment variable
+        return process.env.OPENAI_API_KEY;
+    }
+
+    async generateReadmeChunk(chunk: CodeChunk, isFirstChunk: boolean = false, options: GenerationOptions = {}): Promise<string> {
+        const messages = this.promptBuilder.createChunkMessages(chunk, isFirstChunk);
+
+        try {
+            console.log(`🤖 Making API request for chunk ${chunk.chunkIndex + 1}`);
+            return await this.complete(messages, options);
+        } catch (error) {
+            console.error(`Error generating Readme Chunk ${chunk.chunkIndex}`, error);
+            throw error;
+        }
+    }
+
+    async complete(messages: PerplexityMessage[], options: GenerationOptions = {}): Promise<string> {
+        const { signal } = options;
+        const maxTokens = options.maxTokens ?? this.maxTokens;
+
+        return completeWithRetry(onToken => onToken
+            ? this.streamCompletion(messages, maxTokens, onToken, signal)
+            : this.createCompletion(messages, maxTokens, signal), this.name, this.maxRetries, options);
+    }
+
+    private async createCompletion(messages: PerplexityMessage[], maxTokens: number, signal?: AbortSignal): Promise<string> {
+        const response = await this.http.post('/chat/completions', {
+            model: this.model,
+            messages,
+            max_tokens: maxTokens,
+            temperature: 0.3,
+            stream: false
+        }, { signal });
+
+        return this.extractContentFromResponse(response.data);
+    }
+
+    /**
+     * Stream a completion over server-sent events, forwarding each text delta
+     */
+    private async streamCompletion(
+        messages: PerplexityMessage[],
+        maxTokens: number,
+        onToken: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const response = await this.http.post('/chat/completions', {
+            model: this.model,
+            messages,
+            max_tokens: maxTokens,
+            temperature: 0.3,
+            stream: true
+        }, { responseType: 'stream', signal });
+
+        const decoder = new StringDecoder('utf8');
+        let content = '';
+        let buffer = '';
+
+        const handleLine = (line: string): void => {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) {
+                return;
+            }
+
+            const data = trimmed.slice('data:'.length).trim();
+            if (data === '[DONE]') {
+                return;
+            }
+
+            try {
+                const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (typeof delta === 'string' && delta.length > 0) {
+                    content += delta;
+                    onToken(delta);
+                }
+            } catch (error) {
+                console.warn('Ignoring malformed stream event:', data);
+            }
+        };
+
+        for await (const part of response.data) {
+            buffer += decoder.write(part);
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            lines.forEach(handleLine);
+        }
+        handleLine(buffer + decoder.end());
+
+        if (!content) {
+            throw new Error('No message content in API response stream');
+        }
+        return content.trim();
+    }
+
+    private extractContentFromResponse(response: any): string {
+        if (!response || !response.choices || response.choices.length === 0) {
+            throw new Error('No response choices returned from API');
+        }
+        const choice = response.choices[0];
+        if (!choice.message || !choice.message.content) {
+            throw new Error('No message content in API response choice');
+        }
+        return choice.message.content.trim();
+    }
+
+    public estimateTokenCount(text: string): number {
+        return countTokens(text, this.model);
+    }
+
+    /**
+     * Self-hosted endpoints often run without authentication, so only the
+     * base URL is mandatory here
+     */
+    public validateAPIKey(): boolean {
+        const config = vscode.workspace.getConfiguration('readmeGenerator');
+        return config.get<string>('openaiCompatible.baseUrl', '').trim() !== '';
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            await this.createCompletion(
+                [{ role: 'user', content: 'Hello, this is a test message.' }],
+                50
+            );
+            return true;
+        } catch (error) {
+            console.error('API connection test failed:', error);
+            throw classifyApiError(error, this.name);
+        }
+    }
+}
@@ -1,20 +1,36 @@
 import * as vscode from "vscode";
-import { CodeChunk } from "./types";
+import { CodeChunk, GenerationOptions, LLMProvider, PerplexityMessage } from "./types";
+import { PromptBuilder } from "./promptBuilder";
+import { classifyApiError, completeWithRetry, ProviderConfigurationError } from "./errors";
+import { countTokens } from "./tokenizer";
 import Perplexity from '@perplexity-ai/perplexity_ai';
 
-export class PerplexityClient {
+/** Model used for every Perplexity request */
+export const PERPLEXITY_MODEL = "sonar-medium-online";
+/** Output token limit of Perplexity requests unless a call sets its own */
+export const PERPLEXITY_MAX_TOKENS = 5000;
+
+export class PerplexityClient implements LLMProvider {
+    public readonly name: string = 'Perplexity';
     private readonly client: Perplexity;
-    private readonly model: string = "sonar-medium-online";
-    private readonly maxTokens: number = 5000;
+    private readonly promptBuilder: PromptBuilder = new PromptBuilder();
+    private readonly model: string = PERPLEXITY_MODEL;
+    private readonly maxTokens: number = PERPLEXITY_MAX_TOKENS;
+    private readonly maxRetries: number;
 
     constructor() {
         const apiKey = this.getApiKey();
         if (!apiKey) {
-            throw new Error('Perplexity API key not configured. Please set your API key in VS Code settings.');
+            throw new ProviderConfigurationError('Perplexity API key not configured. Please set your API key in VS Code settings.');
         }
+
+        const config = vscode.workspace.getConfiguration('readmeGenerator');
+        this.maxRetries = config.get<number>('maxRetries', 3);
         
+        // Retries are handled by withRetry so they are classified consistently across providers
         this.client = new Perplexity({
-            apiKey: apiKey
+            apiKey: apiKey,
+            maxRetries: 0
         });
     }
 
@@ -31,112 +47,69 @@ export class PerplexityClient {
         return process.env.PERPLEXITY_API_KEY;
     }
 
-    async generateReadmeChunk(chunk: CodeChunk, isFirstChunk: boolean = false): Promise<string> {
-        try {
-            const systemPrompt = this.createSystemPrompt(isFirstChunk);
-            const userPrompt = this.createUserPrompt(chunk);
+    async generateReadmeChunk(chunk: CodeChunk, isFirstChunk: boolean = false, options: GenerationOptions = {}): Promise<string> {
+        const messages = this.promptBuilder.createChunkMessages(chunk, isFirstChunk);
 
+        try {
             console.log(`🤖 Making API request for chunk ${chunk.chunkIndex + 1}`);
-
-            const response = await this.client.chat.completions.create({
-                model: this.model,
-                messages: [
-                    { role: "system", content: systemPrompt },
-                    { role: "user", content: userPrompt }
-                ],
-                max_tokens: this.maxTokens,
-                temperature: 0.3,
-                stream: false
-            });
-
-            return this.extractContentFromResponse(response);
+            return await this.complete(messages, options);
         } catch (error) {
             console.error(`Error generating Readme Chunk ${chunk.chunkIndex}`, error);
-            throw new Error(`Failed to generate README chunk: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw error;
         }
     }
 
-    private createSystemPrompt(isFirstChunk: boolean): string {
-        if (isFirstChunk) {
-            return `
-            You are an expert technical writer and software developer. Your task is to generate a comprehensive, professional README.md file for a software project.
-
-IMPORTANT INSTRUCTIONS:
-1. Generate ONLY the README content in proper Markdown format
-2. DO NOT include any explanations, comments, or meta-text about the README
-3. Start directly with the project title (# Project Name)
-4. Include these sections in order:
-   - Project Title and Description
-   - Features/Key Highlights
-   - Installation Instructions
-   - Usage Examples
-   - API Documentation (if applicable)
-   - Configuration
-   - Contributing Guidelines
-   - License Information
-
-WRITING STYLE:
-- Clear, concise, and professional
-- Use proper Markdown formatting
-- Include code examples where relevant
-- Make it engaging for developers
-- Assume the reader is technically competent
-- Use bullet points and structured formatting
-
-ANALYSIS REQUIREMENTS:
-- Identify the project type and main programming language
-- Extract key features and functionality
-- Identify dependencies and requirements
-- Provide accurate installation steps
-- Include realistic usage examples based on the actual code`;
-        } else {
-            return `You are continuing to analyze a codebase for README generation. This is a continuation chunk.
-
-INSTRUCTIONS:
-1. Analyze this additional code chunk
-2. Extract relevant information for the README
-3. Focus on:
-   - Additional features not covered in previous chunks
-   - API endpoints or methods
-   - Configuration options
-   - Dependencies and integrations
-   - Usage patterns
-
-4. Provide only the relevant content that should be ADDED to the existing README
-5. Do not repeat information from previous chunks
-6. Use proper Markdown formatting
-7. Focus on new insights from this code chunk
-            `
-        }
-    }
-
-    private createUserPrompt(chunk: CodeChunk): string {
-        let prompt = `Please analyze this codebase chunk and generate appropriate README content.
+    async complete(messages: PerplexityMessage[], options: GenerationOptions = {}): Promise<string> {
+        const { signal } = options;
+        const maxTokens = options.maxTokens ?? this.maxTokens;
 
-CHUNK INFORMATION:
-- Chunk ${chunk.chunkIndex + 1}
-- Total files in chunk: ${chunk.files.length}
-- Description: ${chunk.description}
+        return completeWithRetry(onToken => onToken
+            ? this.streamCompletion(messages, maxTokens, onToken, signal)
+            : this.createCompletion(messages, maxTokens, signal), this.name, this.maxRetries, options);
+    }
 
-CODE FILES:`;
+    private async createCompletion(messages: PerplexityMessage[], maxTokens: number, signal?: AbortSignal): Promise<string> {
+        const response = await this.client.chat.completions.create({
+            model: this.model,
+            messages,
+            max_tokens: maxTokens,
+            temperature: 0.3,
+            stream: false
+        }, { signal });
 
-        for (const file of chunk.files) {
-            prompt += `\n--- FILE: ${file.path} (${file.language}) ---\n`
-            prompt += file.content.substring(0, 5000); //limiting to first 5000 characters to overly bigger prompts
+        return this.extractContentFromResponse(response);
+    }
 
-            if (file.content.length > 5000) {
-                prompt += `\n... (truncated)`
+    /**
+     * Stream a completion, forwarding each text delta as it arrives
+     */
+    private async streamCompletion(
+        messages: PerplexityMessage[],
+        maxTokens: number,
+        onToken: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const stream = await this.client.chat.completions.create({
+            model: this.model,
+            messages,
+            max_tokens: maxTokens,
+            temperature: 0.3,
+            stream: true
+        }, { signal });
+
+        let content = '';
+        for await (const part of stream) {
+            const delta = part.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta.length > 0) {
+                content += delta;
+                onToken(delta);
             }
-            prompt += `\n`;
         }
 
-        if (chunk.chunkIndex === 0) {
-            prompt += `\nBased on this code analysis, generate a complete, professional README.md file. Make it comprehensive but concise, focusing on what developers need to know to understand, install, and use this project.`;
-        } else {
-            prompt += `\nThis is additional code from the project. Analyze it and provide any additional README content that should be included based on new features, APIs, or functionality discovered in this chunk.`;
+        if (!content) {
+            throw new Error('No message content in API response stream');
         }
-
-        return prompt;
+        return content.trim();
     }
 
     private extractContentFromResponse(response: any): string {
@@ -151,7 +124,7 @@ CODE FILES:`;
     }
 
     public estimateTokenCount(text: string): number {
-        return Math.ceil(text.length / 4);
+        return countTokens(text, this.model);
     }
 
     public validateAPIKey(): boolean {
@@ -161,17 +134,14 @@ CODE FILES:`;
 
     async testConnection(): Promise<boolean> {
         try {
-            await this.client.chat.completions.create({
-                model: this.model,
-                messages: [
-                    { role: 'user', content: 'Hello, this is a test message.' }
-                ],
-                max_tokens: 50
-            });
+            await this.createCompletion(
+                [{ role: 'user', content: 'Hello, this is a test message.' }],
+                50
+            );
             return true;
         } catch (error) {
             console.error('API connection test failed:', error);
-            return false;
+            throw classifyApiError(error, this.name);
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,328 @@
+// promptBuilder.ts - Provider-agnostic prompts for README generation
+
+import { getPromptContent, isOutlined } from './fileOutline';
+import { README_SECTIONS_SCHEMA } from './structuredReadme';
+import { ChunkSummary, CodeChunk, CodebaseAnalysis, FileInfo, PerplexityMessage, ReadmeSection } from './types';
+
+/** Headings every chunk summary uses, so summaries can be merged and synthesized consistently */
+export const SUMMARY_HEADINGS = ['Purpose', 'Features', 'Public API', 'Configuration', 'Usage', 'Dependencies', 'Notes'];
+
+/**
+ * PromptBuilder - Builds the chat messages sent to every LLM provider
+ */
+export class PromptBuilder {
+    /**
+     * Build the full message list for a code chunk
+     */
+    public createChunkMessages(chunk: CodeChunk, isFirstChunk: boolean): PerplexityMessage[] {
+        return [
+            { role: 'system', content: this.createSystemPrompt(isFirstChunk) },
+            { role: 'user', content: this.createUserPrompt(chunk) }
+        ];
+    }
+
+    /**
+     * Map phase: ask for structured notes about one chunk instead of README prose
+     */
+    public createChunkSummaryMessages(chunk: CodeChunk, totalChunks: number): PerplexityMessage[] {
+        const systemPrompt = `You are analyzing one part of a larger codebase so that a README can be written later from notes about every part.
+
+INSTRUCTIONS:
+1. Do NOT write a README. Write concise factual notes about this part only
+2. Use exactly these level-2 headings, in this order: ${SUMMARY_HEADINGS.map(heading => `## ${heading}`).join(', ')}
+3. Under each heading write short bullet points; write "- None" when nothing applies
+4. Mention file paths, commands, options, environment variables and API names exactly as they appear in the code
+5. Do not guess about code you cannot see`;
+
+        let userPrompt = `Summarize part ${chunk.chunkIndex + 1} of ${totalChunks}.
+
+PART INFORMATION:
+- Files: ${chunk.files.length}
+- Description: ${chunk.description}
+
+CODE FILES:`;
+        userPrompt += this.formatFiles(chunk.files);
+
+        return [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+        ];
+    }
+
+    /**
+     * Combine several chunk summaries into one when they are too large for a single synthesis call
+     */
+    public createSummaryMergeMessages(summaries: ChunkSummary[]): PerplexityMessage[] {
+        const systemPrompt = `You merge notes about several parts of a codebase into one set of notes.
+
+INSTRUCTIONS:
+1. Use exactly these level-2 headings, in this order: ${SUMMARY_HEADINGS.map(heading => `## ${heading}`).join(', ')}
+2. Combine and deduplicate the bullet points; keep every distinct fact, name and command
+3. Keep it concise and do not add information that is not in the notes`;
+
+        return [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: `NOTES TO MERGE:\n${this.formatSummaries(summaries)}` }
+        ];
+    }
+
+    /**
+     * Reduce phase: write one coherent README from all chunk summaries
+     */
+    public createSynthesisMessages(summaries: ChunkSummary[], analysis: CodebaseAnalysis): PerplexityMessage[] {
+        const systemPrompt = `${this.createSystemPrompt(true).trim()}
+
+SYNTHESIS RULES:
+- You are given notes about every part of the codebase instead of the code itself
+- Write ONE README with a single "# " title; every section appears exactly once
+- Combine information about the same topic from different parts into that topic's section
+- Leave out sections for which the notes and project information have nothing to say`;
+
+        const userPrompt = `${this.createAnalysisSummary(analysis)}
+
+NOTES ABOUT EACH PART OF THE CODEBASE:
+${this.formatSummaries(summaries)}
+
+Based on the project information and these notes, generate a complete, professional README.md file.`;
+
+        return [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+        ];
+    }
+
+    /**
+     * Ask for the README as JSON sections instead of a markdown document
+     */
+    public withStructuredOutput(messages: PerplexityMessage[]): PerplexityMessage[] {
+        const formatRules = `
+
+OUTPUT FORMAT (overrides any instruction above about Markdown output):
+- Respond with ONLY a JSON object, no prose and no code fence
+- The JSON must match this schema: ${JSON.stringify(README_SECTIONS_SCHEMA)}
+- Do not include the "# Project Title" heading; it is added automatically
+- "content" is the Markdown body of the section without its heading; escape line breaks as \\n
+- Number "order" from 1 in the order the sections should appear`;
+
+        return messages.map(message =>
+            message.role === 'system' ? { ...message, content: message.content + formatRules } : message
+        );
+    }
+
+    /**
+     * Follow-up message asking the model to fix an invalid JSON response
+     */
+    public createStructuredRetryPrompt(errors: string[]): string {
+        return `Your previous response could not be used:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY the corrected JSON object matching the schema.`;
+    }
+
+    /**
+     * Build messages that regenerate one README section with focused context
+     */
+    public createSectionMessages(
+        section: ReadmeSection,
+        otherSectionTitles: string[],
+        analysis: CodebaseAnalysis,
+        files: FileInfo[]
+    ): PerplexityMessage[] {
+        const systemPrompt = `You are an expert technical writer. You rewrite ONE section of an existing README.md.
+
+INSTRUCTIONS:
+1. Output ONLY the markdown body of the section "${section.title}"
+2. Do NOT include the section heading itself
+3. Do NOT write content that belongs to other sections of the README
+4. Base every statement on the provided project information and code; do not invent commands, options or APIs
+5. Use proper Markdown formatting, with code blocks where helpful`;
+
+        let userPrompt = `Rewrite the README section "${section.title}".
+
+OTHER SECTIONS IN THIS README (do not duplicate them):
+${otherSectionTitles.map(title => `- ${title}`).join('\n') || '- (none)'}
+
+CURRENT SECTION CONTENT:
+${section.content.trim() || '(empty)'}
+
+${this.createAnalysisSummary(analysis)}
+
+RELEVANT FILES:`;
+        userPrompt += this.formatFiles(files);
+
+        return [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+        ];
+    }
+
+    /**
+     * Compact, factual description of the project shared by several prompts
+     */
+    public createAnalysisSummary(analysis: CodebaseAnalysis): string {
+        const lines = [
+            'PROJECT INFORMATION:',
+            `- Name: ${analysis.metadata.name}`,
+            `- Type: ${analysis.projectType}`,
+            `- Languages: ${analysis.languages.join(', ') || 'unknown'}`
+        ];
+
+        if (analysis.metadata.description) {
+            lines.push(`- Description: ${analysis.metadata.description}`);
+        }
+        if (analysis.frameworks.length > 0) {
+            lines.push(`- Frameworks: ${analysis.frameworks.join(', ')}`);
+        }
+        const tooling = analysis.technologies.filter(technology => technology.category !== 'framework');
+        if (tooling.length > 0) {
+            lines.push(`- Tooling: ${tooling.map(technology => `${technology.name} (${technology.category})`).join(', ')}`);
+        }
+        const formatDependencies = (scopes: string[]) => analysis.dependencyDetails
+            .filter(dependency => scopes.includes(dependency.scope))
+            .slice(0, 40)
+            .map(dependency => dependency.version ? `${dependency.name} ${dependency.version}` : dependency.name)
+            .join(', ');
+        const runtimeDependencies = formatDependencies(['runtime', 'peer', 'optional']);
+        const devDependencies = formatDependencies(['dev']);
+        if (runtimeDependencies) {
+            lines.push(`- Runtime dependencies: ${runtimeDependencies}`);
+        }
+        if (devDependencies) {
+            lines.push(`- Development dependencies: ${devDependencies}`);
+        }
+        if (analysis.monorepo) {
+            const packages = analysis.monorepo.packages.map(pkg => `${pkg.name} (${pkg.path}${pkg.analysis ? `, ${pkg.analysis.projectType}` : ''})`);
+            lines.push(`- Monorepo (${analysis.monorepo.tools.join(', ')}) packages: ${packages.join('; ')}`);
+        }
+        if (analysis.scripts.length > 0) {
+            lines.push(`- Scripts: ${analysis.scripts.slice(0, 40).map(script => `\`${script.invocation}\` (${script.description ?? script.command})`).join('; ')}`);
+        }
+        if (analysis.entryPoints.length > 0) {
+            lines.push(`- Entry points: ${analysis.entryPoints.map(entry => `${entry.kind}${entry.name ? ` ${entry.name}` : ''}${entry.condition ? ` [${entry.condition}]` : ''} -> ${entry.path}`).join('; ')}`);
+        }
+        if (analysis.environmentVariables.length > 0) {
+            const variables = analysis.environmentVariables.slice(0, 40).map(variable =>
+                `${variable.name} (${variable.required ? 'required' : 'optional'}${variable.defaultValue ? `, default ${variable.defaultValue}` : ''})`
+            );
+            lines.push(`- Environment variables: ${variables.join(', ')}`);
+        }
+        if (analysis.routes.length > 0) {
+            lines.push(`- HTTP routes: ${analysis.routes.slice(0, 40).map(route => `${route.method} ${route.path}`).join(', ')}`);
+        }
+        if (analysis.cli) {
+            const { program, frameworks, commands } = analysis.cli;
+            const usages = commands.slice(0, 30).map(command =>
+                `\`${[program, command.name, ...command.options.map(option => option.flags)].filter(Boolean).join(' ')}\``
+            );
+            lines.push(`- Command line (${frameworks.join(', ')}), the only commands and flags that exist: ${usages.join('; ')}`);
+        }
+        if (analysis.publicApi && analysis.publicApi.symbols.length > 0) {
+            const exported = analysis.publicApi.symbols.map(symbol => `${symbol.kind} ${symbol.name}`);
+            lines.push(`- Public API (${analysis.publicApi.total} exports from ${analysis.publicApi.entries.join(', ')}): ${exported.join(', ')}`);
+        }
+        if (analysis.metadata.engines) {
+            lines.push(`- Engines: ${Object.entries(analysis.metadata.engines).map(([engine, version]) => `${engine} ${version}`).join(', ')}`);
+        }
+        if (analysis.mainFiles.length > 0) {
+            lines.push(`- Main files: ${analysis.mainFiles.slice(0, 20).join(', ')}`);
+        }
+        if (analysis.metadata.license) {
+            lines.push(`- License: ${analysis.metadata.license}`);
+        }
+
+        return lines.join('\n');
+    }
+
+    public createSystemPrompt(isFirstChunk: boolean): string {
+        if (isFirstChunk) {
+            return `
+            You are an expert technical writer and software developer. Your task is to generate a comprehensive, professional README.md file for a software project.
+
+IMPORTANT INSTRUCTIONS:
+1. Generate ONLY the README content in proper Markdown format
+2. DO NOT include any explanations, comments, or meta-text about the README
+3. Start directly with the project title (# Project Name)
+4. Include these sections in order:
+   - Project Title and Description
+   - Features/Key Highlights
+   - Installation Instructions
+   - Usage Examples
+   - API Documentation (if applicable)
+   - Configuration
+   - Contributing Guidelines
+   - License Information
+
+WRITING STYLE:
+- Clear, concise, and professional
+- Use proper Markdown formatting
+- Include code examples where relevant
+- Make it engaging for developers
+- Assume the reader is technically competent
+- Use bullet points and structured formatting
+
+ANALYSIS REQUIREMENTS:
+- Identify the project type and main programming language
+- Extract key features and functionality
+- Identify dependencies and requirements
+- Provide accurate installation steps
+- Include realistic usage examples based on the actual code`;
+        } else {
+            return `You are continuing to analyze a codebase for README generation. This is a continuation chunk.
+
+INSTRUCTIONS:
+1. Analyze this additional code chunk
+2. Extract relevant information for the README
+3. Focus on:
+   - Additional features not covered in previous chunks
+   - API endpoints or methods
+   - Configuration options
+   - Dependencies and integrations
+   - Usage patterns
+
+4. Provide only the relevant content that should be ADDED to the existing README
+5. Do not repeat information from previous chunks
+6. Use proper Markdown formatting
+7. Focus on new insights from this code chunk
+            `;
+        }
+    }
+
+    public createUserPrompt(chunk: CodeChunk): string {
+        let prompt = `Please analyze this codebase chunk and generate appropriate README content.
+
+CHUNK INFORMATION:
+- Chunk ${chunk.chunkIndex + 1}
+- Total files in chunk: ${chunk.files.length}
+- Description: ${chunk.description}
+
+CODE FILES:`;
+        prompt += this.formatFiles(chunk.files);
+
+        if (chunk.chunkIndex === 0) {
+            prompt += `\nBased on this code analysis, generate a complete, professional README.md file. Make it comprehensive but concise, focusing on what developers need to know to understand, install, and use this project.`;
+        } else {
+            prompt += `\nThis is additional code from the project. Analyze it and provide any additional README content that should be included based on new features, APIs, or functionality discovered in this chunk.`;
+        }
+
+        return prompt;
+    }
+
+    private formatFiles(files: FileInfo[]): string {
+        let text = '';
+        for (const file of files) {
+            // Large files are sent as an outline so definitions near the end are not lost
+            const label = isOutlined(file) ? ' [outline of a large file]' : '';
+            text += `\n--- FILE: ${file.path} (${file.language})${label} ---\n`;
+            text += getPromptContent(file);
+            text += `\n`;
+        }
+        return text;
+    }
+
+    private formatSummaries(summaries: ChunkSummary[]): string {
+        return summaries.map(summary => {
+            const files = summary.files.slice(0, 30).join(', ') + (summary.files.length > 30 ? ', ...' : '');
+            return `\n--- PART: ${summary.description} (files: ${files}) ---\n${summary.content.trim()}\n`;
+        }).join('');
+    }
+}
@@ -0,0 +1,133 @@
+// readmeDiff.ts - Section-level differences between the saved README and a proposed one
+
+import { getSectionId, parseReadmeSections, renderReadmeSections } from './readmeSections';
+import { ReadmeSection, ReadmeSectionDiff } from './types';
+
+/**
+ * List the sections that were changed, added or removed. Sections are
+ * paired by title; the introduction and the first level-1 title section
+ * are paired with each other even when the project name differs.
+ */
+export function diffReadmeSections(current: string, proposed: string): ReadmeSectionDiff[] {
+    const currentByKey = keySections(parseReadmeSections(current));
+    const proposedByKey = keySections(parseReadmeSections(proposed));
+    const diffs: ReadmeSectionDiff[] = [];
+
+    proposedByKey.forEach((section, key) => {
+        const existing = currentByKey.get(key);
+        if (!existing) {
+            diffs.push({ key, title: getTitle(section), status: 'added', proposed: section });
+        } else if (normalize(existing) !== normalize(section)) {
+            diffs.push({ key, title: getTitle(section), status: 'changed', current: existing, proposed: section });
+        }
+    });
+
+    currentByKey.forEach((section, key) => {
+        if (!proposedByKey.has(key)) {
+            diffs.push({ key, title: getTitle(section), status: 'removed', current: section });
+        }
+    });
+
+    return diffs;
+}
+
+/**
+ * Apply only the accepted differences to the current README. Section order
+ * follows the current README; accepted new sections are placed after the
+ * section that precedes them in the proposed README.
+ */
+export function applyReadmeSectionDiffs(current: string, proposed: string, accepted: ReadmeSectionDiff[]): string {
+    const acceptedKeys = new Set(accepted.map(diff => diff.key));
+    const diffs = diffReadmeSections(current, proposed);
+    if (diffs.length > 0 && diffs.every(diff => acceptedKeys.has(diff.key))) {
+        return proposed;
+    }
+
+    const currentSections = parseReadmeSections(current);
+    const proposedSections = parseReadmeSections(proposed);
+    const currentKeys = currentSections.map(section => keyOf(section, currentSections));
+    const proposedKeys = proposedSections.map(section => keyOf(section, proposedSections));
+    const result: { key: string; section: ReadmeSection }[] = [];
+
+    currentSections.forEach((section, index) => {
+        const key = currentKeys[index];
+        if (!acceptedKeys.has(key)) {
+            result.push({ key, section });
+            return;
+        }
+
+        // Accepted change: take the proposed version. Accepted removal: drop it.
+        const proposedIndex = proposedKeys.indexOf(key);
+        if (proposedIndex >= 0) {
+            result.push({ key, section: withTrailingBreak(proposedSections[proposedIndex]) });
+        }
+    });
+
+    proposedSections.forEach((section, index) => {
+        const key = proposedKeys[index];
+        if (currentKeys.includes(key) || !acceptedKeys.has(key)) {
+            return;
+        }
+
+        let insertAt = 0;
+        for (let previous = index - 1; previous >= 0; previous--) {
+            const anchorIndex = result.findIndex(entry => entry.key === proposedKeys[previous]);
+            if (anchorIndex >= 0) {
+                insertAt = anchorIndex + 1;
+                break;
+            }
+        }
+
+        // Keep a blank line between the anchor and the new heading
+        const anchor = result[insertAt - 1];
+        if (anchor) {
+            anchor.section = withTrailingBreak(anchor.section);
+        }
+        result.splice(insertAt, 0, { key, section: withTrailingBreak(section) });
+    });
+
+    return renderReadmeSections(result.map(entry => entry.section));
+}
+
+function keySections(sections: ReadmeSection[]): Map<string, ReadmeSection> {
+    const byKey = new Map<string, ReadmeSection>();
+    for (const section of sections) {
+        byKey.set(keyOf(section, sections), section);
+    }
+    return byKey;
+}
+
+/**
+ * Stable key for pairing sections; repeated titles get an occurrence suffix
+ */
+function keyOf(section: ReadmeSection, sections: ReadmeSection[]): string {
+    if (section.heading === undefined) {
+        return ':introduction';
+    }
+    if (section.level === 1 && sections.find(other => other.level === 1) === section) {
+        return ':title';
+    }
+
+    const id = getSectionId(section.title);
+    const occurrence = sections
+        .slice(0, sections.indexOf(section))
+        .filter(other => other.heading !== undefined && getSectionId(other.title) === id)
+        .length;
+    return occurrence === 0 ? id : `${id}#${occurrence + 1}`;
+}
+
+function getTitle(section: ReadmeSection): string {
+    return section.heading === undefined ? '(Introduction)' : section.title;
+}
+
+function normalize(section: ReadmeSection): string {
+    return `${section.heading ?? ''}\n${section.content.trim()}`;
+}
+
+/**
+ * Sections from the middle of a document end with "\n", which renders as
+ * a blank line before the next heading; make moved sections do the same
+ */
+function withTrailingBreak(section: ReadmeSection): ReadmeSection {
+    return section.content.endsWith('\n') ? section : { ...section, content: section.content + '\n' };
+}
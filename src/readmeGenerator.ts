@@ -1,16 +1,49 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { PerplexityClient } from './perplexityClient';
-import { CodeChunk, CodebaseAnalysis, GenerationProgress } from './types';
+import { createLLMProvider, getConfiguredMaxTokens, getConfiguredModel } from './llmProvider';
+import { TemplateReadmeGenerator } from './templateReadmeGenerator';
+import { StreamingPreview } from './streamingPreview';
+import { ApiError, AuthenticationError, GenerationCancelledError, ProviderConfigurationError, RateLimitError } from './errors';
+import { PromptBuilder } from './promptBuilder';
+import { getPromptContent } from './fileOutline';
+import { mergeReadme, summarizeReadmeChanges } from './readmeMerge';
+import { parseStructuredReadme, renderStructuredReadme } from './structuredReadme';
+import { parseReadmeSections, renderReadmeSections, replaceSectionContent, upsertReadmeSection } from './readmeSections';
+import { countMessageTokens } from './tokenizer';
+import { ChunkSummary, CodeChunk, CodebaseAnalysis, FileInfo, GenerationProgress, LLMProvider, PerplexityMessage, PlannedRequest, ReadmeMergeResult } from './types';
+
+/**
+ * Options controlling a single README generation run
+ */
+export interface ReadmeGenerationOptions {
+    /** Stream model output into the preview document while generating */
+    streamPreview?: boolean;
+    signal?: AbortSignal;
+    /** Ask the model for JSON sections and render the markdown ourselves */
+    structuredOutput?: boolean;
+}
 
 export class ReadmeGenerator {
-    private readonly perplexityClient: PerplexityClient;
+    private readonly llmProvider?: LLMProvider;
+    private readonly templateGenerator: TemplateReadmeGenerator = new TemplateReadmeGenerator();
+    private readonly promptBuilder: PromptBuilder = new PromptBuilder();
+    private readonly maxSectionContextChars: number = 20000;
+    private readonly maxSummaryTokens: number = 1200;
+    private readonly maxSynthesisInputChars: number = 60000;
     private readonly workspaceRoot: string;
+    private streamingPreview?: StreamingPreview;
+    private structuredOutput: boolean = false;
+    private readonly maxStructuredAttempts: number = 3;
 
-    constructor(workspaceRoot: string) {
+    /**
+     * @param options.offline Build the README from the analysis only, without any AI call
+     * @param options.llmProvider Provider to use instead of the configured one
+     */
+    constructor(workspaceRoot: string, options: { offline?: boolean; llmProvider?: LLMProvider } = {}) {
         this.workspaceRoot = workspaceRoot;
-        this.perplexityClient = new PerplexityClient();
+        if (!options.offline) {
+            this.llmProvider = options.llmProvider ?? createLLMProvider();
+        }
     }
 
     /**
@@ -19,7 +52,8 @@ export class ReadmeGenerator {
     async generateReadme(
         analysis: CodebaseAnalysis,
         chunks: CodeChunk[],
-        progressCallback: (progress: GenerationProgress) => void
+        progressCallback: (progress: GenerationProgress) => void,
+        options: ReadmeGenerationOptions = {}
     ): Promise<string> {
         try {
             console.log('🤖 Starting README generation process...');
@@ -30,17 +64,36 @@ export class ReadmeGenerator {
                 percentage: 0
             });
 
-            // Step 1: Generate content for each chunk
-            const generatedChunks = await this.processChunks(chunks, progressCallback);
-            
-            // Step 2: Assemble the final README
-            progressCallback({
-                stage: 'generating',
-                message: 'Assembling final README...',
-                percentage: 90
-            });
+            if (!this.llmProvider) {
+                console.log('📝 Offline mode - building README from analysis only');
+                const offlineReadme = this.templateGenerator.generate(analysis) + this.addMetadataFooter(analysis);
 
-            const finalReadme = this.assembleReadme(generatedChunks, analysis);
+                progressCallback({
+                    stage: 'generating',
+                    message: 'README generation completed!',
+                    percentage: 100
+                });
+
+                return offlineReadme;
+            }
+
+            this.structuredOutput = options.structuredOutput ?? false;
+
+            // JSON is not worth watching; structured runs show the rendered README at the end
+            if (options.streamPreview && !this.structuredOutput) {
+                this.streamingPreview = await StreamingPreview.open();
+            }
+
+            // One chunk is written directly; several go through map (summaries) and reduce (synthesis)
+            const readmeBody = chunks.length <= 1
+                ? await this.generateDirectly(this.llmProvider, chunks, analysis, progressCallback, options.signal)
+                : await this.generateFromSummaries(this.llmProvider, chunks, analysis, progressCallback, options.signal);
+
+            if (this.streamingPreview) {
+                await this.streamingPreview.flush();
+            }
+
+            const finalReadme = this.addFactSections(readmeBody, analysis).trim() + this.addMetadataFooter(analysis);
             
             progressCallback({
                 stage: 'generating',
@@ -53,97 +106,362 @@ export class ReadmeGenerator {
 
         } catch (error) {
             console.error('❌ README generation failed:', error);
+            // Keep typed errors intact so the UI can react to the failure type
+            if (error instanceof ApiError || error instanceof GenerationCancelledError) {
+                throw error;
+            }
             throw new Error(`Failed to generate README: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Process all code chunks through AI
+     * Requests `generateReadme` would send for these chunks and their token
+     * counts, without calling the provider (works offline). Prompts that
+     * contain earlier output use placeholders sized at that output's limit.
+     */
+    public planRequests(analysis: CodebaseAnalysis, chunks: CodeChunk[], options: { structuredOutput?: boolean } = {}): PlannedRequest[] {
+        const model = getConfiguredModel();
+        const maxTokens = getConfiguredMaxTokens();
+        const finalMessages = (messages: PerplexityMessage[]) => options.structuredOutput
+            ? this.promptBuilder.withStructuredOutput(messages)
+            : messages;
+        const plan = (
+            label: string,
+            phase: PlannedRequest['phase'],
+            messages: PerplexityMessage[],
+            files: string[],
+            outputTokens: number,
+            placeholders: number = 0
+        ): PlannedRequest => ({
+            label,
+            phase,
+            messages,
+            files,
+            inputTokens: countMessageTokens(messages, model) + placeholders * this.maxSummaryTokens,
+            outputTokens,
+            estimated: placeholders > 0
+        });
+
+        if (chunks.length === 0) {
+            return [];
+        }
+        if (chunks.length === 1) {
+            const messages = finalMessages(this.promptBuilder.createChunkMessages(chunks[0], true));
+            return [plan('Write README', 'readme', messages, chunks[0].files.map(file => file.path), maxTokens)];
+        }
+
+        const requests = chunks.map((chunk, i) => plan(
+            `Summarize chunk ${i + 1}/${chunks.length}`,
+            'summary',
+            this.promptBuilder.createChunkSummaryMessages(chunk, chunks.length),
+            chunk.files.map(file => file.path),
+            this.maxSummaryTokens
+        ));
+
+        // Assume every summary uses its whole token limit at about four characters per token
+        const summaryChars = this.maxSummaryTokens * 4;
+        const groupSize = Math.max(2, Math.floor(this.maxSynthesisInputChars / summaryChars));
+        let summaries = chunks.map(chunk => this.createPlaceholderSummary(chunk.chunkIndex, chunk.description, chunk.files.map(file => file.path)));
+
+        while (summaries.length > 1 && summaries.length * summaryChars > this.maxSynthesisInputChars) {
+            const merged: ChunkSummary[] = [];
+            for (let i = 0; i < summaries.length; i += groupSize) {
+                const group = summaries.slice(i, i + groupSize);
+                if (group.length === 1) {
+                    merged.push(group[0]);
+                    continue;
+                }
+                requests.push(plan(`Merge ${group.length} summaries`, 'merge', this.promptBuilder.createSummaryMergeMessages(group), [], this.maxSummaryTokens, group.length));
+                merged.push(this.createPlaceholderSummary(group[0].chunkIndex, `Combined notes for ${group.length} parts`, group.flatMap(summary => summary.files)));
+            }
+            summaries = merged;
+        }
+
+        const synthesis = finalMessages(this.promptBuilder.createSynthesisMessages(summaries, analysis));
+        requests.push(plan(`Write README from ${summaries.length} summaries`, 'synthesis', synthesis, [], maxTokens, summaries.length));
+        return requests;
+    }
+
+    private createPlaceholderSummary(chunkIndex: number, description: string, files: string[]): ChunkSummary {
+        return {
+            chunkIndex,
+            description,
+            files,
+            content: `[Notes the model writes for this part in an earlier request, up to ${this.maxSummaryTokens} tokens]`
+        };
+    }
+
+    /**
+     * Write the README from a single chunk of code in one call
      */
-    private async processChunks(
+    private async generateDirectly(
+        llmProvider: LLMProvider,
         chunks: CodeChunk[],
-        progressCallback: (progress: GenerationProgress) => void
-    ): Promise<string[]> {
-        const generatedChunks: string[] = [];
-        const totalChunks = chunks.length;
+        analysis: CodebaseAnalysis,
+        progressCallback: (progress: GenerationProgress) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        if (chunks.length === 0) {
+            return this.templateGenerator.generate(analysis);
+        }
 
-        console.log(`📦 Processing ${totalChunks} code chunks through AI...`);
+        progressCallback({
+            stage: 'generating',
+            message: 'Generating README content...',
+            percentage: 10
+        });
+
+        try {
+            if (this.structuredOutput) {
+                return await this.completeStructured(llmProvider, this.promptBuilder.createChunkMessages(chunks[0], true), analysis, signal);
+            }
+            return await llmProvider.generateReadmeChunk(chunks[0], true, { onToken: this.getTokenHandler(), signal });
+        } catch (error) {
+            this.rethrowIfFatal(error, signal);
+            console.error('❌ Failed to generate README content:', error);
+            return this.createFallbackContent(analysis);
+        }
+    }
+
+    /**
+     * Map-reduce generation: summarize every chunk, merge the summaries if
+     * they are too large, then synthesize one README from them
+     */
+    private async generateFromSummaries(
+        llmProvider: LLMProvider,
+        chunks: CodeChunk[],
+        analysis: CodebaseAnalysis,
+        progressCallback: (progress: GenerationProgress) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const summaries = await this.summarizeChunks(llmProvider, chunks, progressCallback, signal);
+        const reducedSummaries = await this.reduceSummaries(llmProvider, summaries, progressCallback, signal);
+
+        progressCallback({
+            stage: 'generating',
+            message: `Writing README from ${chunks.length} chunk summaries...`,
+            percentage: 80
+        });
+
+        try {
+            console.log(`🧩 Synthesizing README from ${reducedSummaries.length} summaries`);
+            const messages = this.promptBuilder.createSynthesisMessages(reducedSummaries, analysis);
+            if (this.structuredOutput) {
+                return await this.completeStructured(llmProvider, messages, analysis, signal);
+            }
+            return await llmProvider.complete(messages, { onToken: this.getTokenHandler(), signal });
+        } catch (error) {
+            this.rethrowIfFatal(error, signal);
+            console.error('❌ Failed to synthesize README:', error);
+            return this.createFallbackContent(analysis);
+        }
+    }
+
+    /**
+     * Request the README as JSON sections, repairing or re-requesting invalid
+     * responses, and render it with a fixed layout
+     */
+    private async completeStructured(
+        llmProvider: LLMProvider,
+        messages: PerplexityMessage[],
+        analysis: CodebaseAnalysis,
+        signal?: AbortSignal
+    ): Promise<string> {
+        let conversation = this.promptBuilder.withStructuredOutput(messages);
+
+        for (let attempt = 1; attempt <= this.maxStructuredAttempts; attempt++) {
+            const response = await llmProvider.complete(conversation, { signal });
+            const result = parseStructuredReadme(response);
+
+            if (result.sections) {
+                if (result.repairs.length > 0) {
+                    console.log(`🔧 Repaired structured README response: ${result.repairs.join('; ')}`);
+                }
+                return renderStructuredReadme(analysis.metadata.name, result.sections);
+            }
+
+            console.warn(`⚠️ Invalid structured README response (attempt ${attempt}/${this.maxStructuredAttempts}): ${result.errors.join('; ')}`);
+            conversation = [
+                ...conversation,
+                { role: 'assistant', content: response },
+                { role: 'user', content: this.promptBuilder.createStructuredRetryPrompt(result.errors) }
+            ];
+        }
+
+        throw new Error(`The model did not return valid README JSON after ${this.maxStructuredAttempts} attempts`);
+    }
+
+    /**
+     * Map phase: structured notes for each chunk
+     */
+    private async summarizeChunks(
+        llmProvider: LLMProvider,
+        chunks: CodeChunk[],
+        progressCallback: (progress: GenerationProgress) => void,
+        signal?: AbortSignal
+    ): Promise<ChunkSummary[]> {
+        const summaries: ChunkSummary[] = [];
+
+        console.log(`📦 Summarizing ${chunks.length} code chunks...`);
 
         for (let i = 0; i < chunks.length; i++) {
             const chunk = chunks[i];
-            const isFirstChunk = i === 0;
-            
+
+            if (signal?.aborted) {
+                throw new GenerationCancelledError();
+            }
+
             progressCallback({
                 stage: 'generating',
-                message: `Generating content for chunk ${i + 1}/${totalChunks}...`,
-                percentage: Math.floor((i / totalChunks) * 80) // 0-80% for chunk processing
+                message: `Summarizing chunk ${i + 1}/${chunks.length}...`,
+                percentage: Math.floor((i / chunks.length) * 65) // 0-65% for the map phase
             });
 
+            let content: string;
             try {
-                console.log(`🤖 Processing chunk ${i + 1}/${totalChunks}: ${chunk.description}`);
-                
-                const generatedContent = await this.perplexityClient.generateReadmeChunk(chunk, isFirstChunk);
-                generatedChunks.push(generatedContent);
-                
-                console.log(`✅ Chunk ${i + 1} processed successfully`);
-                
-                // Add small delay to avoid rate limiting
-                if (i < chunks.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                }
-
+                console.log(`🤖 Summarizing chunk ${i + 1}/${chunks.length}: ${chunk.description}`);
+                content = await llmProvider.complete(
+                    this.promptBuilder.createChunkSummaryMessages(chunk, chunks.length),
+                    { signal, maxTokens: this.maxSummaryTokens }
+                );
             } catch (error) {
-                console.error(`❌ Failed to process chunk ${i + 1}:`, error);
-                
+                this.rethrowIfFatal(error, signal);
+
                 // Continue with other chunks even if one fails
-                const fallbackContent = this.createFallbackContent(chunk, isFirstChunk);
-                generatedChunks.push(fallbackContent);
+                console.error(`❌ Failed to summarize chunk ${i + 1}:`, error);
+                content = '## Notes\n- No summary could be generated for these files';
             }
+
+            summaries.push({
+                chunkIndex: chunk.chunkIndex,
+                description: chunk.description,
+                files: chunk.files.map(file => file.path),
+                content
+            });
         }
 
-        return generatedChunks;
+        return summaries;
     }
 
     /**
-     * Create fallback content when AI generation fails
+     * Merge groups of summaries until all of them fit into one synthesis prompt
      */
-    private createFallbackContent(chunk: CodeChunk, isFirstChunk: boolean): string {
-        if (isFirstChunk) {
-            return `# Project README
+    private async reduceSummaries(
+        llmProvider: LLMProvider,
+        summaries: ChunkSummary[],
+        progressCallback: (progress: GenerationProgress) => void,
+        signal?: AbortSignal
+    ): Promise<ChunkSummary[]> {
+        let current = summaries;
 
-## Overview
-This is an auto-generated README for your project.
+        while (current.length > 1 && this.getSummaryLength(current) > this.maxSynthesisInputChars) {
+            const groups = this.groupSummaries(current);
+            if (groups.length === current.length) {
+                break; // every summary is too large to pair up; send them as they are
+            }
 
-## Files Analyzed
-${chunk.files.map(file => `- ${file.path}`).join('\n')}
+            progressCallback({
+                stage: 'generating',
+                message: `Merging ${current.length} summaries into ${groups.length}...`,
+                percentage: 70
+            });
+
+            const merged: ChunkSummary[] = [];
+            for (const group of groups) {
+                if (group.length === 1) {
+                    merged.push(group[0]);
+                    continue;
+                }
+
+                if (signal?.aborted) {
+                    throw new GenerationCancelledError();
+                }
 
-*Note: This content was generated as a fallback due to AI processing issues.*`;
-        } else {
-            return `\n## Additional Components\n\n*Additional project components detected but could not be processed by AI.*`;
+                let content: string;
+                try {
+                    content = await llmProvider.complete(
+                        this.promptBuilder.createSummaryMergeMessages(group),
+                        { signal, maxTokens: this.maxSummaryTokens }
+                    );
+                } catch (error) {
+                    this.rethrowIfFatal(error, signal);
+                    console.error('❌ Failed to merge chunk summaries:', error);
+                    content = group.map(summary => summary.content.trim()).join('\n\n');
+                }
+
+                merged.push({
+                    chunkIndex: group[0].chunkIndex,
+                    description: `Combined notes for ${group.length} parts`,
+                    files: group.flatMap(summary => summary.files),
+                    content
+                });
+            }
+
+            current = merged;
         }
+
+        return current;
     }
 
     /**
-     * Assemble the final README from generated chunks
+     * Greedily group consecutive summaries so each group fits the synthesis budget
      */
-    private assembleReadme(generatedChunks: string[], analysis: CodebaseAnalysis): string {
-        console.log('📝 Assembling final README content...');
-        
-        // Start with the first chunk (should contain the main README structure)
-        let finalReadme = generatedChunks[0] || '';
-        
-        // Add additional chunks if they exist
-        for (let i = 1; i < generatedChunks.length; i++) {
-            const additionalContent = generatedChunks[i];
-            if (additionalContent && additionalContent.trim()) {
-                finalReadme += '\n\n' + additionalContent;
+    private groupSummaries(summaries: ChunkSummary[]): ChunkSummary[][] {
+        const groups: ChunkSummary[][] = [];
+        let group: ChunkSummary[] = [];
+
+        for (const summary of summaries) {
+            if (group.length > 0 && this.getSummaryLength([...group, summary]) > this.maxSynthesisInputChars) {
+                groups.push(group);
+                group = [];
             }
+            group.push(summary);
+        }
+        if (group.length > 0) {
+            groups.push(group);
         }
 
-        // Add metadata footer
-        finalReadme += this.addMetadataFooter(analysis);
-        
-        return finalReadme;
+        return groups;
+    }
+
+    private getSummaryLength(summaries: ChunkSummary[]): number {
+        return summaries.reduce((total, summary) => total + summary.content.length, 0);
+    }
+
+    private getTokenHandler(): ((text: string) => void) | undefined {
+        const preview = this.streamingPreview;
+        return preview ? (text: string) => preview.append(text) : undefined;
+    }
+
+    /**
+     * Cancellation and errors that would hit every later call stop generation;
+     * anything else falls back to partial content
+     */
+    private rethrowIfFatal(error: unknown, signal?: AbortSignal): void {
+        if (signal?.aborted || error instanceof GenerationCancelledError) {
+            throw new GenerationCancelledError();
+        }
+        if (error instanceof AuthenticationError || error instanceof RateLimitError) {
+            throw error;
+        }
+    }
+
+    /**
+     * Create fallback content when AI generation fails: the template README
+     */
+    private createFallbackContent(analysis: CodebaseAnalysis): string {
+        const fallbackContent = this.templateGenerator.generate(analysis);
+        this.streamingPreview?.append(fallbackContent);
+        return fallbackContent;
+    }
+
+    /**
+     * Replace or add the sections the template derives from the analysis,
+     * so tables of facts are exact rather than paraphrased by the model
+     */
+    private addFactSections(readme: string, analysis: CodebaseAnalysis): string {
+        return this.templateGenerator.renderFactSections(analysis)
+            .reduce((content, section) => upsertReadmeSection(content, section.title, section.body), readme);
     }
 
     /**
@@ -171,13 +489,6 @@ ${chunk.files.map(file => `- ${file.path}`).join('\n')}
     async saveReadme(content: string, filename: string = 'README.md'): Promise<string> {
         try {
             const readmePath = path.join(this.workspaceRoot, filename);
-            
-            // Check if README already exists
-            if (fs.existsSync(readmePath)) {
-                const backupPath = path.join(this.workspaceRoot, `README.backup.${Date.now()}.md`);
-                fs.copyFileSync(readmePath, backupPath);
-                console.log(`📁 Backed up existing README to: ${backupPath}`);
-            }
 
             // Write the new README
             fs.writeFileSync(readmePath, content, 'utf8');
@@ -191,17 +502,121 @@ ${chunk.files.map(file => `- ${file.path}`).join('\n')}
     }
 
     /**
-     * Preview README content in a new document
+     * Merge generated content into the existing README so hand-written
+     * sections survive. Returns undefined when there is no README yet.
+     */
+    mergeWithExistingReadme(content: string, filename: string = 'README.md'): ReadmeMergeResult | undefined {
+        const readmePath = path.join(this.workspaceRoot, filename);
+        if (!fs.existsSync(readmePath)) {
+            return undefined;
+        }
+
+        const result = mergeReadme(fs.readFileSync(readmePath, 'utf8'), content);
+        console.log(`🔀 Merged generated content into existing README: ${summarizeReadmeChanges(result.changes)}`);
+        return result;
+    }
+
+    /**
+     * Regenerate a single section of a README. Every other section is
+     * returned exactly as it was.
+     */
+    async regenerateSection(
+        readme: string,
+        sectionIndex: number,
+        analysis: CodebaseAnalysis,
+        chunks: CodeChunk[],
+        signal?: AbortSignal
+    ): Promise<string> {
+        if (!this.llmProvider) {
+            throw new ProviderConfigurationError('Regenerating a section needs an AI provider. Please configure your API key in settings.');
+        }
+
+        const sections = parseReadmeSections(readme);
+        const section = sections[sectionIndex];
+        if (!section) {
+            throw new Error(`README has no section at position ${sectionIndex + 1}`);
+        }
+
+        const otherTitles = sections
+            .filter((other, index) => index !== sectionIndex && other.title)
+            .map(other => other.title);
+        const files = this.selectFilesForSection(section.title, analysis, chunks);
+
+        console.log(`🔄 Regenerating section "${section.title}" with ${files.length} context files`);
+
+        const messages = this.promptBuilder.createSectionMessages(section, otherTitles, analysis, files);
+        const body = await this.llmProvider.complete(messages, { signal });
+
+        return renderReadmeSections(replaceSectionContent(sections, sectionIndex, body));
+    }
+
+    /**
+     * Pick the files most relevant to a section, within a character budget
+     */
+    private selectFilesForSection(title: string, analysis: CodebaseAnalysis, chunks: CodeChunk[]): FileInfo[] {
+        const allFiles = chunks.flatMap(chunk => chunk.files);
+        const { structure } = analysis;
+        const normalizedTitle = title.toLowerCase();
+
+        const matchers: { keywords: string[]; files: string[] }[] = [
+            { keywords: ['install', 'setup', 'getting started', 'requirement', 'prerequisite'], files: [...structure.configFiles, ...structure.importantFiles] },
+            { keywords: ['usage', 'example', 'quick start', 'how to'], files: [...analysis.mainFiles, ...structure.sourceFiles] },
+            { keywords: ['api', 'reference', 'endpoint', 'method'], files: structure.sourceFiles },
+            { keywords: ['config', 'environment', 'option', 'setting'], files: [...structure.configFiles, ...structure.sourceFiles.filter(file => /config|settings|env/i.test(file))] },
+            { keywords: ['test'], files: [...structure.testFiles, ...structure.configFiles] },
+            { keywords: ['contribut', 'develop', 'build'], files: [...structure.configFiles, ...structure.documentationFiles] },
+            { keywords: ['license'], files: structure.documentationFiles.filter(file => /licen[sc]e/i.test(file)) },
+            { keywords: ['structure', 'architecture', 'overview', 'feature'], files: [...analysis.mainFiles, ...structure.sourceFiles] }
+        ];
+
+        const relevantPaths = matchers
+            .filter(matcher => matcher.keywords.some(keyword => normalizedTitle.includes(keyword)))
+            .flatMap(matcher => matcher.files);
+        const candidates = relevantPaths.length > 0 ? relevantPaths : analysis.mainFiles;
+
+        const selected: FileInfo[] = [];
+        let usedChars = 0;
+
+        for (const filePath of new Set(candidates)) {
+            const file = allFiles.find(f => f.path === filePath);
+            if (!file) {
+                continue;
+            }
+
+            const cost = getPromptContent(file).length;
+            if (usedChars + cost > this.maxSectionContextChars) {
+                break;
+            }
+            selected.push(file);
+            usedChars += cost;
+        }
+
+        return selected;
+    }
+
+    /**
+     * Current text of the preview document, including the user's edits
+     */
+    getPreviewContent(): string | undefined {
+        if (this.streamingPreview && !this.streamingPreview.isClosed()) {
+            return this.streamingPreview.getText();
+        }
+        return undefined;
+    }
+
+    /**
+     * Preview README content. Reuses the open preview document (including
+     * the streamed one) when there is one, otherwise opens a new document.
      */
     async previewReadme(content: string): Promise<void> {
         try {
-            const doc = await vscode.workspace.openTextDocument({
-                content,
-                language: 'markdown'
-            });
-            
-            await vscode.window.showTextDocument(doc, { preview: true });
-            console.log('👀 README preview opened');
+            if (!this.streamingPreview || this.streamingPreview.isClosed()) {
+                this.streamingPreview = await StreamingPreview.open();
+            }
+
+            await this.streamingPreview.replaceAll(content);
+            await this.streamingPreview.reveal();
+            console.log('👀 README preview updated');
         } catch (error) {
             console.error('❌ Failed to preview README:', error);
             throw new Error(`Failed to preview README: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -0,0 +1,299 @@
+// readmeMerge.ts - Merge newly generated README content into an existing, hand-edited README
+
+import { diffReadmeSections } from './readmeDiff';
+import { createFenceTracker, getSectionId, parseReadmeSections, renderReadmeSections, setSectionBody } from './readmeSections';
+import { ReadmeChange, ReadmeMergeResult, ReadmeSection } from './types';
+
+/** `<!-- readme:keep -->`, `<!-- readme:auto -->` or `<!-- readme:auto:installation -->` */
+const MARKER_PATTERN = /<!--\s*readme:(keep|auto)(?::([\w-]+))?\s*-->/i;
+const FOOTER_PATTERN = /\n*---[ \t]*\n+\*This README was automatically generated by README AI Generator\*[\s\S]*$/;
+
+/** Generated paragraphs at least this similar to an existing one are treated as already present */
+const SIMILARITY_THRESHOLD = 0.6;
+
+interface SectionMarker {
+    mode: 'keep' | 'auto';
+    id?: string;
+    line: string;
+}
+
+/**
+ * Merge a freshly generated README into the existing one:
+ * - sections marked `<!-- readme:keep -->` are left exactly as written
+ * - sections marked `<!-- readme:auto[:id] -->` are replaced with the generated section
+ * - unmarked sections keep their text and gain only generated paragraphs they do not already cover
+ * - sections that exist only in the existing README are kept, new generated sections are added
+ */
+export function mergeReadme(existing: string, generated: string): ReadmeMergeResult {
+    const existingParts = splitFooter(existing);
+    const generatedParts = splitFooter(generated);
+    const existingSections = parseReadmeSections(existingParts.body);
+    const generatedSections = parseReadmeSections(generatedParts.body);
+
+    const changes: ReadmeChange[] = [];
+    const claimed = new Map<number, ReadmeSection>();
+
+    const merged = existingSections.map(section => {
+        const title = getDisplayTitle(section);
+        const marker = findMarker(section.content);
+        const matchIndex = marker?.mode === 'auto' && marker.id
+            ? findGeneratedSection(generatedSections, claimed, marker.id)
+            : findCounterpart(section, existingSections, generatedSections, claimed);
+        const match = matchIndex >= 0 ? generatedSections[matchIndex] : undefined;
+
+        let result = section;
+
+        if (marker?.mode === 'keep') {
+            changes.push({ title, action: 'kept', detail: 'Marked readme:keep' });
+        } else if (marker?.mode === 'auto') {
+            if (match) {
+                result = setSectionBody(section, `${marker.line}\n\n${match.content.trim()}`);
+                changes.push({ title, action: 'regenerated', detail: `Replaced with generated "${getDisplayTitle(match)}" content` });
+            } else {
+                changes.push({ title, action: 'kept', detail: `Marked ${marker.line.replace(/<!--\s*|\s*-->/g, '')}, but nothing was generated for it` });
+            }
+        } else if (match) {
+            const { body, added } = mergeBlocks(section.content, match.content);
+            if (added > 0) {
+                result = setSectionBody(section, body);
+                changes.push({ title, action: 'merged', detail: `${added} new paragraph${added === 1 ? '' : 's'} added` });
+            } else {
+                changes.push({ title, action: 'unchanged', detail: 'Already covers the generated content' });
+            }
+        } else {
+            changes.push({ title, action: 'preserved', detail: 'Not in the generated README, kept as written' });
+        }
+
+        if (matchIndex >= 0) {
+            claimed.set(matchIndex, result);
+        }
+        return result;
+    });
+
+    insertNewSections(merged, generatedSections, claimed, changes);
+
+    // Respect a removed footer; otherwise refresh it with the new analysis summary
+    const footer = existingParts.footer ? (generatedParts.footer || existingParts.footer) : '';
+    const content = footer
+        ? renderReadmeSections(merged).replace(/\s+$/, '') + footer
+        : renderReadmeSections(merged);
+
+    return { content, changes };
+}
+
+/**
+ * The merge changes that made it into the saved README. Sections whose
+ * change was rejected in the diff review are reported as unchanged, and
+ * rejected new sections are left out.
+ */
+export function getSavedReadmeChanges(changes: ReadmeChange[], mergedContent: string, savedContent: string): ReadmeChange[] {
+    if (mergedContent === savedContent) {
+        return changes;
+    }
+
+    const rejected = new Set(diffReadmeSections(savedContent, mergedContent).map(diff => diff.title));
+    return changes.flatMap((change): ReadmeChange[] => {
+        if (!rejected.has(change.title) || !['regenerated', 'merged', 'added'].includes(change.action)) {
+            return [change];
+        }
+        return change.action === 'added' ? [] : [{ title: change.title, action: 'unchanged', detail: 'Change rejected in review' }];
+    });
+}
+
+/**
+ * One-line summary such as "2 regenerated, 3 merged, 1 added"
+ */
+export function summarizeReadmeChanges(changes: ReadmeChange[]): string {
+    const order: ReadmeChange['action'][] = ['regenerated', 'merged', 'added', 'kept', 'preserved', 'unchanged'];
+    const parts = order
+        .map(action => ({ action, count: changes.filter(change => change.action === action).length }))
+        .filter(entry => entry.count > 0)
+        .map(entry => `${entry.count} ${entry.action}`);
+
+    return parts.join(', ') || 'no sections';
+}
+
+/**
+ * Markdown report listing what happened to every section
+ */
+export function formatReadmeChangeReport(changes: ReadmeChange[]): string {
+    const icons: Record<ReadmeChange['action'], string> = {
+        regenerated: '🔄',
+        merged: '➕',
+        added: '🆕',
+        kept: '🔒',
+        preserved: '✋',
+        unchanged: '✔️'
+    };
+    const rows = changes.map(change =>
+        `| ${icons[change.action]} ${change.title.replace(/\|/g, '\\|')} | ${change.action} | ${change.detail.replace(/\|/g, '\\|')} |`
+    );
+
+    return `# README Update Report
+
+${summarizeReadmeChanges(changes)}
+
+| Section | Change | Details |
+| --- | --- | --- |
+${rows.join('\n')}
+`;
+}
+
+function splitFooter(markdown: string): { body: string; footer: string } {
+    const match = markdown.match(FOOTER_PATTERN);
+    if (!match || match.index === undefined) {
+        return { body: markdown, footer: '' };
+    }
+    return { body: markdown.slice(0, match.index) + '\n', footer: match[0] };
+}
+
+/**
+ * First marker of a section outside code fences, so documented examples of
+ * the markers are not acted on
+ */
+function findMarker(content: string): SectionMarker | undefined {
+    const isCode = createFenceTracker();
+
+    for (const line of content.split('\n')) {
+        const match = !isCode(line) ? line.match(MARKER_PATTERN) : null;
+        if (match) {
+            return {
+                mode: match[1].toLowerCase() as SectionMarker['mode'],
+                id: match[2]?.toLowerCase(),
+                line: match[0]
+            };
+        }
+    }
+    return undefined;
+}
+
+function getDisplayTitle(section: ReadmeSection): string {
+    return section.heading === undefined ? '(Introduction)' : section.title;
+}
+
+function findGeneratedSection(generatedSections: ReadmeSection[], claimed: Map<number, ReadmeSection>, id: string): number {
+    return generatedSections.findIndex((section, index) =>
+        !claimed.has(index) && section.heading !== undefined && getSectionId(section.title) === id
+    );
+}
+
+/**
+ * The generated section playing the same role: the introduction, the
+ * title section (the project name may differ) or the section with the same title
+ */
+function findCounterpart(
+    section: ReadmeSection,
+    existingSections: ReadmeSection[],
+    generatedSections: ReadmeSection[],
+    claimed: Map<number, ReadmeSection>
+): number {
+    if (section.heading === undefined) {
+        return generatedSections.findIndex((other, index) => !claimed.has(index) && other.heading === undefined);
+    }
+
+    if (section.level === 1 && existingSections.find(other => other.level === 1) === section) {
+        const index = generatedSections.findIndex(other => other.level === 1);
+        if (index >= 0 && !claimed.has(index)) {
+            return index;
+        }
+    }
+
+    return findGeneratedSection(generatedSections, claimed, getSectionId(section.title));
+}
+
+/**
+ * Add generated sections that have no counterpart, right after the
+ * section that precedes them in the generated README
+ */
+function insertNewSections(
+    merged: ReadmeSection[],
+    generatedSections: ReadmeSection[],
+    claimed: Map<number, ReadmeSection>,
+    changes: ReadmeChange[]
+): void {
+    generatedSections.forEach((section, index) => {
+        if (claimed.has(index) || !section.content.trim()) {
+            return;
+        }
+
+        let insertAt = 0;
+        for (let previous = index - 1; previous >= 0; previous--) {
+            const anchor = claimed.get(previous);
+            if (anchor) {
+                insertAt = merged.indexOf(anchor) + 1;
+                break;
+            }
+        }
+
+        // Keep a blank line between the anchor and the new heading
+        const anchorSection = merged[insertAt - 1];
+        if (anchorSection && !anchorSection.content.endsWith('\n')) {
+            anchorSection.content += '\n';
+        }
+
+        const added = setSectionBody(section, section.content);
+        merged.splice(insertAt, 0, added);
+        claimed.set(index, added);
+        changes.push({ title: getDisplayTitle(section), action: 'added', detail: 'New section from the generated README' });
+    });
+}
+
+/**
+ * Append generated paragraphs, lists and code blocks the existing body does not already contain
+ */
+function mergeBlocks(existingContent: string, generatedContent: string): { body: string; added: number } {
+    const existingBlocks = splitBlocks(existingContent);
+    const newBlocks = splitBlocks(generatedContent).filter(block =>
+        !existingBlocks.some(existingBlock => getSimilarity(existingBlock, block) >= SIMILARITY_THRESHOLD)
+    );
+
+    return {
+        body: [existingContent.trim(), ...newBlocks].filter(Boolean).join('\n\n'),
+        added: newBlocks.length
+    };
+}
+
+/**
+ * Split markdown into blank-line separated blocks, keeping code fences whole
+ */
+function splitBlocks(markdown: string): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    const isCode = createFenceTracker();
+
+    for (const line of markdown.split('\n')) {
+        if (!isCode(line) && !line.trim()) {
+            if (current.length > 0) {
+                blocks.push(current.join('\n'));
+                current = [];
+            }
+            continue;
+        }
+        current.push(line);
+    }
+
+    if (current.length > 0) {
+        blocks.push(current.join('\n'));
+    }
+    return blocks;
+}
+
+/**
+ * Jaccard similarity of the words in two blocks
+ */
+function getSimilarity(a: string, b: string): number {
+    const wordsA = new Set(a.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+    const wordsB = new Set(b.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+
+    if (wordsA.size === 0 || wordsB.size === 0) {
+        return a.trim() === b.trim() ? 1 : 0;
+    }
+
+    let shared = 0;
+    wordsA.forEach(word => {
+        if (wordsB.has(word)) {
+            shared++;
+        }
+    });
+    return shared / (wordsA.size + wordsB.size - shared);
+}
@@ -0,0 +1,149 @@
+// readmeReview.ts - Side-by-side review of a proposed README before it overwrites the saved one
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { applyReadmeSectionDiffs, diffReadmeSections } from './readmeDiff';
+import { ReadmeSectionDiff } from './types';
+
+export const PROPOSED_README_SCHEME = 'readme-proposed';
+
+/**
+ * ProposedReadmeProvider - Serves proposed README text as read-only documents for the diff editor
+ */
+export class ProposedReadmeProvider implements vscode.TextDocumentContentProvider {
+    private readonly contents = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    public setContent(uri: vscode.Uri, content: string): void {
+        this.contents.set(uri.toString(), content);
+        this.changeEmitter.fire(uri);
+    }
+
+    public clear(uri: vscode.Uri): void {
+        this.contents.delete(uri.toString());
+    }
+
+    public dispose(): void {
+        this.contents.clear();
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * Show the saved README next to the proposed one and let the user accept
+ * everything, reject everything or pick sections. Returns the text to save,
+ * or undefined when nothing should be written or `token` is cancelled.
+ */
+export async function reviewReadmeChanges(
+    provider: ProposedReadmeProvider,
+    readmePath: string,
+    currentContent: string,
+    proposedContent: string,
+    token?: vscode.CancellationToken
+): Promise<string | undefined> {
+    const diffs = diffReadmeSections(currentContent, proposedContent);
+    if (diffs.length === 0 && currentContent === proposedContent) {
+        vscode.window.showInformationMessage('README.md is already up to date; nothing to save.');
+        return undefined;
+    }
+
+    const proposedUri = vscode.Uri.from({ scheme: PROPOSED_README_SCHEME, path: readmePath, query: String(Date.now()) });
+    provider.setContent(proposedUri, proposedContent);
+
+    try {
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(readmePath),
+            proposedUri,
+            'README.md (saved) ↔ README.md (generated)',
+            { preview: true }
+        );
+
+        const sectionSummary = diffs.length > 0
+            ? `${diffs.length} section${diffs.length === 1 ? '' : 's'} differ`
+            : 'Only whitespace differs';
+        // Whitespace-only changes have no sections to pick from
+        const actions = diffs.length > 0 ? ['Accept All', 'Choose Sections', 'Reject All'] : ['Accept All', 'Reject All'];
+        // A notification cannot be closed from code, so a cancelled token counts as Reject All
+        let cancellation: vscode.Disposable | undefined;
+        const cancelled = new Promise<undefined>(resolve => {
+            cancellation = token?.onCancellationRequested(() => resolve(undefined));
+        });
+        const action = await Promise.race([
+            vscode.window.showInformationMessage(
+                `Review the generated README for ${path.basename(path.dirname(readmePath))}: ${sectionSummary}. Nothing is written until you accept.`,
+                ...actions
+            ),
+            cancelled
+        ]);
+        cancellation?.dispose();
+
+        if (action === 'Accept All') {
+            return proposedContent;
+        }
+        if (action === 'Choose Sections') {
+            const accepted = await pickSections(diffs, token);
+            if (!accepted || accepted.length === 0) {
+                return undefined;
+            }
+            return applyReadmeSectionDiffs(currentContent, proposedContent, accepted);
+        }
+
+        console.log('↩️ Generated README rejected, existing README left unchanged');
+        return undefined;
+    } finally {
+        await closeDiffEditors(proposedUri);
+        provider.clear(proposedUri);
+    }
+}
+
+/**
+ * Close every diff tab showing the proposed README once the review is over
+ */
+async function closeDiffEditors(proposedUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === proposedUri.toString());
+
+    if (tabs.length > 0) {
+        try {
+            await vscode.window.tabGroups.close(tabs);
+        } catch (error) {
+            console.warn('Could not close the README diff editor:', error);
+        }
+    }
+}
+
+async function pickSections(diffs: ReadmeSectionDiff[], token?: vscode.CancellationToken): Promise<ReadmeSectionDiff[] | undefined> {
+    type SectionDiffItem = vscode.QuickPickItem & { diff: ReadmeSectionDiff };
+
+    const icons: Record<ReadmeSectionDiff['status'], string> = {
+        changed: '$(diff-modified)',
+        added: '$(diff-added)',
+        removed: '$(diff-removed)'
+    };
+    const descriptions: Record<ReadmeSectionDiff['status'], string> = {
+        changed: 'rewritten',
+        added: 'new section',
+        removed: 'not in the generated README; accepting removes it'
+    };
+
+    const items: SectionDiffItem[] = diffs.map(diff => ({
+        label: `${icons[diff.status]} ${diff.title}`,
+        description: descriptions[diff.status],
+        picked: diff.status !== 'removed',
+        diff
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select the section changes to accept; unselected sections keep their saved text'
+    }, token);
+
+    return picked?.map(item => item.diff);
+}
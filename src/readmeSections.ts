@@ -0,0 +1,173 @@
+// readmeSections.ts - Split README markdown into sections and put it back together
+
+import { ReadmeSection } from './types';
+
+const HEADING_PATTERN = /^(#{1,2})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^[ \t]{0,3}(```+|~~~+)/;
+/** Sections that conventionally end a README; new sections go before them */
+const CLOSING_SECTIONS = ['contributing', 'license', 'licence', 'acknowledgements', 'acknowledgments'];
+
+/**
+ * Parse markdown into sections at every level-1 and level-2 ATX heading
+ * outside code fences. Text before the first heading becomes a section
+ * without a heading. Rendering the result gives back the exact input.
+ *
+ * A section's `content` is everything after its heading line, including
+ * the line break that ends the heading, so it usually starts with "\n".
+ */
+export function parseReadmeSections(markdown: string): ReadmeSection[] {
+    const sections: ReadmeSection[] = [];
+    const lines = markdown.split('\n');
+    let current: { heading?: string; level: number; title: string; lines: string[] } = { level: 0, title: '', lines: [] };
+    const isCode = createFenceTracker();
+
+    const pushCurrent = () => {
+        if (current.heading === undefined && current.lines.length === 0) {
+            return;
+        }
+        sections.push({
+            title: current.title,
+            content: current.heading === undefined
+                ? current.lines.join('\n')
+                : current.lines.map(line => `\n${line}`).join(''),
+            order: sections.length,
+            level: current.level,
+            heading: current.heading
+        });
+    };
+
+    for (const line of lines) {
+        const heading = !isCode(line) ? line.match(HEADING_PATTERN) : null;
+        if (heading) {
+            pushCurrent();
+            current = { heading: line, level: heading[1].length, title: heading[2].trim(), lines: [] };
+            continue;
+        }
+
+        current.lines.push(line);
+    }
+    pushCurrent();
+
+    return sections;
+}
+
+/**
+ * Returns a function to feed markdown lines to in order, telling whether
+ * each one is code: a fence line or a line inside a fenced block
+ */
+export function createFenceTracker(): (line: string) => boolean {
+    let openFence: string | undefined;
+
+    return line => {
+        const fence = line.match(FENCE_PATTERN);
+        if (!fence) {
+            return openFence !== undefined;
+        }
+
+        const marker = fence[1][0];
+        if (!openFence) {
+            openFence = marker;
+        } else if (openFence === marker) {
+            openFence = undefined;
+        }
+        return true;
+    };
+}
+
+/**
+ * Render sections back into markdown, in the given order
+ */
+export function renderReadmeSections(sections: ReadmeSection[]): string {
+    return sections.map(section => {
+        if (section.heading === undefined) {
+            return section.content;
+        }
+        return section.heading + section.content;
+    }).join('\n');
+}
+
+/**
+ * Build a section from a title and markdown body, using the given heading level
+ */
+export function createReadmeSection(title: string, body: string, order: number, level: number = 2): ReadmeSection {
+    return {
+        title,
+        content: `\n\n${body.trim()}\n`,
+        order,
+        level,
+        heading: `${'#'.repeat(level)} ${title}`
+    };
+}
+
+/**
+ * Replace the body of one section, keeping its heading and the spacing
+ * around the body
+ */
+export function replaceSectionContent(sections: ReadmeSection[], index: number, body: string): ReadmeSection[] {
+    return sections.map((section, i) => i === index ? setSectionBody(section, body) : section);
+}
+
+/**
+ * Copy of a section with a new body. A repeated heading at the start of
+ * the body is dropped; blank lines around the old body are kept.
+ */
+export function setSectionBody(section: ReadmeSection, body: string): ReadmeSection {
+    const leadingBreaks = section.heading === undefined ? '' : section.content.match(/^\n*/)?.[0] || '\n';
+    const trailingBreaks = section.content.match(/\n*$/)?.[0] || '\n';
+    const content = `${leadingBreaks}${stripLeadingHeading(body, section.title).trim()}${trailingBreaks}`;
+    return { ...section, content };
+}
+
+/**
+ * Normalized identifier for a section title, e.g. "Getting Started" -> "getting-started"
+ */
+export function getSectionId(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s-]/gu, '')
+        .trim()
+        .replace(/\s+/g, '-');
+}
+
+/**
+ * Find a section by title, ignoring case, emoji and punctuation
+ */
+export function findSection(sections: ReadmeSection[], title: string): ReadmeSection | undefined {
+    const id = getSectionId(title);
+    return sections.find(section => getSectionId(section.title) === id);
+}
+
+/**
+ * Set the body of the section with this title, or add the section before
+ * the closing Contributing/License sections when the README lacks it
+ */
+export function upsertReadmeSection(markdown: string, title: string, body: string): string {
+    const sections = parseReadmeSections(markdown);
+    const existing = findSection(sections, title);
+    if (existing) {
+        return renderReadmeSections(replaceSectionContent(sections, sections.indexOf(existing), body));
+    }
+
+    const closing = sections.findIndex(section => section.level === 2 && CLOSING_SECTIONS.includes(getSectionId(section.title)));
+    const insertAt = closing === -1 ? sections.length : closing;
+    const before = renderReadmeSections(sections.slice(0, insertAt)).replace(/\n*$/, '');
+    const after = renderReadmeSections(sections.slice(insertAt));
+    const added = `## ${title}\n\n${body.trim()}`;
+
+    const head = before ? `${before}\n\n` : '';
+
+    return after ? `${head}${added}\n\n${after}` : `${head}${added}\n`;
+}
+
+/**
+ * Models often repeat the section heading; drop it so it is not duplicated
+ */
+function stripLeadingHeading(body: string, title: string): string {
+    const lines = body.trim().split('\n');
+    const first = lines[0]?.match(/^#{1,6}\s+(.*?)(?:\s+#+)?\s*$/);
+
+    if (first && getSectionId(first[1]) === getSectionId(title)) {
+        return lines.slice(1).join('\n');
+    }
+    return body;
+}
@@ -0,0 +1,414 @@
+// routeExtractor.ts - HTTP routes from framework code and OpenAPI/Swagger documents
+
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { FileInfo, HttpRoute } from './types';
+
+type Extractor = (file: SourceFile) => HttpRoute[];
+
+/**
+ * A file being scanned, with helpers to turn match offsets into lines
+ */
+interface SourceFile {
+    path: string;
+    content: string;
+    lines: string[];
+    lineAt(index: number): number;
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
+const METHOD_ORDER = [...HTTP_METHODS, 'ANY'];
+
+/** Receivers that are routers rather than HTTP clients such as axios or fetch wrappers */
+const JS_ROUTER = '(?:app|router|server|api|fastify|routes|\\w*Router|\\w*router|\\w*App)';
+const OPENAPI_FILE = /(^|\/)[\w.-]*(openapi|swagger)[\w.-]*\.(json|ya?ml)$/i;
+const TEST_FILE = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|(^|\/)test_\w+\.py$|Tests?\.java$|_test\.go$/i;
+
+const EXTRACTORS: Record<string, Extractor[]> = {
+    '.js': [extractExpressRoutes],
+    '.mjs': [extractExpressRoutes],
+    '.cjs': [extractExpressRoutes],
+    '.ts': [extractExpressRoutes, extractNestRoutes],
+    '.mts': [extractExpressRoutes],
+    '.cts': [extractExpressRoutes],
+    '.py': [extractPythonDecoratorRoutes, extractDjangoRoutes],
+    '.go': [extractGoRoutes],
+    '.java': [extractSpringRoutes],
+    '.kt': [extractSpringRoutes]
+};
+
+/**
+ * Routes declared in code and in OpenAPI/Swagger files, sorted by path.
+ * When both declare a route, the code location is kept and a missing
+ * description comes from the document.
+ */
+export function extractHttpRoutes(fileInfos: FileInfo[]): HttpRoute[] {
+    const routes = new Map<string, HttpRoute>();
+
+    for (const fileInfo of fileInfos) {
+        const filePath = fileInfo.path.replace(/\\/g, '/');
+        const file = createSourceFile(filePath, fileInfo.content);
+        const extractors = OPENAPI_FILE.test(filePath)
+            ? [extractOpenApiRoutes]
+            : TEST_FILE.test(filePath) ? [] : EXTRACTORS[path.posix.extname(filePath).toLowerCase()] ?? [];
+
+        for (const extractor of extractors) {
+            let extracted: HttpRoute[];
+            try {
+                extracted = extractor(file);
+            } catch (error) {
+                console.error(`Error extracting routes from ${filePath}:`, error);
+                continue;
+            }
+
+            for (const route of extracted) {
+                const key = `${route.method} ${normalizeRoutePath(route.path)}`;
+                const existing = routes.get(key);
+                if (!existing) {
+                    routes.set(key, route);
+                } else if (existing.framework === 'OpenAPI' && route.framework !== 'OpenAPI') {
+                    routes.set(key, { ...route, description: route.description ?? existing.description });
+                } else {
+                    existing.description ??= route.description;
+                }
+            }
+        }
+    }
+
+    return Array.from(routes.values()).sort((a, b) =>
+        a.path.localeCompare(b.path) || METHOD_ORDER.indexOf(a.method) - METHOD_ORDER.indexOf(b.method)
+    );
+}
+
+/**
+ * app.get('/path', handler), router.post(...), fastify.route({ method, url })
+ */
+function extractExpressRoutes(file: SourceFile): HttpRoute[] {
+    const framework = /['"]fastify['"]/.test(file.content) ? 'Fastify' : /['"](?:express|koa-router|@koa\/router|hono)['"]/.test(file.content) ? 'Express' : undefined;
+    if (!framework) {
+        return [];
+    }
+
+    const routes: HttpRoute[] = [];
+    const call = new RegExp(`\\b${JS_ROUTER}\\.(get|post|put|patch|delete|options|head|all)\\(\\s*(['"\`])(/[^'"\`]*)\\2([^\\n]*)`, 'g');
+    for (const match of file.content.matchAll(call)) {
+        const line = file.lineAt(match.index!);
+        routes.push({
+            method: match[1] === 'all' ? 'ANY' : match[1].toUpperCase(),
+            path: match[3],
+            // Only a handler named on the same line; inline functions have no name
+            handler: match[4].match(/,\s*([A-Za-z_$][\w$.]*)\s*\)\s*;?\s*$/)?.[1],
+            file: file.path,
+            line,
+            description: commentAbove(file.lines, line - 1),
+            framework
+        });
+    }
+
+    for (const match of file.content.matchAll(/\.route\(\s*\{([^}]*)\}/g)) {
+        const method = match[1].match(/\bmethod\s*:\s*['"](\w+)['"]/)?.[1];
+        const url = match[1].match(/\burl\s*:\s*['"]([^'"]+)['"]/)?.[1];
+        if (method && url) {
+            const line = file.lineAt(match.index!);
+            routes.push({
+                method: method.toUpperCase(),
+                path: url,
+                handler: match[1].match(/\bhandler\s*:\s*([A-Za-z_$][\w$.]*)/)?.[1],
+                file: file.path,
+                line,
+                description: commentAbove(file.lines, line - 1),
+                framework
+            });
+        }
+    }
+
+    return routes;
+}
+
+/**
+ * NestJS @Controller('prefix') classes with @Get(':id')-style method decorators
+ */
+function extractNestRoutes(file: SourceFile): HttpRoute[] {
+    if (!file.content.includes('@nestjs/')) {
+        return [];
+    }
+
+    const controllers = Array.from(file.content.matchAll(/@Controller\(\s*(?:['"`]([^'"`]*)['"`]|\{[^}]*?path\s*:\s*['"`]([^'"`]*)['"`][^}]*\})?\s*\)[\s\S]*?class\s+(\w+)/g))
+        .map(match => ({ index: match.index!, prefix: match[1] ?? match[2] ?? '', name: match[3] }));
+    const routes: HttpRoute[] = [];
+
+    const decorator = /@(Get|Post|Put|Patch|Delete|Options|Head|All)\(\s*(?:['"`]([^'"`]*)['"`])?\s*\)\s*(?:@\w+(?:\([^)]*\))?\s*)*(?:(?:public|private|protected)\s+)?(?:async\s+)?(\w+)\s*\(/g;
+    for (const match of file.content.matchAll(decorator)) {
+        const controller = controllers.filter(candidate => candidate.index < match.index!).pop();
+        const line = file.lineAt(match.index!);
+        routes.push({
+            method: match[1] === 'All' ? 'ANY' : match[1].toUpperCase(),
+            path: joinRoutePaths(controller?.prefix ?? '', match[2] ?? ''),
+            handler: controller ? `${controller.name}.${match[3]}` : match[3],
+            file: file.path,
+            line,
+            description: commentAbove(file.lines, line - 1),
+            framework: 'NestJS'
+        });
+    }
+
+    return routes;
+}
+
+/**
+ * Flask @app.route / @bp.get and FastAPI @app.get / @router.post decorators,
+ * with Blueprint(url_prefix=...) and APIRouter(prefix=...) prefixes
+ */
+function extractPythonDecoratorRoutes(file: SourceFile): HttpRoute[] {
+    const framework = /^\s*(?:from|import)\s+fastapi\b/m.test(file.content) ? 'FastAPI'
+        : /^\s*(?:from|import)\s+flask\b/m.test(file.content) ? 'Flask' : undefined;
+    if (!framework) {
+        return [];
+    }
+
+    const prefixes = new Map(Array.from(
+        file.content.matchAll(/^(\w+)\s*=\s*(?:APIRouter|Blueprint)\(([^)]*)\)/gm),
+        match => [match[1], match[2].match(/\b(?:url_)?prefix\s*=\s*['"]([^'"]*)['"]/)?.[1] ?? '']
+    ));
+    const routes: HttpRoute[] = [];
+    const decorator = /^[ \t]*@(\w+)\.(route|get|post|put|patch|delete|options|head|api_route)\(\s*['"]([^'"]*)['"]([^\n]*)\n(?:[ \t]*@[^\n]*\n)*[ \t]*(?:async\s+)?def\s+(\w+)/gm;
+
+    for (const match of file.content.matchAll(decorator)) {
+        const declared = match[4].match(/\bmethods\s*=\s*\[([^\]]*)\]/)?.[1];
+        const methods = match[2] === 'route' || match[2] === 'api_route'
+            ? declared ? Array.from(declared.matchAll(/['"](\w+)['"]/g), method => method[1].toUpperCase()) : ['GET']
+            : [match[2].toUpperCase()];
+        const line = file.lineAt(match.index!);
+        const defLine = file.lineAt(match.index! + match[0].length);
+
+        for (const method of methods) {
+            routes.push({
+                method,
+                path: joinRoutePaths(prefixes.get(match[1]) ?? '', match[3]),
+                handler: match[5],
+                file: file.path,
+                line,
+                description: docstringBelow(file.lines, defLine) ?? commentAbove(file.lines, line - 1),
+                framework
+            });
+        }
+    }
+
+    return routes;
+}
+
+/**
+ * path('users/<int:pk>/', views.detail) and re_path(...) entries of Django urls.py
+ */
+function extractDjangoRoutes(file: SourceFile): HttpRoute[] {
+    if (path.posix.basename(file.path) !== 'urls.py') {
+        return [];
+    }
+
+    const routes: HttpRoute[] = [];
+    for (const match of file.content.matchAll(/\b(re_)?path\(\s*r?['"]([^'"]*)['"]\s*,\s*([\w.]+)/g)) {
+        if (match[3] === 'include') {
+            continue;
+        }
+        const line = file.lineAt(match.index!);
+        const route = match[1] ? match[2].replace(/^\^/, '').replace(/\$$/, '') : match[2];
+        routes.push({
+            method: 'ANY',
+            path: `/${route}`,
+            handler: match[3].replace(/\.as_view$/, ''),
+            file: file.path,
+            line,
+            description: commentAbove(file.lines, line - 1),
+            framework: 'Django'
+        });
+    }
+    return routes;
+}
+
+/**
+ * Gin/Echo-style r.GET("/path", handler) calls with Group("/prefix") variables
+ */
+function extractGoRoutes(file: SourceFile): HttpRoute[] {
+    const framework = file.content.includes('github.com/gin-gonic/gin') ? 'Gin'
+        : file.content.includes('github.com/labstack/echo') ? 'Echo' : undefined;
+    if (!framework) {
+        return [];
+    }
+
+    const groups = new Map<string, string>();
+    for (const match of file.content.matchAll(/\b(\w+)\s*:?=\s*(\w+)\.Group\(\s*"([^"]*)"/g)) {
+        groups.set(match[1], joinRoutePaths(groups.get(match[2]) ?? '', match[3]));
+    }
+
+    const routes: HttpRoute[] = [];
+    for (const match of file.content.matchAll(/\b(\w+)\.(GET|POST|PUT|PATCH|DELETE|OPTIONS|HEAD|Any)\(\s*"([^"]*)"([^\n]*)/g)) {
+        const line = file.lineAt(match.index!);
+        routes.push({
+            method: match[2] === 'Any' ? 'ANY' : match[2],
+            path: joinRoutePaths(groups.get(match[1]) ?? '', match[3]),
+            handler: match[4].match(/,\s*([\w.]+)\s*\)\s*$/)?.[1],
+            file: file.path,
+            line,
+            description: commentAbove(file.lines, line - 1),
+            framework
+        });
+    }
+    return routes;
+}
+
+/**
+ * Spring @GetMapping/@PostMapping/@RequestMapping methods under a class-level @RequestMapping
+ */
+function extractSpringRoutes(file: SourceFile): HttpRoute[] {
+    if (!/@(?:Rest)?Controller\b/.test(file.content)) {
+        return [];
+    }
+
+    const classMapping = file.content.match(/@RequestMapping\(\s*(?:(?:value|path)\s*=\s*)?"([^"]*)"[^)]*\)\s*(?:@\w+(?:\([^)]*\))?\s*)*(?:public\s+)?(?:abstract\s+)?class\b/);
+    const prefix = classMapping?.[1] ?? '';
+    const routes: HttpRoute[] = [];
+    const mapping = /@(Get|Post|Put|Patch|Delete|Request)Mapping(?:\(([^)]*)\))?\s*(?:@\w+(?:\([^)]*\))?\s*)*(?:public\s+|protected\s+|private\s+)?(?:fun\s+(\w+)|[\w<>[\],.? ]+?\s+(\w+)\s*\()/g;
+
+    for (const match of file.content.matchAll(mapping)) {
+        if (classMapping && match.index === classMapping.index) {
+            continue;
+        }
+        const args = match[2] ?? '';
+        const methods = match[1] === 'Request'
+            ? Array.from(args.matchAll(/RequestMethod\.(\w+)/g), method => method[1])
+            : [match[1].toUpperCase()];
+        const line = file.lineAt(match.index!);
+
+        for (const method of methods.length > 0 ? methods : ['ANY']) {
+            routes.push({
+                method,
+                path: joinRoutePaths(prefix, args.match(/"([^"]*)"/)?.[1] ?? ''),
+                handler: match[3] ?? match[4],
+                file: file.path,
+                line,
+                description: commentAbove(file.lines, line - 1),
+                framework: 'Spring'
+            });
+        }
+    }
+    return routes;
+}
+
+/**
+ * Operations under `paths` of an OpenAPI 3 or Swagger 2 document
+ */
+function extractOpenApiRoutes(file: SourceFile): HttpRoute[] {
+    const document = parseYaml(file.content);
+    if (!document || typeof document !== 'object' || !(document.openapi || document.swagger) || typeof document.paths !== 'object') {
+        return [];
+    }
+
+    const basePath = typeof document.basePath === 'string' ? document.basePath : '';
+    const routes: HttpRoute[] = [];
+    for (const [routePath, operations] of Object.entries<any>(document.paths ?? {})) {
+        const pathIndex = file.content.search(new RegExp(`^\\s*['"]?${escapeRegExp(routePath)}['"]?\\s*:`, 'm'));
+        for (const [method, operation] of Object.entries<any>(operations ?? {})) {
+            if (!HTTP_METHODS.includes(method.toUpperCase())) {
+                continue;
+            }
+            routes.push({
+                method: method.toUpperCase(),
+                path: joinRoutePaths(basePath, routePath),
+                handler: typeof operation?.operationId === 'string' ? operation.operationId : undefined,
+                file: file.path,
+                line: pathIndex >= 0 ? file.lineAt(pathIndex + file.content.slice(pathIndex).search(/\S/)) : 1,
+                description: firstLine(operation?.summary) ?? firstLine(operation?.description),
+                framework: 'OpenAPI'
+            });
+        }
+    }
+    return routes;
+}
+
+function createSourceFile(filePath: string, content: string): SourceFile {
+    const lineStarts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+        lineStarts.push(i + 1);
+    }
+
+    return {
+        path: filePath,
+        content,
+        lines: content.split('\n'),
+        lineAt(index: number): number {
+            let low = 0;
+            let high = lineStarts.length - 1;
+            while (low < high) {
+                const middle = Math.ceil((low + high) / 2);
+                if (lineStarts[middle] <= index) {
+                    low = middle;
+                } else {
+                    high = middle - 1;
+                }
+            }
+            return low + 1;
+        }
+    };
+}
+
+/**
+ * First sentence of the comment block directly above a line (0-based),
+ * skipping decorators and annotations in between
+ */
+function commentAbove(lines: string[], lineIndex: number): string | undefined {
+    let i = lineIndex - 1;
+    while (i >= 0 && /^\s*@/.test(lines[i])) {
+        i--;
+    }
+
+    const comment: string[] = [];
+    for (; i >= 0 && /^\s*(\/\/|#|\*|\/\*)/.test(lines[i]); i--) {
+        comment.unshift(lines[i].replace(/^\s*(\/\/+|#+|\/\*+|\*+\/?|\*)\s?/, '').replace(/\*\/\s*$/, '').trim());
+    }
+    return firstLine(comment.filter(text => !text.startsWith('@')).join('\n'));
+}
+
+/**
+ * First line of the docstring of the function whose `def` is on this line (1-based)
+ */
+function docstringBelow(lines: string[], defLine: number): string | undefined {
+    let i = defLine - 1;
+    while (i < lines.length - 1 && i < defLine + 10 && !/:\s*(#.*)?$/.test(lines[i])) {
+        i++;
+    }
+    do {
+        i++;
+    } while (i < lines.length && lines[i].trim() === '');
+
+    const docstring = lines[i]?.match(/^\s*[rRuU]?("""|''')(.*)$/);
+    if (!docstring) {
+        return undefined;
+    }
+    return firstLine(docstring[2].replace(/("""|''').*$/, '')) ?? firstLine(lines[i + 1]?.replace(/("""|''').*$/, ''));
+}
+
+function firstLine(text: unknown): string | undefined {
+    if (typeof text !== 'string') {
+        return undefined;
+    }
+    const line = text.split('\n').map(part => part.trim()).find(part => part.length > 0);
+    return line || undefined;
+}
+
+function joinRoutePaths(prefix: string, routePath: string): string {
+    const joined = [prefix, routePath].map(part => part.replace(/^\/+|\/+$/g, '')).filter(Boolean).join('/');
+    return `/${joined}${routePath.endsWith('/') && joined ? '/' : ''}`;
+}
+
+/**
+ * Path with parameters in one form, so /users/{id} and /users/:id match
+ */
+function normalizeRoutePath(routePath: string): string {
+    return routePath
+        .replace(/\{[^}]+\}|:\w+|<[^>]+>/g, '{}')
+        .replace(/\/+$/, '') || '/';
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,341 @@
+// scriptParser.ts - Runnable scripts and entry points declared by build manifests
+
+import * as path from 'path';
+import * as TOML from '@iarna/toml';
+import { parse as parseYaml } from 'yaml';
+import { EntryPoint, ProjectScript } from './types';
+
+type Parser = (content: string, manifest: string, packageManager: string) => ProjectScript[];
+
+const PARSERS: Record<string, Parser> = {
+    'package.json': parsePackageJsonScripts,
+    'makefile': parseMakefile,
+    'gnumakefile': parseMakefile,
+    'justfile': parseJustfile,
+    '.justfile': parseJustfile,
+    'taskfile.yml': parseTaskfile,
+    'taskfile.yaml': parseTaskfile,
+    'pyproject.toml': parsePyprojectScripts,
+    'cargo.toml': parseCargoBins
+};
+
+/** Recipe lines shown per Makefile target or just recipe */
+const MAX_RECIPE_LINES = 3;
+
+/**
+ * Whether a file declares scripts `parseManifestScripts` understands
+ */
+export function isScriptManifest(filePath: string): boolean {
+    return Object.hasOwn(PARSERS, path.basename(filePath).toLowerCase());
+}
+
+/**
+ * Scripts declared by one manifest, in file order. Malformed files are
+ * logged and give no scripts.
+ * @param packageManager Runner for package.json scripts, e.g. "pnpm"
+ */
+export function parseManifestScripts(filePath: string, content: string, packageManager: string = 'npm'): ProjectScript[] {
+    const manifest = filePath.replace(/\\/g, '/');
+    const name = path.posix.basename(manifest).toLowerCase();
+    const parser = Object.hasOwn(PARSERS, name) ? PARSERS[name] : undefined;
+    if (!parser) {
+        return [];
+    }
+
+    try {
+        return parser(content, manifest, packageManager);
+    } catch (error) {
+        console.error(`Error parsing scripts in ${manifest}:`, error);
+        return [];
+    }
+}
+
+/**
+ * main, module, types, bin and exports of a package.json
+ */
+export function parsePackageEntryPoints(content: string): EntryPoint[] {
+    let packageJson: Record<string, any>;
+    try {
+        packageJson = JSON.parse(content);
+    } catch (error) {
+        console.error('Error parsing package.json entry points:', error);
+        return [];
+    }
+
+    const entryPoints: EntryPoint[] = [];
+    for (const kind of ['main', 'module', 'types'] as const) {
+        const value = kind === 'types' ? packageJson.types ?? packageJson.typings : packageJson[kind];
+        if (typeof value === 'string') {
+            entryPoints.push({ kind, path: value });
+        }
+    }
+
+    if (typeof packageJson.bin === 'string') {
+        const name = String(packageJson.name ?? '').split('/').pop();
+        entryPoints.push({ kind: 'bin', name: name || undefined, path: packageJson.bin });
+    } else if (packageJson.bin && typeof packageJson.bin === 'object') {
+        for (const [name, binPath] of Object.entries(packageJson.bin)) {
+            entryPoints.push({ kind: 'bin', name, path: String(binPath) });
+        }
+    }
+
+    // "exports" is a path, a map of subpaths, or a map of conditions for "."
+    const exportsField = packageJson.exports;
+    const subpaths: [string, unknown][] = typeof exportsField === 'string' || Array.isArray(exportsField)
+        ? [['.', exportsField]]
+        : exportsField && typeof exportsField === 'object'
+            ? Object.keys(exportsField).some(key => key.startsWith('.'))
+                ? Object.entries(exportsField)
+                : [['.', exportsField]]
+            : [];
+    for (const [subpath, target] of subpaths) {
+        for (const [condition, exportPath] of flattenExportConditions(target)) {
+            entryPoints.push({ kind: 'export', name: subpath, condition, path: exportPath });
+        }
+    }
+
+    return entryPoints;
+}
+
+function flattenExportConditions(target: unknown, condition?: string): [string | undefined, string][] {
+    if (typeof target === 'string') {
+        return [[condition, target]];
+    }
+    if (Array.isArray(target)) {
+        return target.flatMap(item => flattenExportConditions(item, condition));
+    }
+    if (target && typeof target === 'object') {
+        return Object.entries(target).flatMap(([key, value]) =>
+            flattenExportConditions(value, condition ? `${condition} ${key}` : key)
+        );
+    }
+    return [];
+}
+
+function parsePackageJsonScripts(content: string, manifest: string, packageManager: string): ProjectScript[] {
+    const scripts = JSON.parse(content).scripts ?? {};
+    return Object.entries(scripts).map(([name, command]) => ({
+        name,
+        command: String(command),
+        source: 'npm' as const,
+        invocation: `${packageManager} run ${name}`,
+        manifest
+    }));
+}
+
+/**
+ * Makefile targets that look like commands: phony targets and names
+ * without a path or file extension. A `## text` after the prerequisites or
+ * a comment line above the target becomes the description.
+ */
+function parseMakefile(content: string, manifest: string): ProjectScript[] {
+    const lines = content.split(/\r?\n/);
+    const phony = new Set(
+        lines.filter(line => /^\.PHONY\s*:/.test(line)).flatMap(line => line.replace(/^\.PHONY\s*:/, '').trim().split(/\s+/))
+    );
+    const scripts: ProjectScript[] = [];
+    const seen = new Set<string>();
+
+    lines.forEach((line, i) => {
+        const match = line.match(/^([A-Za-z0-9_][\w.-]*(?:[ \t]+[A-Za-z0-9_][\w.-]*)*)[ \t]*:(?![:=])(.*)$/);
+        if (!match) {
+            return;
+        }
+
+        const [prerequisites, inlineDoc] = match[2].split(/\s##\s*/);
+        const description = inlineDoc?.trim() || precedingComment(lines, i);
+        const recipe = followingLines(lines, i, line => line.startsWith('\t'))
+            .map(recipeLine => recipeLine.trim().replace(/^[@-]+/, ''));
+        const command = recipe.slice(0, MAX_RECIPE_LINES).join(' && ') + (recipe.length > MAX_RECIPE_LINES ? ' && …' : '');
+
+        for (const name of match[1].split(/\s+/)) {
+            const looksLikeFile = /[./]/.test(name) && !phony.has(name);
+            if (looksLikeFile || seen.has(name)) {
+                continue;
+            }
+            seen.add(name);
+            scripts.push({
+                name,
+                command: command || prerequisites.replace(/;.*$/, '').trim(),
+                source: 'make',
+                invocation: `make ${name}`,
+                description,
+                manifest
+            });
+        }
+    });
+
+    return scripts;
+}
+
+/**
+ * just recipes, skipping private ones (leading "_" or [private]). Parameters
+ * appear in the invocation as <required> and [optional].
+ */
+function parseJustfile(content: string, manifest: string): ProjectScript[] {
+    const lines = content.split(/\r?\n/);
+    const scripts: ProjectScript[] = [];
+
+    lines.forEach((line, i) => {
+        const match = line.match(/^@?([A-Za-z_][\w-]*)((?:[ \t]+[^:]*?)?)[ \t]*:(?!=)(.*)$/);
+        if (!match || /^(set|alias|export|import|mod)\b/.test(line)) {
+            return;
+        }
+
+        const attributes: string[] = [];
+        for (let j = i - 1; j >= 0 && /^\s*\[.*\]\s*$/.test(lines[j]); j--) {
+            attributes.unshift(lines[j].trim());
+        }
+        if (match[1].startsWith('_') || attributes.some(attribute => /\bprivate\b/.test(attribute))) {
+            return;
+        }
+
+        const docAttribute = attributes.map(attribute => attribute.match(/doc\(\s*['"](.*)['"]\s*\)/)?.[1]).find(Boolean);
+        const parameters = (match[2].match(/[$+*]?[A-Za-z_][\w-]*(?:=(?:'[^']*'|"[^"]*"|\S+))?/g) ?? []).map(parameter => {
+            const name = parameter.replace(/^[$+*]/, '').split('=')[0];
+            const variadic = /^[+*]/.test(parameter) ? '...' : '';
+            return parameter.includes('=') || parameter.startsWith('*') ? `[${name}]${variadic}` : `<${name}>${variadic}`;
+        });
+        const recipe = followingLines(lines, i, line => /^[ \t]+\S/.test(line)).map(recipeLine => recipeLine.trim().replace(/^[@-]+/, ''));
+
+        scripts.push({
+            name: match[1],
+            command: recipe.slice(0, MAX_RECIPE_LINES).join(' && ') + (recipe.length > MAX_RECIPE_LINES ? ' && …' : '') || match[3].trim(),
+            source: 'just',
+            invocation: ['just', match[1], ...parameters].join(' '),
+            description: docAttribute ?? precedingComment(lines, i - attributes.length),
+            manifest
+        });
+    });
+
+    return scripts;
+}
+
+/** A go-task command: a shell line, or an object running a command or another task */
+type TaskfileCommand = string | { cmd?: string; task?: string } | null;
+
+/** A go-task task: a single command, a list of commands, or a full definition */
+type TaskfileTask = string | TaskfileCommand[] | {
+    cmd?: string;
+    cmds?: TaskfileCommand[];
+    deps?: (string | { task?: string } | null)[];
+    desc?: string;
+    summary?: string;
+    internal?: boolean;
+} | null;
+
+/**
+ * Tasks of a go-task Taskfile, skipping internal ones
+ */
+function parseTaskfile(content: string, manifest: string): ProjectScript[] {
+    const tasks: Record<string, TaskfileTask> = parseYaml(content)?.tasks ?? {};
+    const scripts: ProjectScript[] = [];
+
+    for (const [name, task] of Object.entries(tasks)) {
+        const definition = typeof task === 'object' && task !== null && !Array.isArray(task) ? task : {};
+        if (definition.internal) {
+            continue;
+        }
+        const commands = typeof task === 'string' ? [task]
+            : Array.isArray(task) ? task
+            : Array.isArray(definition.cmds) ? definition.cmds
+            : definition.cmd ? [definition.cmd] : [];
+        const command = commands.map(describeTaskCommand).filter(Boolean).join(' && ');
+        const deps = (Array.isArray(definition.deps) ? definition.deps : [])
+            .map(dep => typeof dep === 'object' && dep !== null ? dep.task : dep)
+            .filter((dep): dep is string => typeof dep === 'string');
+
+        scripts.push({
+            name,
+            command: command || (deps.length > 0 ? `deps: ${deps.join(', ')}` : ''),
+            source: 'task',
+            invocation: `task ${name}`,
+            description: typeof definition.desc === 'string' ? definition.desc : typeof definition.summary === 'string' ? definition.summary.trim().split('\n')[0] : undefined,
+            manifest
+        });
+    }
+
+    return scripts;
+}
+
+function describeTaskCommand(item: TaskfileCommand): string {
+    if (typeof item === 'string') {
+        return item;
+    }
+    if (typeof item !== 'object' || item === null) {
+        return '';
+    }
+    return item.cmd ?? (item.task ? `task ${item.task}` : '');
+}
+
+/**
+ * Console scripts of PEP 621 and Poetry; they run by name once installed
+ */
+function parsePyprojectScripts(content: string, manifest: string): ProjectScript[] {
+    const data = TOML.parse(content) as Record<string, any>;
+    const tables = [data.project?.scripts, data.project?.['gui-scripts'], data.tool?.poetry?.scripts];
+    const scripts = new Map<string, ProjectScript>();
+
+    for (const table of tables) {
+        for (const [name, target] of Object.entries<any>(table ?? {})) {
+            const command = typeof target === 'string' ? target : target?.reference ?? target?.callable;
+            if (typeof command === 'string' && !scripts.has(name)) {
+                scripts.set(name, { name, command, source: 'python', invocation: name, manifest });
+            }
+        }
+    }
+
+    return Array.from(scripts.values());
+}
+
+/**
+ * Binaries declared with [[bin]]; Cargo's default path is src/bin/<name>.rs
+ */
+function parseCargoBins(content: string, manifest: string): ProjectScript[] {
+    const bins = (TOML.parse(content) as Record<string, any>).bin;
+    if (!Array.isArray(bins)) {
+        return [];
+    }
+
+    return bins
+        .filter(bin => typeof bin?.name === 'string')
+        .map(bin => ({
+            name: bin.name,
+            command: typeof bin.path === 'string' ? bin.path : `src/bin/${bin.name}.rs`,
+            source: 'cargo' as const,
+            invocation: `cargo run --bin ${bin.name}`,
+            manifest
+        }));
+}
+
+/**
+ * Text of the comment lines directly above a line, without the "#" markers
+ */
+function precedingComment(lines: string[], index: number): string | undefined {
+    const comments: string[] = [];
+    for (let i = index - 1; i >= 0 && /^\s*#/.test(lines[i]); i--) {
+        comments.unshift(lines[i].replace(/^\s*#+\s?/, '').trim());
+    }
+    const text = comments.filter(Boolean).join(' ');
+    return text || undefined;
+}
+
+/**
+ * Lines after `index` while they satisfy `belongs`, skipping blank lines inside the block
+ */
+function followingLines(lines: string[], index: number, belongs: (line: string) => boolean): string[] {
+    const block: string[] = [];
+    for (let i = index + 1; i < lines.length; i++) {
+        if (belongs(lines[i])) {
+            block.push(lines[i]);
+        } else if (lines[i].trim() !== '') {
+            break;
+        } else {
+            const next = lines.slice(i + 1).find(line => line.trim() !== '');
+            if (next === undefined || !belongs(next)) {
+                break;
+            }
+        }
+    }
+    return block;
+}
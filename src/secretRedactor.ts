@@ -0,0 +1,286 @@
+// secretRedactor.ts - Replace secrets and personal data in file contents before they leave the machine
+
+import { CustomRedactionPattern, FileInfo, RedactionFinding, RedactionReport } from './types';
+
+/**
+ * A named pattern for one kind of secret. When the pattern has a `secret`
+ * group only that part of the match is replaced, otherwise the whole match.
+ */
+interface SecretDetector {
+    id: string;
+    pattern: RegExp;
+    validate?: (value: string) => boolean;
+}
+
+const PLACEHOLDER_VALUE = /^(\*+|x+|\.{3,}|<[^>]*>|\{\{.*\}\}|[$%].*|your[-_ ].*|changeme|change[-_]me|example|placeholder|secret|password|passwd|token|null|undefined|none|true|false|test|dummy)$/i;
+const EXAMPLE_EMAIL_DOMAIN = /(^|\.)(example\.(com|org|net)|test|localhost|invalid)$/i;
+
+const MIN_ENTROPY_LENGTH = 20;
+const MIN_ENTROPY = 4.0;
+const MIN_HEX_ENTROPY = 3.0;
+
+const BUILTIN_DETECTORS: SecretDetector[] = [
+    {
+        id: 'private-key',
+        pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g
+    },
+    {
+        id: 'aws-access-key',
+        pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|AIPA|ANPA|ANVA)[0-9A-Z]{16}\b/g
+    },
+    {
+        id: 'aws-secret-key',
+        pattern: /\baws_?secret_?access_?key['"]?\s*[:=]\s*['"]?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi
+    },
+    {
+        id: 'github-token',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g
+    },
+    {
+        id: 'gitlab-token',
+        pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g
+    },
+    {
+        id: 'slack-token',
+        pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g
+    },
+    {
+        id: 'slack-webhook',
+        pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9_/]+/g
+    },
+    {
+        id: 'stripe-key',
+        pattern: /\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}/g
+    },
+    {
+        id: 'google-api-key',
+        pattern: /\bAIza[0-9A-Za-z_-]{35}/g
+    },
+    {
+        id: 'anthropic-api-key',
+        pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g
+    },
+    {
+        id: 'openai-api-key',
+        pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g
+    },
+    {
+        id: 'perplexity-api-key',
+        pattern: /\bpplx-[A-Za-z0-9]{20,}/g
+    },
+    {
+        id: 'npm-token',
+        pattern: /\bnpm_[A-Za-z0-9]{36}\b/g
+    },
+    {
+        id: 'jwt',
+        pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g
+    },
+    {
+        id: 'authorization-header',
+        pattern: /\b(?:Bearer|Basic)\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/g
+    },
+    {
+        id: 'connection-string',
+        pattern: /\b[a-zA-Z][a-zA-Z0-9+.-]*:\/\/[^\s:@/'"`]+:(?<secret>[^\s@/'"`]+)@[^\s'"`]+/g,
+        validate: value => !PLACEHOLDER_VALUE.test(value)
+    },
+    {
+        id: 'connection-string',
+        pattern: /\b(?:Password|Pwd)=(?<secret>[^;'"\s]+)(?=;|['"]|$)/gim,
+        validate: value => !PLACEHOLDER_VALUE.test(value)
+    },
+    {
+        id: 'credential-assignment',
+        pattern: /[\w.-]*(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret|private[_-]?key)[\w.-]*['"]?\s*[:=]\s*(['"])(?<secret>[^'"\s]{4,})\1/gi,
+        validate: value => !PLACEHOLDER_VALUE.test(value)
+    },
+    {
+        id: 'email',
+        pattern: /\b[A-Za-z0-9._%+-]+@(?:[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})\b/g,
+        validate: value => !/^git@/i.test(value) && !EXAMPLE_EMAIL_DOMAIN.test(value.split('@')[1])
+    },
+    {
+        id: 'high-entropy-string',
+        pattern: /(['"`])(?<secret>[A-Za-z0-9+/=_-]{20,})\1/g,
+        validate: isHighEntropy
+    }
+];
+
+/** Ids of the built-in detectors, for `readmeGenerator.redaction.disabledDetectors` */
+export const BUILTIN_DETECTOR_IDS = Array.from(new Set(BUILTIN_DETECTORS.map(detector => detector.id)));
+
+/**
+ * SecretRedactor - Finds API keys, tokens, private keys, credentials in
+ * connection strings, email addresses and high-entropy strings, and replaces
+ * them with `[REDACTED:<detector>]` placeholders
+ */
+export class SecretRedactor {
+    private readonly detectors: SecretDetector[];
+    private readonly errors: string[] = [];
+
+    constructor(options: { customPatterns?: CustomRedactionPattern[]; disabledDetectors?: string[] } = {}) {
+        const disabled = new Set(options.disabledDetectors ?? []);
+        this.detectors = BUILTIN_DETECTORS
+            .filter(detector => !disabled.has(detector.id))
+            .map(detector => ({ ...detector, pattern: withIndices(detector.pattern) }));
+
+        for (const custom of options.customPatterns ?? []) {
+            try {
+                // Custom detectors go first so they win over the built-in ones on overlapping matches
+                const pattern = withIndices(new RegExp(custom.pattern, Array.from(new Set(`${custom.flags ?? ''}g`)).join('')));
+                this.detectors.unshift({ id: custom.name || 'custom', pattern });
+            } catch (error) {
+                const message = `Invalid redaction pattern "${custom.name}": ${error instanceof Error ? error.message : String(error)}`;
+                console.warn(`⚠️ ${message}`);
+                this.errors.push(message);
+            }
+        }
+    }
+
+    /**
+     * Redact every file in place and report what was replaced
+     */
+    public redactFiles(fileInfos: FileInfo[]): RedactionReport {
+        const findings: RedactionFinding[] = [];
+        let filesAffected = 0;
+
+        for (const file of fileInfos) {
+            const result = this.redact(file.content, file.path);
+            if (result.findings.length > 0) {
+                file.content = result.content;
+                findings.push(...result.findings);
+                filesAffected++;
+            }
+        }
+
+        if (findings.length > 0) {
+            console.log(`🔒 Redacted ${findings.length} values in ${filesAffected} files`);
+        }
+        return { findings, filesAffected, errors: [...this.errors] };
+    }
+
+    /**
+     * Replace the secrets in one file's content
+     */
+    public redact(content: string, file: string): { content: string; findings: RedactionFinding[] } {
+        const matches: { start: number; end: number; priority: number; detector: string }[] = [];
+
+        this.detectors.forEach((detector, priority) => {
+            for (const match of content.matchAll(detector.pattern)) {
+                const [start, end] = match.indices?.groups?.secret ?? [match.index!, match.index! + match[0].length];
+                const value = content.substring(start, end);
+                if (value && (!detector.validate || detector.validate(value))) {
+                    matches.push({ start, end, priority, detector: detector.id });
+                }
+            }
+        });
+
+        // Earliest match wins; on ties the more specific (earlier) detector, then the longer match
+        matches.sort((a, b) => a.start - b.start || a.priority - b.priority || b.end - a.end);
+
+        const findings: RedactionFinding[] = [];
+        let output = '';
+        let position = 0;
+        for (const match of matches) {
+            if (match.start < position) {
+                continue;
+            }
+            output += content.substring(position, match.start) + `[REDACTED:${match.detector}]`;
+            findings.push({
+                file,
+                line: countLines(content, match.start),
+                detector: match.detector,
+                preview: maskValue(content.substring(match.start, match.end))
+            });
+            position = match.end;
+        }
+
+        return findings.length > 0
+            ? { content: output + content.substring(position), findings }
+            : { content, findings };
+    }
+}
+
+/**
+ * One-line summary such as "3 values in 2 files (email ×2, github-token ×1)"
+ */
+export function summarizeRedactions(report: RedactionReport): string {
+    const counts = new Map<string, number>();
+    for (const finding of report.findings) {
+        counts.set(finding.detector, (counts.get(finding.detector) ?? 0) + 1);
+    }
+    const byDetector = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([detector, count]) => `${detector} ×${count}`);
+
+    return `${report.findings.length} values in ${report.filesAffected} files (${byDetector.join(', ')})`;
+}
+
+/**
+ * Markdown report of every redacted value, for review before generation
+ */
+export function formatRedactionReport(report: RedactionReport): string {
+    const lines = ['# Redaction Report', ''];
+
+    if (report.findings.length === 0) {
+        lines.push('Nothing was redacted; no secrets or personal data were detected.');
+    } else {
+        lines.push(`Redacted ${summarizeRedactions(report)} before sending code to the AI provider.`, '');
+        lines.push('| File | Line | Detector | Value |', '|------|------|----------|-------|');
+        for (const finding of report.findings) {
+            lines.push(`| ${finding.file} | ${finding.line} | ${finding.detector} | \`${finding.preview}\` |`);
+        }
+    }
+
+    if (report.errors.length > 0) {
+        lines.push('', '## Skipped custom patterns', '', ...report.errors.map(error => `- ${error}`));
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Long quoted tokens that mix letters and digits and look random
+ */
+function isHighEntropy(value: string): boolean {
+    if (value.length < MIN_ENTROPY_LENGTH || !/\d/.test(value) || !/[A-Za-z]/.test(value)) {
+        return false;
+    }
+    const threshold = /^[0-9a-f]+$/i.test(value) ? MIN_HEX_ENTROPY : MIN_ENTROPY;
+    return shannonEntropy(value) >= threshold;
+}
+
+function shannonEntropy(value: string): number {
+    const frequencies = new Map<string, number>();
+    for (const char of value) {
+        frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of frequencies.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+/**
+ * Copy of a pattern that reports match indices, so a `secret` group can be located
+ */
+function withIndices(pattern: RegExp): RegExp {
+    return pattern.hasIndices ? pattern : new RegExp(pattern.source, `${pattern.flags}d`);
+}
+
+function countLines(content: string, offset: number): number {
+    let line = 1;
+    for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) {
+        line++;
+    }
+    return line;
+}
+
+function maskValue(value: string): string {
+    const singleLine = value.split(/\r?\n/)[0];
+    return value.length > 12 ? `${singleLine.substring(0, 4)}… (${value.length} chars)` : `… (${value.length} chars)`;
+}
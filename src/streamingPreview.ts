@@ -0,0 +1,118 @@
+// streamingPreview.ts - Untitled markdown document that README text is streamed into
+
+import * as vscode from 'vscode';
+
+/**
+ * StreamingPreview - Appends generated text to an open markdown document as it arrives
+ */
+export class StreamingPreview {
+    private readonly document: vscode.TextDocument;
+    private pendingText: string = '';
+    private flushTimer: NodeJS.Timeout | undefined;
+    private editQueue: Promise<void> = Promise.resolve();
+    private readonly flushIntervalMs: number = 100;
+
+    private constructor(document: vscode.TextDocument) {
+        this.document = document;
+    }
+
+    /**
+     * Open an empty markdown document and show it beside the current editor
+     */
+    static async open(): Promise<StreamingPreview> {
+        const document = await vscode.workspace.openTextDocument({
+            content: '',
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(document, { preview: false });
+
+        console.log('👀 Streaming README preview opened');
+        return new StreamingPreview(document);
+    }
+
+    /**
+     * Queue text to be appended. Deltas are batched so the editor is not
+     * hit with one edit per token.
+     */
+    public append(text: string): void {
+        this.pendingText += text;
+
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flushTimer = undefined;
+                this.flushPending();
+            }, this.flushIntervalMs);
+        }
+    }
+
+    /**
+     * Replace the whole document, e.g. with the final assembled README
+     */
+    public async replaceAll(content: string): Promise<void> {
+        this.cancelTimer();
+        this.pendingText = '';
+
+        await this.enqueue(async () => {
+            const edit = new vscode.WorkspaceEdit();
+            const fullRange = new vscode.Range(
+                this.document.positionAt(0),
+                this.document.positionAt(this.document.getText().length)
+            );
+            edit.replace(this.document.uri, fullRange, content);
+            await vscode.workspace.applyEdit(edit);
+        });
+    }
+
+    /**
+     * Wait until every queued append has been written to the document
+     */
+    public async flush(): Promise<void> {
+        this.cancelTimer();
+        this.flushPending();
+        await this.editQueue;
+    }
+
+    /**
+     * Bring the preview document to the front
+     */
+    public async reveal(): Promise<void> {
+        await vscode.window.showTextDocument(this.document, { preview: false });
+    }
+
+    public getText(): string {
+        return this.document.getText();
+    }
+
+    public isClosed(): boolean {
+        return this.document.isClosed;
+    }
+
+    private flushPending(): void {
+        if (!this.pendingText) {
+            return;
+        }
+
+        const text = this.pendingText;
+        this.pendingText = '';
+
+        this.enqueue(async () => {
+            const edit = new vscode.WorkspaceEdit();
+            edit.insert(this.document.uri, this.document.positionAt(this.document.getText().length), text);
+            await vscode.workspace.applyEdit(edit);
+        });
+    }
+
+    private enqueue(operation: () => Promise<void>): Promise<void> {
+        this.editQueue = this.editQueue
+            .then(() => this.document.isClosed ? undefined : operation())
+            .catch(error => console.error('❌ Failed to update README preview:', error));
+        return this.editQueue;
+    }
+
+    private cancelTimer(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+    }
+}
@@ -0,0 +1,239 @@
+// structuredReadme.ts - Validate, repair and render README sections returned as JSON
+
+import { createReadmeSection, getSectionId, renderReadmeSections } from './readmeSections';
+import { ReadmeSection, StructuredReadmeResult } from './types';
+
+/**
+ * JSON schema the model is asked to follow. `validateSections` implements the same rules.
+ */
+export const README_SECTIONS_SCHEMA = {
+    type: 'object',
+    required: ['sections'],
+    properties: {
+        sections: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                required: ['title', 'content', 'order'],
+                properties: {
+                    title: { type: 'string', minLength: 1, description: 'Section heading without leading #' },
+                    content: { type: 'string', description: 'Markdown body of the section, without its heading' },
+                    order: { type: 'number', description: 'Position of the section in the README, starting at 1' }
+                }
+            }
+        }
+    }
+};
+
+const FENCE_PATTERN = /^[ \t]{0,3}(```+|~~~+)/;
+
+/**
+ * Parse a model response into README sections. Syntax problems that models
+ * commonly produce are repaired; anything else is reported in `errors` so the
+ * caller can ask the model again.
+ */
+export function parseStructuredReadme(response: string): StructuredReadmeResult {
+    const repairs: string[] = [];
+    const json = extractJson(response);
+    if (json === undefined) {
+        return { errors: ['Response does not contain a JSON object'], repairs };
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        const repaired = repairJson(json);
+        try {
+            data = JSON.parse(repaired);
+            repairs.push('Fixed invalid JSON syntax');
+        } catch (error) {
+            return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`], repairs };
+        }
+    }
+
+    return validateSections(data, repairs);
+}
+
+/**
+ * Render sections in a fixed layout: the project title, then every section
+ * as a level-2 heading in `order`. Headings inside section bodies are demoted
+ * so the document outline only comes from the JSON.
+ */
+export function renderStructuredReadme(projectTitle: string, sections: ReadmeSection[]): string {
+    const ordered = [...sections].sort((a, b) => a.order - b.order);
+    const unique: ReadmeSection[] = [];
+
+    for (const section of ordered) {
+        const duplicate = unique.find(other => getSectionId(other.title) === getSectionId(section.title));
+        if (duplicate) {
+            duplicate.content = `${duplicate.content.trim()}\n\n${section.content.trim()}`;
+        } else {
+            unique.push({ ...section });
+        }
+    }
+
+    const rendered = unique
+        .filter(section => section.content.trim())
+        .map((section, index) => createReadmeSection(section.title.trim(), normalizeBody(section.content, section.title), index + 1));
+
+    return `# ${projectTitle}\n\n${renderReadmeSections(rendered)}`;
+}
+
+function validateSections(data: unknown, repairs: string[]): StructuredReadmeResult {
+    let items: unknown;
+    if (Array.isArray(data)) {
+        items = data;
+        repairs.push('Wrapped top-level array in { "sections": [...] }');
+    } else if (isRecord(data)) {
+        items = data.sections;
+    }
+
+    if (!Array.isArray(items)) {
+        return { errors: ['"sections" must be an array'], repairs };
+    }
+    if (items.length === 0) {
+        return { errors: ['"sections" must contain at least one section'], repairs };
+    }
+
+    const errors: string[] = [];
+    const sections: ReadmeSection[] = [];
+
+    items.forEach((item, index) => {
+        const path = `sections[${index}]`;
+        if (!isRecord(item)) {
+            errors.push(`${path}: expected an object`);
+            return;
+        }
+
+        if (typeof item.title !== 'string' || !item.title.trim()) {
+            errors.push(`${path}.title: expected a non-empty string`);
+        }
+        if (typeof item.content !== 'string') {
+            errors.push(`${path}.content: expected a string`);
+        }
+
+        let order = item.order;
+        if (typeof order === 'string' && order.trim() && Number.isFinite(Number(order))) {
+            order = Number(order);
+            repairs.push(`${path}.order: converted string to number`);
+        } else if (order === undefined) {
+            order = index + 1;
+            repairs.push(`${path}.order: missing, used position ${index + 1}`);
+        }
+        if (typeof order !== 'number' || !Number.isFinite(order)) {
+            errors.push(`${path}.order: expected a number`);
+        }
+
+        if (typeof item.title === 'string' && typeof item.content === 'string' && typeof order === 'number') {
+            sections.push({ title: item.title.replace(/^#+\s*/, '').trim(), content: item.content, order });
+        }
+    });
+
+    return errors.length > 0 ? { errors, repairs } : { sections, errors, repairs };
+}
+
+/**
+ * Take the JSON out of a response that may wrap it in prose or a code fence
+ */
+function extractJson(response: string): string | undefined {
+    const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+    const text = fenced ? fenced[1] : response;
+
+    const start = text.search(/[{[]/);
+    if (start < 0) {
+        return undefined;
+    }
+
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    return end > start ? text.slice(start, end + 1) : text.slice(start);
+}
+
+/**
+ * Fix what models usually get wrong: smart quotes, raw line breaks inside
+ * strings, trailing commas and output cut off before the closing brackets
+ */
+function repairJson(json: string): string {
+    const closers: string[] = [];
+    let output = '';
+    let stringQuote: string | undefined;
+    let escaped = false;
+
+    for (const char of json) {
+        if (stringQuote) {
+            if (escaped) {
+                escaped = false;
+            } else if (char === '\\') {
+                escaped = true;
+            } else if (char === '"' || (stringQuote === '“' && char === '”')) {
+                stringQuote = undefined;
+                output += '"';
+                continue;
+            } else if (char === '\n') {
+                output += '\\n';
+                continue;
+            } else if (char === '\r') {
+                continue;
+            } else if (char === '\t') {
+                output += '\\t';
+                continue;
+            }
+            output += char;
+            continue;
+        }
+
+        if (char === '"' || char === '“') {
+            stringQuote = char;
+            output += '"';
+            continue;
+        } else if (char === '{') {
+            closers.push('}');
+        } else if (char === '[') {
+            closers.push(']');
+        } else if (char === '}' || char === ']') {
+            output = output.replace(/,\s*$/, '');
+            closers.pop();
+        }
+        output += char;
+    }
+
+    if (stringQuote) {
+        output += escaped ? '\\"' : '"';
+    }
+    while (closers.length > 0) {
+        output = output.replace(/,\s*$/, '') + closers.pop();
+    }
+
+    return output;
+}
+
+/**
+ * Drop a repeated section heading and demote H1/H2 headings to H3
+ */
+function normalizeBody(content: string, title: string): string {
+    const lines = content.trim().split('\n');
+    const first = lines[0]?.match(/^#{1,6}\s+(.*?)\s*$/);
+    if (first && getSectionId(first[1]) === getSectionId(title)) {
+        lines.shift();
+    }
+
+    let openFence: string | undefined;
+    return lines.map(line => {
+        const fence = line.match(FENCE_PATTERN);
+        if (fence) {
+            const marker = fence[1][0];
+            if (!openFence) {
+                openFence = marker;
+            } else if (openFence === marker) {
+                openFence = undefined;
+            }
+            return line;
+        }
+        return !openFence && /^#{1,2}\s/.test(line) ? line.replace(/^#{1,2}/, '###') : line;
+    }).join('\n').trim();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
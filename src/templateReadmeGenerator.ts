@@ -0,0 +1,405 @@
+// templateReadmeGenerator.ts - Deterministic README generation without any AI call
+
+import { CodebaseAnalysis, Dependency } from './types';
+
+/**
+ * TemplateReadmeGenerator - Builds a complete README purely from the codebase analysis
+ */
+export class TemplateReadmeGenerator {
+    private readonly maxListedItems: number = 30;
+
+    /**
+     * Generate the full README document
+     */
+    public generate(analysis: CodebaseAnalysis): string {
+        const sections = [
+            this.renderHeader(analysis),
+            this.renderOverview(analysis),
+            this.withHeading('Packages', this.renderPackageIndex(analysis)),
+            this.renderRequirements(analysis),
+            this.renderInstallation(analysis),
+            this.renderUsage(analysis),
+            this.withHeading('Command Reference', this.renderCommandReference(analysis)),
+            this.withHeading('Available Scripts', this.renderScripts(analysis)),
+            this.withHeading('Configuration', this.renderConfiguration(analysis)),
+            this.withHeading('API Reference', this.renderApiReference(analysis)),
+            this.withHeading('Public API', this.renderPublicApi(analysis)),
+            this.renderProjectStructure(analysis),
+            this.renderTesting(analysis),
+            this.renderLicense(analysis)
+        ];
+
+        return sections.filter(section => section.length > 0).join('\n\n');
+    }
+
+    /**
+     * Sections derived entirely from the analysis. AI-written READMEs get
+     * these verbatim in place of the model's version.
+     */
+    public renderFactSections(analysis: CodebaseAnalysis): { title: string; body: string }[] {
+        const sections = [
+            { title: 'Packages', body: this.renderPackageIndex(analysis) },
+            { title: 'Command Reference', body: this.renderCommandReference(analysis) },
+            { title: 'Available Scripts', body: this.renderScripts(analysis) },
+            { title: 'Configuration', body: this.renderConfiguration(analysis) },
+            { title: 'API Reference', body: this.renderApiReference(analysis) },
+            { title: 'Public API', body: this.renderPublicApi(analysis) }
+        ];
+        return sections.filter(section => section.body.length > 0);
+    }
+
+    private renderHeader(analysis: CodebaseAnalysis): string {
+        const { metadata, projectType, languages } = analysis;
+        let header = `# ${metadata.name}`;
+
+        if (metadata.version) {
+            header += `\n\n**Version:** ${metadata.version}`;
+        }
+
+        const description = metadata.description ||
+            `A ${projectType}${languages.length > 0 ? ` written in ${this.joinList(languages.slice(0, 3))}` : ''}.`;
+
+        return `${header}\n\n${description}`;
+    }
+
+    private renderOverview(analysis: CodebaseAnalysis): string {
+        const lines = [
+            '## Overview',
+            '',
+            `- **Project type:** ${analysis.projectType}`,
+            `- **Languages:** ${analysis.languages.length > 0 ? analysis.languages.join(', ') : 'Not detected'}`,
+            `- **Files:** ${analysis.totalFiles}`
+        ];
+
+        if (analysis.frameworks.length > 0) {
+            lines.push(`- **Frameworks:** ${analysis.frameworks.join(', ')}`);
+        }
+        const tooling: [string, string][] = [['build-tool', 'Build tools'], ['test-runner', 'Testing'], ['orm', 'Database access']];
+        for (const [category, label] of tooling) {
+            const names = analysis.technologies.filter(technology => technology.category === category).map(technology => technology.name);
+            if (names.length > 0) {
+                lines.push(`- **${label}:** ${names.join(', ')}`);
+            }
+        }
+        if (analysis.metadata.engines) {
+            lines.push(`- **Requires:** ${Object.entries(analysis.metadata.engines).map(([engine, version]) => `${engine} ${version}`).join(', ')}`);
+        }
+        if (analysis.metadata.repository) {
+            lines.push(`- **Repository:** ${analysis.metadata.repository}`);
+        }
+        if (analysis.metadata.homepage) {
+            lines.push(`- **Homepage:** ${analysis.metadata.homepage}`);
+        }
+
+        return lines.join('\n');
+    }
+
+    private renderPackageIndex(analysis: CodebaseAnalysis): string {
+        if (!analysis.monorepo) {
+            return '';
+        }
+
+        const rows = analysis.monorepo.packages.map(pkg => {
+            const description = pkg.description ?? pkg.analysis?.metadata.description ?? '';
+            return `| ${this.escapeTableCell(pkg.name)} | [${pkg.path}](${pkg.path}) | ${pkg.analysis?.projectType ?? ''} | ${this.escapeTableCell(description)} |`;
+        });
+        return `Managed with ${this.joinList(analysis.monorepo.tools)}.\n\n| Package | Path | Type | Description |\n| --- | --- | --- | --- |\n${rows.join('\n')}`;
+    }
+
+    private renderRequirements(analysis: CodebaseAnalysis): string {
+        const runtime = analysis.dependencyDetails.filter(dependency => dependency.scope !== 'dev');
+        const development = analysis.dependencyDetails.filter(dependency => dependency.scope === 'dev');
+        if (runtime.length === 0 && development.length === 0) {
+            return '';
+        }
+
+        const parts = ['## Dependencies'];
+        if (runtime.length > 0) {
+            parts.push(`### Runtime\n\n${this.renderDependencyList(runtime)}`);
+        }
+        if (development.length > 0) {
+            parts.push(`### Development\n\n${this.renderDependencyList(development)}`);
+        }
+
+        return parts.join('\n\n');
+    }
+
+    private renderDependencyList(dependencies: Dependency[]): string {
+        const listed = dependencies.slice(0, this.maxListedItems).map(dependency => {
+            const version = dependency.version ? ` ${dependency.version}` : '';
+            const note = dependency.scope === 'peer' || dependency.scope === 'optional' ? ` (${dependency.scope})` : '';
+            return `- \`${dependency.name}${dependency.extras ? `[${dependency.extras.join(',')}]` : ''}\`${version}${note}`;
+        });
+
+        if (dependencies.length > this.maxListedItems) {
+            listed.push(`- ...and ${dependencies.length - this.maxListedItems} more`);
+        }
+        return listed.join('\n');
+    }
+
+    private renderInstallation(analysis: CodebaseAnalysis): string {
+        const commands = this.getInstallCommands(analysis);
+        if (commands.length === 0) {
+            return '';
+        }
+
+        return `## Installation\n\n\`\`\`bash\n${commands.join('\n')}\n\`\`\``;
+    }
+
+    /**
+     * Derive install commands from the manifests present in the project
+     */
+    private getInstallCommands(analysis: CodebaseAnalysis): string[] {
+        const files = new Set(analysis.structure.configFiles.map(file => file.toLowerCase()));
+        const packageManager = this.getNodePackageManager(analysis);
+
+        if (files.has('package.json')) {
+            return [`${packageManager} install`];
+        }
+        if (files.has('requirements.txt')) {
+            return ['pip install -r requirements.txt'];
+        }
+        if (files.has('pyproject.toml') || files.has('setup.py')) {
+            return ['pip install .'];
+        }
+        if (files.has('go.mod')) {
+            return ['go mod download', 'go build ./...'];
+        }
+        if (files.has('cargo.toml')) {
+            return ['cargo build --release'];
+        }
+        if (files.has('pom.xml')) {
+            return ['mvn install'];
+        }
+        if (files.has('build.gradle') || files.has('build.gradle.kts')) {
+            return ['./gradlew build'];
+        }
+        if (files.has('composer.json')) {
+            return ['composer install'];
+        }
+        if (files.has('gemfile')) {
+            return ['bundle install'];
+        }
+
+        return [];
+    }
+
+    private getNodePackageManager(analysis: CodebaseAnalysis): string {
+        const declared = analysis.metadata.packageManager;
+        if (declared) {
+            return declared.split('@')[0];
+        }
+        return 'npm';
+    }
+
+    private renderCommandReference(analysis: CodebaseAnalysis): string {
+        const cli = analysis.cli;
+        if (!cli) {
+            return '';
+        }
+
+        const blocks = cli.commands.slice(0, this.maxListedItems).map(command => {
+            const positionals = command.options.filter(option => option.positional).map(option => option.flags);
+            const hasFlags = command.options.some(option => !option.positional);
+            const usage = [cli.program, command.name, ...positionals, hasFlags ? '[options]' : ''].filter(Boolean).join(' ');
+            const parts = [`### \`${usage}\``];
+            if (command.description) {
+                parts.push(command.description);
+            }
+            if (command.options.length > 0) {
+                const rows = command.options.map(option => {
+                    const description = `${option.description ?? ''}${option.required && !option.positional ? ' (required)' : ''}`.trim();
+                    const fallback = option.defaultValue ? `\`${this.escapeTableCell(option.defaultValue)}\`` : '';
+                    return `| \`${this.escapeTableCell(option.flags)}\` | ${this.escapeTableCell(description)} | ${fallback} |`;
+                });
+                parts.push(`| Argument / Option | Description | Default |\n| --- | --- | --- |\n${rows.join('\n')}`);
+            }
+            return parts.join('\n\n');
+        });
+        if (cli.commands.length > this.maxListedItems) {
+            blocks.push(`...and ${cli.commands.length - this.maxListedItems} more commands.`);
+        }
+        return blocks.join('\n\n');
+    }
+
+    private renderScripts(analysis: CodebaseAnalysis): string {
+        if (analysis.scripts.length === 0) {
+            return '';
+        }
+
+        const rows = analysis.scripts.slice(0, this.maxListedItems).map(script => {
+            const runs = script.description ?? `\`${this.escapeTableCell(script.command)}\``;
+            return `| \`${this.escapeTableCell(script.invocation)}\` | ${this.escapeTableCell(runs)} | ${script.manifest} |`;
+        });
+        if (analysis.scripts.length > this.maxListedItems) {
+            rows.push(`| ...and ${analysis.scripts.length - this.maxListedItems} more | | |`);
+        }
+        return `| Command | Description | Defined in |\n| --- | --- | --- |\n${rows.join('\n')}`;
+    }
+
+    private renderConfiguration(analysis: CodebaseAnalysis): string {
+        const variables = analysis.environmentVariables;
+        if (variables.length === 0) {
+            return '';
+        }
+
+        const rows = variables.slice(0, this.maxListedItems).map(variable => {
+            const fallback = variable.defaultValue ? `\`${this.escapeTableCell(variable.defaultValue)}\`` : '';
+            const description = variable.description ?? (variable.example ? `e.g. \`${this.escapeTableCell(variable.example)}\`` : '');
+            const files = variable.files.slice(0, 3).map(file => `\`${file}\``).join(', ') +
+                (variable.files.length > 3 ? ` and ${variable.files.length - 3} more` : '');
+            return `| \`${variable.name}\` | ${variable.required ? 'Yes' : 'No'} | ${fallback} | ${this.escapeTableCell(description)} | ${files || variable.documentedIn || ''} |`;
+        });
+        if (variables.length > this.maxListedItems) {
+            rows.push(`| ...and ${variables.length - this.maxListedItems} more | | | | |`);
+        }
+
+        const dotenv = variables.find(variable => variable.documentedIn)?.documentedIn;
+        const intro = dotenv
+            ? `Set these environment variables, for example by copying \`${dotenv}\` to \`.env\`.`
+            : 'Set these environment variables before running the project.';
+        return `${intro}\n\n| Variable | Required | Default | Description | Used in |\n| --- | --- | --- | --- | --- |\n${rows.join('\n')}`;
+    }
+
+    private renderApiReference(analysis: CodebaseAnalysis): string {
+        const routes = analysis.routes;
+        if (routes.length === 0) {
+            return '';
+        }
+
+        const rows = routes.slice(0, this.maxListedItems).map(route => {
+            const handler = route.handler ? `\`${route.handler}\` ` : '';
+            return `| ${route.method} | \`${this.escapeTableCell(route.path)}\` | ${this.escapeTableCell(route.description ?? '')} | ${handler}([${route.file}:${route.line}](${route.file}#L${route.line})) |`;
+        });
+        if (routes.length > this.maxListedItems) {
+            rows.push(`| | ...and ${routes.length - this.maxListedItems} more | | |`);
+        }
+        return `| Method | Path | Description | Handler |\n| --- | --- | --- | --- |\n${rows.join('\n')}`;
+    }
+
+    private renderPublicApi(analysis: CodebaseAnalysis): string {
+        const api = analysis.publicApi;
+        if (!api || api.symbols.length === 0) {
+            return '';
+        }
+
+        const intro = `Exported from ${api.entries.map(entry => `\`${entry}\``).join(', ')}.`;
+        const blocks = api.symbols.map(symbol => {
+            const parts = [`### \`${symbol.name}\`${symbol.deprecated ? ' (deprecated)' : ''}`];
+            if (symbol.description) {
+                parts.push(symbol.description);
+            }
+            parts.push(`\`\`\`ts\n${symbol.signature}\n\`\`\``);
+            parts.push(`Defined in [${symbol.file}:${symbol.line}](${symbol.file}#L${symbol.line}).`);
+            return parts.join('\n\n');
+        });
+        if (api.total > api.symbols.length) {
+            blocks.push(`...and ${api.total - api.symbols.length} more exports.`);
+        }
+        return [intro, ...blocks].join('\n\n');
+    }
+
+    private renderUsage(analysis: CodebaseAnalysis): string {
+        if (analysis.entryPoints.length > 0) {
+            const lines = analysis.entryPoints.map(entry => {
+                if (entry.kind === 'bin') {
+                    return `- **Command** \`${entry.name ?? entry.path}\`: \`${entry.path}\``;
+                }
+                if (entry.kind === 'export') {
+                    return `- **Export** \`${entry.name}\`${entry.condition ? ` (${entry.condition})` : ''}: \`${entry.path}\``;
+                }
+                return `- **${entry.kind === 'types' ? 'Types' : entry.kind === 'module' ? 'ES module' : 'Main'}**: \`${entry.path}\``;
+            });
+            return `## Usage\n\n### Entry Points\n\n${lines.slice(0, this.maxListedItems).join('\n')}`;
+        }
+
+        const entryPoints = analysis.mainFiles.filter(file =>
+            analysis.structure.sourceFiles.includes(file)
+        );
+        if (entryPoints.length === 0) {
+            return '';
+        }
+
+        return `## Usage\n\n### Entry Points\n\n${entryPoints.map(file => `- \`${file}\``).join('\n')}`;
+    }
+
+    private renderProjectStructure(analysis: CodebaseAnalysis): string {
+        const { structure } = analysis;
+        const topLevelDirs = Array.from(new Set(
+            structure.directories.map(dir => dir.split(/[\\/]/)[0])
+        )).sort();
+
+        const lines = ['## Project Structure', ''];
+
+        if (topLevelDirs.length > 0) {
+            lines.push('```');
+            lines.push('.');
+            for (const dir of topLevelDirs.slice(0, this.maxListedItems)) {
+                lines.push(`├── ${dir}/`);
+            }
+            lines.push('```');
+            lines.push('');
+        }
+
+        lines.push('| Category | Files |');
+        lines.push('| --- | --- |');
+        lines.push(`| Source | ${structure.sourceFiles.length} |`);
+        lines.push(`| Tests | ${structure.testFiles.length} |`);
+        lines.push(`| Configuration | ${structure.configFiles.length} |`);
+        lines.push(`| Documentation | ${structure.documentationFiles.length} |`);
+
+        if (structure.importantFiles.length > 0) {
+            lines.push('');
+            lines.push('### Main Files');
+            lines.push('');
+            for (const file of structure.importantFiles.slice(0, this.maxListedItems)) {
+                lines.push(`- \`${file}\``);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    private renderTesting(analysis: CodebaseAnalysis): string {
+        const testScript = analysis.scripts.find(script => script.name === 'test');
+        if (testScript) {
+            return `## Testing\n\n\`\`\`bash\n${testScript.invocation}\n\`\`\``;
+        }
+
+        if (analysis.structure.testFiles.length > 0) {
+            return `## Testing\n\nThe project contains ${analysis.structure.testFiles.length} test file(s).`;
+        }
+
+        return '';
+    }
+
+    private renderLicense(analysis: CodebaseAnalysis): string {
+        if (analysis.metadata.license) {
+            return `## License\n\nThis project is licensed under the ${analysis.metadata.license} license.`;
+        }
+
+        const licenseFile = analysis.structure.documentationFiles.find(file =>
+            /^licen[sc]e/i.test(file)
+        );
+        if (licenseFile) {
+            return `## License\n\nSee [${licenseFile}](${licenseFile}).`;
+        }
+
+        return '';
+    }
+
+    private withHeading(title: string, body: string): string {
+        return body.length > 0 ? `## ${title}\n\n${body}` : '';
+    }
+
+    private joinList(items: string[]): string {
+        if (items.length <= 1) {
+            return items.join('');
+        }
+        return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+    }
+
+    private escapeTableCell(text: string): string {
+        return text.replace(/\|/g, '\\|').replace(/`/g, "'");
+    }
+}
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractPublicApi } from '../apiExtractor';
+import { FileInfo } from '../types';
+
+function file(filePath: string, content: string): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'Unknown', isMainFile: false };
+}
+
+suite('API Extractor Test Suite', () => {
+	test('Follows re-exports from a built entry point back to the sources', () => {
+		const api = extractPublicApi([
+			file('package.json', '{ "main": "./dist/index.js" }'),
+			file('src/index.ts', [
+				"export * from './parser';",
+				"export { Tokenizer as Lexer } from './tokenizer';",
+				"export type { Token } from './tokenizer';",
+				'export const VERSION = \'1.2.0\';',
+				'/** @internal */',
+				'export function debugDump(): void {}'
+			].join('\n')),
+			file('src/parser.ts', [
+				'/**',
+				' * Parse source text.',
+				' * @param text Source to parse',
+				' */',
+				'export function parse(text: string): Node;',
+				'export function parse(text: string, strict: boolean): Node;',
+				'export function parse(text: string, strict?: boolean): Node {',
+				'    return {} as Node;',
+				'}',
+				'',
+				'/** @deprecated Use parse */',
+				'export const parseLoose = async (text: string): Promise<Node> => parse(text);',
+				'',
+				'export interface Node {',
+				'    /** Kind of syntax */',
+				'    kind: string;',
+				'}'
+			].join('\n')),
+			file('src/tokenizer.ts', [
+				'/** Splits text into tokens */',
+				'export class Tokenizer<T extends string = string> {',
+				'    private position = 0;',
+				'    #buffer: string[] = [];',
+				'    public readonly source: string = \'\';',
+				'',
+				'    constructor(source: string) {',
+				'        this.source = source;',
+				'    }',
+				'',
+				'    next(): Token | undefined {',
+				'        return undefined;',
+				'    }',
+				'',
+				'    protected reset(): void {}',
+				'}',
+				'',
+				"export type Token = { type: 'word' | 'space'; text: string };"
+			].join('\n'))
+		], [{ kind: 'main', path: './dist/index.js' }], 10);
+
+		assert.deepStrictEqual(api?.entries, ['src/index.ts']);
+		assert.deepStrictEqual(api?.symbols.map(symbol => `${symbol.kind} ${symbol.name} ${symbol.file}:${symbol.line}${symbol.deprecated ? ' deprecated' : ''}`), [
+			'class Lexer src/tokenizer.ts:2',
+			'type Token src/tokenizer.ts:18',
+			'variable VERSION src/index.ts:4',
+			'function parse src/parser.ts:5',
+			'function parseLoose src/parser.ts:12 deprecated',
+			'interface Node src/parser.ts:14'
+		]);
+
+		const byName = new Map(api?.symbols.map(symbol => [symbol.name, symbol]));
+		assert.strictEqual(byName.get('parse')?.signature, 'function parse(text: string): Node\nfunction parse(text: string, strict: boolean): Node');
+		assert.strictEqual(byName.get('parse')?.description, 'Parse source text.');
+		assert.strictEqual(byName.get('parseLoose')?.signature, 'async function parseLoose(text: string): Promise<Node>');
+		assert.strictEqual(byName.get('Lexer')?.signature, [
+			'class Tokenizer<T extends string = string> {',
+			'    public readonly source: string;',
+			'    constructor(source: string);',
+			'    next(): Token | undefined;',
+			'}'
+		].join('\n'));
+		assert.strictEqual(byName.get('VERSION')?.signature, 'const VERSION = \'1.2.0\'');
+		assert.strictEqual(api?.total, 6);
+
+		assert.strictEqual(extractPublicApi([file('src/app.ts', 'export const x = 1;')], [], 10), undefined);
+	});
+
+	test('Lists the exported types of this extension\'s own src/types.ts', () => {
+		const content = fs.readFileSync(path.join(__dirname, '..', '..', 'src', 'types.ts'), 'utf8');
+		const api = extractPublicApi([file('src/types.ts', content)], [{ kind: 'types', path: 'out/types.d.ts' }], 3);
+
+		assert.deepStrictEqual(api?.entries, ['src/types.ts']);
+		assert.strictEqual(api?.symbols.length, 3);
+		assert.ok(api.total > 20, `only ${api.total} exports found`);
+
+		const fileInfo = api.symbols.find(symbol => symbol.name === 'FileInfo');
+		assert.strictEqual(fileInfo?.kind, 'interface');
+		assert.ok(fileInfo.signature.startsWith('interface FileInfo {'));
+		assert.ok(fileInfo.signature.includes('isOutline?: boolean;'));
+	});
+});
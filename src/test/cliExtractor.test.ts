@@ -0,0 +1,223 @@
+import * as assert from 'assert';
+import { extractCommandLineInterface } from '../cliExtractor';
+import { CommandLineInterface, FileInfo } from '../types';
+
+function file(filePath: string, content: string): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'Unknown', isMainFile: false };
+}
+
+function summarize(cli: CommandLineInterface | undefined): string[] {
+	return (cli?.commands ?? []).flatMap(command => [
+		`[${command.name}] ${command.description ?? '-'}`,
+		...command.options.map(option => `  ${option.flags} | ${option.description ?? '-'} | ${option.defaultValue ?? '-'}${option.required ? ' | required' : ''}`)
+	]);
+}
+
+suite('CLI Extractor Test Suite', () => {
+	test('Reads commander chains and yargs builders', () => {
+		const commander = extractCommandLineInterface([
+			file('src/cli.ts', [
+				"import { Command } from 'commander';",
+				'const program = new Command();',
+				'program',
+				"    .name('acme')",
+				"    .description('Manage acme projects')",
+				"    .option('-v, --verbose', 'print more output')",
+				"    .option('-n, --retries <count>', 'retry failed steps', parseInt, 3);",
+				'',
+				'program',
+				"    .command('deploy <env> [region]')",
+				"    .description('Deploy to an environment')",
+				"    .requiredOption('-t, --token <token>', 'API token')",
+				'    .action(deploy);',
+				'',
+				"const remote = program.command('remote');",
+				"remote.command('add <url>').option('--force', 'overwrite an existing remote');"
+			].join('\n'))
+		], undefined, 'fallback');
+
+		assert.strictEqual(commander?.program, 'acme');
+		assert.deepStrictEqual(commander?.frameworks, ['commander']);
+		assert.deepStrictEqual(summarize(commander), [
+			'[] Manage acme projects',
+			'  -v, --verbose | print more output | -',
+			'  -n, --retries <count> | retry failed steps | 3',
+			'[deploy] Deploy to an environment',
+			'  <env> | - | - | required',
+			'  [region] | - | -',
+			'  -t, --token <token> | API token | - | required',
+			'[remote] -',
+			'[remote add] -',
+			'  <url> | - | - | required',
+			'  --force | overwrite an existing remote | -'
+		]);
+
+		const yargs = extractCommandLineInterface([
+			file('bin/serve.js', [
+				"const yargs = require('yargs');",
+				'yargs',
+				"    .command('serve [port]', 'Start the server', y => y",
+				"        .positional('port', { describe: 'port to bind', default: 8080 })",
+				"        .option('host', { alias: 'H', type: 'string', describe: 'host name', default: 'localhost' }))",
+				"    .option('verbose', { alias: 'v', type: 'boolean', description: 'log requests' })",
+				"    .option('config', { type: 'string', demandOption: true })",
+				'    .argv;'
+			].join('\n'))
+		], 'serve-it', 'fallback');
+
+		assert.strictEqual(yargs?.program, 'serve-it');
+		assert.deepStrictEqual(summarize(yargs), [
+			'[] -',
+			'  -v, --verbose | log requests | -',
+			'  --config <string> | - | - | required',
+			'[serve] Start the server',
+			'  [port] | port to bind | 8080',
+			'  -H, --host <string> | host name | localhost'
+		]);
+	});
+
+	test('Reads argparse subparsers and click groups', () => {
+		const argparse = extractCommandLineInterface([
+			file('tool/cli.py', [
+				'import argparse',
+				"parser = argparse.ArgumentParser(prog='tool', description='Sync files.')",
+				"parser.add_argument('-q', '--quiet', action='store_true', help='no output')",
+				"subparsers = parser.add_subparsers(dest='command')",
+				"push = subparsers.add_parser('push', help='Upload changes')",
+				"push.add_argument('paths', nargs='+', help='files to upload')",
+				"push.add_argument('--jobs', '-j', type=int, default=4, help='parallel uploads (default: %(default)s)')",
+				"push.add_argument('--secret', help=argparse.SUPPRESS)"
+			].join('\n'))
+		], undefined, 'fallback');
+
+		assert.strictEqual(argparse?.program, 'tool');
+		assert.deepStrictEqual(summarize(argparse), [
+			'[] Sync files.',
+			'  -q, --quiet | no output | -',
+			'[push] Upload changes',
+			'  <paths>... | files to upload | - | required',
+			'  -j, --jobs <jobs> | parallel uploads (default: 4) | 4'
+		]);
+
+		const click = extractCommandLineInterface([
+			file('app/cli.py', [
+				'import click',
+				'',
+				'@click.group()',
+				'def cli():',
+				'    """Manage the database."""',
+				'',
+				"@cli.command('init-db')",
+				"@click.option('--seed/--no-seed', default=False, help='Load sample data.')",
+				"@click.argument('name', required=False)",
+				'def init_db(seed, name):',
+				'    click.echo(name)',
+				'',
+				'@click.command()',
+				"@click.option('--count', '-c', default=1, help='Number of rows.')",
+				'def dump_rows(count):',
+				'    """Print rows.',
+				'',
+				'    Longer text."""',
+				'',
+				'cli.add_command(dump_rows)'
+			].join('\n'))
+		], undefined, 'fallback');
+
+		assert.strictEqual(click?.program, 'fallback');
+		assert.deepStrictEqual(summarize(click), [
+			'[] Manage the database.',
+			'[dump-rows] Print rows.',
+			'  -c, --count <count> | Number of rows. | 1',
+			'[init-db] -',
+			'  --seed/--no-seed | Load sample data. | False',
+			'  [name] | - | -'
+		]);
+	});
+
+	test('Reads cobra commands across files and clap derive structs', () => {
+		const cobra = extractCommandLineInterface([
+			file('cmd/root.go', [
+				'import "github.com/spf13/cobra"',
+				'var rootCmd = &cobra.Command{',
+				'    Use:   "kit",',
+				'    Short: "A toolkit",',
+				'}',
+				'func init() {',
+				'    rootCmd.PersistentFlags().StringVarP(&cfgFile, "config", "c", "", "config file")',
+				'    rootCmd.AddCommand(newServeCmd())',
+				'}'
+			].join('\n')),
+			file('cmd/serve.go', [
+				'import "github.com/spf13/cobra"',
+				'func newServeCmd() *cobra.Command {',
+				'    cmd := &cobra.Command{',
+				'        Use:   "serve [dir]",',
+				'        Short: "Serve a directory",',
+				'    }',
+				'    cmd.Flags().IntP("port", "p", 8080, "port to listen on")',
+				'    cmd.Flags().Bool("tls", false, "enable TLS")',
+				'    cmd.MarkFlagRequired("port")',
+				'    return cmd',
+				'}'
+			].join('\n'))
+		], undefined, 'fallback');
+
+		assert.strictEqual(cobra?.program, 'kit');
+		assert.deepStrictEqual(summarize(cobra), [
+			'[] A toolkit',
+			'  -c, --config <string> | config file | -',
+			'[serve] Serve a directory',
+			'  [dir] | - | -',
+			'  -p, --port <int> | port to listen on | 8080 | required',
+			'  --tls | enable TLS | -'
+		]);
+
+		const clap = extractCommandLineInterface([
+			file('src/main.rs', [
+				'use clap::{Args, Parser, Subcommand};',
+				'',
+				'/// Convert images, fast',
+				'#[derive(Parser)]',
+				'#[command(name = "imgx", version)]',
+				'struct Cli {',
+				'    /// Print more output',
+				'    #[arg(short, long)]',
+				'    verbose: bool,',
+				'    #[command(subcommand)]',
+				'    command: Commands,',
+				'}',
+				'',
+				'#[derive(Subcommand)]',
+				'enum Commands {',
+				'    /// Resize an image',
+				'    Resize {',
+				'        /// Input file, e.g. a.png',
+				'        input: PathBuf,',
+				'        #[arg(long, default_value_t = 100)]',
+				'        width: u32,',
+				'    },',
+				'    ListFormats(ListArgs),',
+				'}',
+				'',
+				'/// Show supported formats',
+				'#[derive(Args)]',
+				'struct ListArgs {',
+				'    #[arg(short = \'o\', long = "output", value_name = "FILE")]',
+				'    out: Option<Vec<String>>,',
+				'}'
+			].join('\n'))
+		], undefined, 'fallback');
+
+		assert.strictEqual(clap?.program, 'imgx');
+		assert.deepStrictEqual(summarize(clap), [
+			'[] Convert images, fast',
+			'  -v, --verbose | Print more output | -',
+			'[list-formats] Show supported formats',
+			'  -o, --output <FILE>... | - | -',
+			'[resize] Resize an image',
+			'  <INPUT> | Input file, e.g. a.png | - | required',
+			'  --width <WIDTH> | - | 100'
+		]);
+	});
+});
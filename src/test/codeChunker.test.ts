@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { CodeChunker } from '../codeChunker';
+import { countTokens, getEncodingForModel } from '../tokenizer';
+import { FileInfo } from '../types';
+
+function file(filePath: string, content: string, isMainFile: boolean = false): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'TypeScript', isMainFile };
+}
+
+suite('Code Chunker Test Suite', () => {
+	test('Counts tokens with the encoding of the model', () => {
+		assert.strictEqual(getEncodingForModel('gpt-4o-mini'), 'o200k_base');
+		assert.strictEqual(getEncodingForModel('sonar-medium-online'), 'cl100k_base');
+		assert.strictEqual(countTokens('hello world', 'gpt-4o'), 2);
+		assert.strictEqual(countTokens('', 'gpt-4o'), 0);
+	});
+
+	test('Keeps directories together and follows imports from the entry point', () => {
+		const body = 'export const value = 1;\n'.repeat(20);
+		const files = [
+			file('src/z/helper.ts', body),
+			file('src/a/unused.ts', body),
+			file('src/z/api.ts', `import { value } from './helper';\n${body}`),
+			file('src/index.ts', `import { api } from './z/api.js';\n${body}`, true)
+		];
+		const budget = countTokens(body, 'gpt-4o') * 4;
+
+		const chunks = new CodeChunker(budget, 'gpt-4o').createChunks(files);
+
+		assert.deepStrictEqual(chunks.map(chunk => chunk.files.map(f => f.path)), [
+			['src/index.ts', 'src/z/api.ts', 'src/z/helper.ts'],
+			['src/a/unused.ts']
+		]);
+		assert.ok(chunks.every(chunk => chunk.totalTokens <= budget));
+	});
+});
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import { isManifestFile, mergeDependencies, parseManifestDependencies } from '../dependencyParser';
+import { Dependency } from '../types';
+
+function summarize(dependencies: Dependency[]): string[] {
+	return dependencies.map(dependency => `${dependency.scope} ${dependency.name}${dependency.extras ? `[${dependency.extras.join(',')}]` : ''} ${dependency.version ?? '-'}${dependency.marker ? ` ; ${dependency.marker}` : ''}`);
+}
+
+suite('Dependency Parser Test Suite', () => {
+	test('Parses requirements files with specifiers, extras, markers and includes', () => {
+		const files: Record<string, string> = {
+			'requirements/base.txt': 'requests~=2.31  # HTTP\nuvicorn[standard] >=0.29, <1 ; python_version < "3.12"\n-c constraints.txt\n'
+		};
+		const content = '-r base.txt\npytest==8.1.1\n-e git+https://github.com/org/tool.git#egg=tool\n--index-url https://example.org/simple\n./local-package\n';
+
+		const dependencies = parseManifestDependencies('requirements/dev.txt', content, file => files[file]);
+
+		assert.ok(isManifestFile('requirements-dev.txt') && isManifestFile('requirements/base.txt') && !isManifestFile('docs/notes.txt'));
+		assert.ok(!isManifestFile('src/constructor') && !isManifestFile('toString'));
+		assert.deepStrictEqual(parseManifestDependencies('lib/constructor', 'x'), []);
+		assert.deepStrictEqual(summarize(dependencies), [
+			'runtime requests ~=2.31',
+			'runtime uvicorn[standard] >=0.29,<1 ; python_version < "3.12"',
+			'dev pytest ==8.1.1',
+			'dev tool -'
+		]);
+	});
+
+	test('Parses pyproject (PEP 621 and Poetry), Pipfile and Cargo.toml', () => {
+		const pyproject = [
+			'[project]',
+			'dependencies = ["httpx>=0.27", "rich"]',
+			'[project.optional-dependencies]',
+			'test = ["pytest"]',
+			'postgres = ["psycopg[binary]"]',
+			'[tool.poetry.dependencies]',
+			'python = "^3.11"',
+			'fastapi = { version = "^0.110", extras = ["all"] }',
+			'[tool.poetry.group.dev.dependencies]',
+			'ruff = "*"'
+		].join('\n');
+		assert.deepStrictEqual(summarize(parseManifestDependencies('pyproject.toml', pyproject)), [
+			'runtime httpx >=0.27',
+			'runtime rich -',
+			'dev pytest -',
+			'optional psycopg[binary] -',
+			'runtime fastapi[all] ^0.110',
+			'dev ruff -'
+		]);
+
+		const pipfile = '[packages]\nflask = "*"\n[dev-packages]\nblack = "==24.3.0"\n';
+		assert.deepStrictEqual(summarize(parseManifestDependencies('Pipfile', pipfile)), ['runtime flask -', 'dev black ==24.3.0']);
+
+		const cargo = '[dependencies]\nserde = { version = "1.0", features = ["derive"] }\ntokio = "1"\nlocal = { path = "../local", optional = true }\n[dev-dependencies]\ninsta = "1.38"\n[target.\'cfg(windows)\'.dependencies]\nwinapi = "0.3"\n';
+		assert.deepStrictEqual(summarize(parseManifestDependencies('Cargo.toml', cargo)), [
+			'runtime serde 1.0',
+			'runtime tokio 1',
+			'optional local path: ../local',
+			'dev insta 1.38',
+			'runtime winapi 0.3'
+		]);
+	});
+
+	test('Parses go.mod, pom.xml and Gradle builds', () => {
+		const goMod = 'module example.com/app\n\ngo 1.22\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n\tgolang.org/x/sys v0.18.0 // indirect\n)\nrequire github.com/stretchr/testify v1.9.0\n';
+		assert.deepStrictEqual(summarize(parseManifestDependencies('go.mod', goMod)), [
+			'runtime github.com/gin-gonic/gin v1.9.1',
+			'runtime github.com/stretchr/testify v1.9.0'
+		]);
+
+		const pom = `<project>
+	<properties><spring.version>6.1.5</spring.version></properties>
+	<dependencyManagement><dependencies><dependency><groupId>managed</groupId><artifactId>bom</artifactId></dependency></dependencies></dependencyManagement>
+	<dependencies>
+		<dependency><groupId>org.springframework</groupId><artifactId>spring-core</artifactId><version>\${spring.version}</version></dependency>
+		<!-- <dependency><groupId>old</groupId><artifactId>gone</artifactId></dependency> -->
+		<dependency><groupId>org.junit.jupiter</groupId><artifactId>junit-jupiter</artifactId><version>5.10.2</version><scope>test</scope></dependency>
+	</dependencies>
+	<build><plugins><plugin><dependencies><dependency><groupId>plugin</groupId><artifactId>dep</artifactId></dependency></dependencies></plugin></plugins></build>
+</project>`;
+		assert.deepStrictEqual(summarize(parseManifestDependencies('pom.xml', pom)), [
+			'runtime org.springframework:spring-core 6.1.5',
+			'dev org.junit.jupiter:junit-jupiter 5.10.2'
+		]);
+
+		const gradle = 'dependencies {\n    implementation("com.squareup.okhttp3:okhttp:4.12.0")\n    // implementation("commented:out:1.0")\n    testImplementation \'junit:junit:4.13.2\'\n    api group: \'com.google.guava\', name: \'guava\', version: \'33.1.0-jre\'\n}\n';
+		assert.deepStrictEqual(summarize(parseManifestDependencies('app/build.gradle.kts', gradle)), [
+			'runtime com.squareup.okhttp3:okhttp 4.12.0',
+			'dev junit:junit 4.13.2',
+			'runtime com.google.guava:guava 33.1.0-jre'
+		]);
+	});
+
+	test('Parses Gemfile, composer.json and pubspec.yaml, and merges duplicates', () => {
+		const gemfile = "source 'https://rubygems.org'\ngem 'rails', '~> 7.1', '>= 7.1.3'\ngroup :development, :test do\n  gem 'rspec-rails'\nend\ngem 'rubocop', require: false, group: :development\ngem 'pg'\n";
+		assert.deepStrictEqual(summarize(parseManifestDependencies('Gemfile', gemfile)), [
+			'runtime rails ~> 7.1, >= 7.1.3',
+			'dev rspec-rails -',
+			'dev rubocop -',
+			'runtime pg -'
+		]);
+
+		const composer = JSON.stringify({ require: { php: '>=8.2', 'laravel/framework': '^11.0' }, 'require-dev': { 'phpunit/phpunit': '^11' } });
+		assert.deepStrictEqual(summarize(parseManifestDependencies('composer.json', composer)), [
+			'runtime php >=8.2',
+			'runtime laravel/framework ^11.0',
+			'dev phpunit/phpunit ^11'
+		]);
+
+		const pubspec = 'name: app\ndependencies:\n  flutter:\n    sdk: flutter\n  http: ^1.2.1\ndev_dependencies:\n  flutter_lints: ^3.0.0\n';
+		assert.deepStrictEqual(summarize(parseManifestDependencies('pubspec.yaml', pubspec)), [
+			'runtime flutter sdk: flutter',
+			'runtime http ^1.2.1',
+			'dev flutter_lints ^3.0.0'
+		]);
+
+		const merged = mergeDependencies([
+			...parseManifestDependencies('package.json', JSON.stringify({ devDependencies: { typescript: '^5.4.0' } })),
+			...parseManifestDependencies('packages/app/package.json', JSON.stringify({ dependencies: { typescript: '*' } }))
+		]);
+		assert.deepStrictEqual(summarize(merged), ['runtime typescript ^5.4.0']);
+		assert.deepStrictEqual(parseManifestDependencies('package.json', '{ invalid'), []);
+	});
+});
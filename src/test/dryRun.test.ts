@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { DEFAULT_MODEL_PRICES, estimateRequestCost, findModelPrice, formatDryRunReport } from '../dryRun';
+import { PlannedRequest } from '../types';
+
+function request(label: string, phase: PlannedRequest['phase'], inputTokens: number, outputTokens: number, estimated: boolean = false): PlannedRequest {
+	return { label, phase, messages: [], files: phase === 'summary' ? ['src/a.ts', 'src/b.ts'] : [], inputTokens, outputTokens, estimated };
+}
+
+suite('Dry Run Test Suite', () => {
+	test('Finds prices by exact name or longest prefix', () => {
+		assert.strictEqual(findModelPrice('gpt-4o-mini-2024-07-18', DEFAULT_MODEL_PRICES), DEFAULT_MODEL_PRICES['gpt-4o-mini']);
+		assert.strictEqual(findModelPrice('openai/GPT-4o', DEFAULT_MODEL_PRICES), DEFAULT_MODEL_PRICES['gpt-4o']);
+		assert.strictEqual(findModelPrice('llama-3-70b', DEFAULT_MODEL_PRICES), undefined);
+		assert.strictEqual(estimateRequestCost(request('x', 'readme', 1_000_000, 500_000), { input: 2, output: 8, perRequest: 0.5 }), 6.5);
+	});
+
+	test('Reports requests, tokens and an upper-bound cost', () => {
+		const requests = [
+			request('Summarize chunk 1/2', 'summary', 4000, 1200),
+			request('Summarize chunk 2/2', 'summary', 3000, 1200),
+			request('Write README from 2 summaries', 'synthesis', 3000, 5000, true)
+		];
+
+		const report = formatDryRunReport('gpt-4o', requests, { input: 2.5, output: 10 }, { maxRetries: 3 });
+
+		assert.ok(report.includes('- **Requests**: 3 (2 chunk summaries, 1 final README)'));
+		assert.ok(report.includes('- **Input tokens**: 10,000'));
+		assert.ok(report.includes('- **Output tokens**: at most 7,400'));
+		assert.ok(report.includes('- **Estimated cost**: at most $0.10'));
+		assert.ok(report.includes('| 1 | Summarize chunk 1/2 | 2 | 4,000 | 1,200 | $0.02 |'));
+		assert.ok(report.includes('| 3 | Write README from 2 summaries | – | 3,000* | 5,000 | $0.06 |'));
+
+		assert.ok(formatDryRunReport('custom-model', requests, undefined).includes('no price configured for `custom-model`'));
+	});
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { scanEnvironmentVariables } from '../envScanner';
+import { EnvironmentVariable, FileInfo } from '../types';
+
+function file(filePath: string, content: string): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'Unknown', isMainFile: false };
+}
+
+function summarize(variables: EnvironmentVariable[]): string[] {
+	return variables.map(variable => [
+		variable.name,
+		variable.required ? 'required' : 'optional',
+		variable.defaultValue ?? '-',
+		variable.files.join(',') || '-'
+	].join(' | '));
+}
+
+suite('Environment Variable Scanner Test Suite', () => {
+	test('Finds reads and defaults in JavaScript, Python, Go and Rust', () => {
+		const variables = scanEnvironmentVariables([
+			file('src/server.ts', [
+				'const port = Number(process.env.PORT || 3000);',
+				"const host = process.env['HOST'] ?? 'localhost';",
+				'const secret = process.env.JWT_SECRET;',
+				'if (process.env.DEBUG) { enableDebug(); }',
+				"const { REGION = 'eu-west-1', BUCKET } = process.env;",
+				'const apiUrl = import.meta.env.VITE_API_URL;'
+			].join('\n')),
+			file('src/server.test.ts', 'process.env.TEST_ONLY = "1";'),
+			file('app/settings.py', "DATABASE_URL = os.environ['DATABASE_URL']\nWORKERS = int(os.getenv('WORKERS', '4'))\nSENTRY = os.environ.get('SENTRY_DSN')\n"),
+			file('cmd/main.go', 'addr := os.Getenv("ADDR")\nif v, ok := os.LookupEnv("VERBOSE"); ok {}\n'),
+			file('src/main.rs', 'let level = env::var("LOG_LEVEL").unwrap_or("info".to_string());\nlet token = std::env::var("TOKEN").expect("TOKEN");\nconst V: &str = env!("CARGO_PKG_VERSION");\n')
+		]);
+
+		assert.deepStrictEqual(summarize(variables), [
+			'ADDR | required | - | cmd/main.go',
+			'BUCKET | required | - | src/server.ts',
+			'CARGO_PKG_VERSION | required | - | src/main.rs',
+			'DATABASE_URL | required | - | app/settings.py',
+			'DEBUG | optional | - | src/server.ts',
+			'HOST | optional | \'localhost\' | src/server.ts',
+			'JWT_SECRET | required | - | src/server.ts',
+			'LOG_LEVEL | optional | "info" | src/main.rs',
+			'PORT | optional | 3000 | src/server.ts',
+			'REGION | optional | \'eu-west-1\' | src/server.ts',
+			'SENTRY_DSN | optional | - | app/settings.py',
+			'TOKEN | required | - | src/main.rs',
+			'VERBOSE | optional | - | cmd/main.go',
+			'VITE_API_URL | required | - | src/server.ts',
+			'WORKERS | optional | \'4\' | app/settings.py'
+		]);
+	});
+
+	test('Adds descriptions and examples from example dotenv files', () => {
+		const variables = scanEnvironmentVariables([
+			file('.env.example', [
+				'# Postgres connection string',
+				'DATABASE_URL=postgres://localhost:5432/app',
+				'',
+				'export API_KEY=',
+				'# Optional: error reporting',
+				'# SENTRY_DSN=',
+				"GREETING='hello world' # shown on the home page"
+			].join('\n')),
+			file('.env', 'SHOULD_NOT_APPEAR=1'),
+			file('src/db.js', "const url = process.env.DATABASE_URL || 'sqlite://memory';")
+		]);
+
+		assert.deepStrictEqual(variables.map(variable => `${variable.name} ${variable.required} ${variable.example ?? '-'} ${variable.description ?? '-'} ${variable.documentedIn}`), [
+			'API_KEY true - - .env.example',
+			'DATABASE_URL false postgres://localhost:5432/app Postgres connection string .env.example',
+			'GREETING true hello world - .env.example',
+			'SENTRY_DSN false - Optional: error reporting .env.example'
+		]);
+		assert.deepStrictEqual(variables.find(variable => variable.name === 'DATABASE_URL')?.files, ['src/db.js']);
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import {
+	ApiTimeoutError,
+	AuthenticationError,
+	BadRequestError,
+	ConnectionError,
+	GenerationCancelledError,
+	RateLimitError,
+	ServerError,
+	classifyApiError,
+	completeWithRetry,
+	withRetry
+} from '../errors';
+
+suite('Error Classification Test Suite', () => {
+	test('Classifies HTTP status codes', () => {
+		assert.ok(classifyApiError({ status: 401, message: 'bad key' }, 'Test') instanceof AuthenticationError);
+		assert.ok(classifyApiError({ response: { status: 403 } }, 'Test') instanceof AuthenticationError);
+		assert.ok(classifyApiError({ status: 400 }, 'Test') instanceof BadRequestError);
+		assert.ok(classifyApiError({ status: 503 }, 'Test') instanceof ServerError);
+	});
+
+	test('Reads Retry-After from rate limit responses', () => {
+		const sdkError = classifyApiError({ status: 429, headers: new Headers({ 'retry-after': '7' }) }, 'Test');
+		assert.ok(sdkError instanceof RateLimitError);
+		assert.strictEqual((sdkError as RateLimitError).retryAfterMs, 7000);
+
+		const axiosError = classifyApiError({ response: { status: 429, headers: { 'retry-after-ms': '250' } } }, 'Test');
+		assert.strictEqual((axiosError as RateLimitError).retryAfterMs, 250);
+	});
+
+	test('Classifies timeouts, connection failures and aborts', () => {
+		assert.ok(classifyApiError({ code: 'ECONNABORTED' }, 'Test') instanceof ApiTimeoutError);
+		assert.ok(classifyApiError({ name: 'APIConnectionTimeoutError' }, 'Test') instanceof ApiTimeoutError);
+		assert.ok(classifyApiError({ code: 'ECONNREFUSED' }, 'Test') instanceof ConnectionError);
+		assert.ok(classifyApiError({ code: 'ERR_CANCELED' }, 'Test') instanceof GenerationCancelledError);
+	});
+
+	test('Retries transient errors and stops on permanent ones', async () => {
+		let calls = 0;
+		const result = await withRetry(async () => {
+			calls++;
+			if (calls < 3) {
+				throw Object.assign(new Error('Bad gateway'), { status: 502 });
+			}
+			return 'ok';
+		}, 'Test', { baseDelayMs: 1, maxDelayMs: 2 });
+		assert.strictEqual(result, 'ok');
+		assert.strictEqual(calls, 3);
+
+		calls = 0;
+		await assert.rejects(withRetry(async () => {
+			calls++;
+			throw Object.assign(new Error('Unauthorized'), { status: 401 });
+		}, 'Test', { baseDelayMs: 1 }), AuthenticationError);
+		assert.strictEqual(calls, 1);
+	});
+
+	test('Does not retry a completion that already streamed text', async () => {
+		const tokens: string[] = [];
+		let calls = 0;
+		await assert.rejects(completeWithRetry(async onToken => {
+			calls++;
+			onToken?.('Partial');
+			throw Object.assign(new Error('Bad gateway'), { status: 502 });
+		}, 'Test', 3, { onToken: text => tokens.push(text) }), ServerError);
+		assert.strictEqual(calls, 1);
+		assert.deepStrictEqual(tokens, ['Partial']);
+
+		assert.strictEqual(await completeWithRetry(async onToken => onToken ? 'streamed' : 'whole', 'Test', 3), 'whole');
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { createFileOutline, getPromptContent, MAX_FULL_FILE_CHARS } from '../fileOutline';
+
+const TYPESCRIPT = `import * as fs from 'fs';
+import { helper } from './helper';
+
+const internalValue = 42;
+
+/**
+ * Public entry point
+ */
+export class Service {
+    private cache = new Map<string, string>();
+
+    constructor(
+        private readonly root: string
+    ) {}
+
+    public async load(name: string): Promise<string> {
+        if (this.cache.has(name)) {
+            return this.cache.get(name)!;
+        }
+        console.log(name);
+        return fs.readFileSync(name, 'utf8');
+    }
+}
+
+// Formats output
+export function format(value: string): string {
+    return helper(value);
+}
+`;
+
+suite('File Outline Test Suite', () => {
+	test('Keeps imports, signatures and doc comments of TypeScript files', () => {
+		const outline = createFileOutline('src/service.ts', TYPESCRIPT);
+		const lines = outline.split('\n').slice(1).map(line => line.replace(/^\s*\d+: /, ''));
+
+		assert.ok(outline.startsWith('// Outline of src/service.ts'));
+		for (const expected of [
+			"import * as fs from 'fs';",
+			'const internalValue = 42;',
+			' * Public entry point',
+			'export class Service {',
+			'    constructor(',
+			'        private readonly root: string',
+			'    public async load(name: string): Promise<string> {',
+			'// Formats output',
+			'export function format(value: string): string {'
+		]) {
+			assert.ok(lines.includes(expected), `missing: ${expected}`);
+		}
+		assert.ok(!outline.includes('console.log'));
+		assert.ok(!outline.includes('if (this.cache.has'));
+	});
+
+	test('Outlines Python with decorators and docstrings', () => {
+		const outline = createFileOutline('app.py', '@app.route("/")\ndef index():\n    """Home page."""\n    return render()\n');
+
+		assert.ok(outline.includes('1: @app.route("/")'));
+		assert.ok(outline.includes('2: def index():'));
+		assert.ok(outline.includes('3:     """Home page."""'));
+		assert.ok(!outline.includes('return render()'));
+	});
+
+	test('Sends small files in full and large files as an outline', () => {
+		const small = { path: 'a.ts', content: TYPESCRIPT, size: TYPESCRIPT.length, language: 'TypeScript', isMainFile: false };
+		assert.strictEqual(getPromptContent(small), TYPESCRIPT);
+
+		const padding = '    doWork();\n'.repeat(Math.ceil(MAX_FULL_FILE_CHARS / 10));
+		const large = { ...small, content: TYPESCRIPT.replace('console.log(name);', padding) };
+		assert.ok(getPromptContent(large).startsWith('// Outline of a.ts'));
+		assert.ok(getPromptContent(large).includes('export function format(value: string): string {'));
+	});
+});
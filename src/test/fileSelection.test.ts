@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { buildFileSelectionTree, filterSelectedFiles, getNodeFiles, setNodeSelected, summarizeSelection } from '../fileSelection';
+
+const FILES = [
+	{ path: 'src/index.ts', size: 100, tokens: 30 },
+	{ path: 'README.md', size: 50, tokens: 10 },
+	{ path: 'src/secrets/keys.ts', size: 40, tokens: 12 },
+	{ path: 'src\\app.ts', size: 10, tokens: 5 }
+];
+
+suite('File Selection Test Suite', () => {
+	test('Builds a sorted folder tree with totals', () => {
+		const tree = buildFileSelectionTree(FILES);
+
+		assert.deepStrictEqual(tree.map(node => node.path), ['src', 'README.md']);
+		assert.deepStrictEqual(tree[0].children.map(node => node.path), ['src/secrets', 'src/app.ts', 'src/index.ts']);
+		assert.strictEqual(tree[0].tokens, 47);
+		assert.strictEqual(tree[0].size, 150);
+		assert.deepStrictEqual(getNodeFiles(tree[0]), ['src/secrets/keys.ts', 'src/app.ts', 'src/index.ts']);
+	});
+
+	test('Unticking a folder excludes every file below it', () => {
+		const tree = buildFileSelectionTree(FILES);
+		const excluded = new Set<string>();
+
+		setNodeSelected(tree[0].children[0], false, excluded);
+		setNodeSelected(tree[1], false, excluded);
+		assert.deepStrictEqual(summarizeSelection(tree, excluded), { files: 2, totalFiles: 4, tokens: 35, size: 110 });
+		assert.deepStrictEqual(filterSelectedFiles(FILES, excluded).map(file => file.path), ['src/index.ts', 'src\\app.ts']);
+
+		setNodeSelected(tree[0], true, excluded);
+		assert.deepStrictEqual(Array.from(excluded), ['README.md']);
+	});
+});
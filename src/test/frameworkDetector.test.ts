@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { parseManifestDependencies } from '../dependencyParser';
+import { detectProjectType, detectTechnologies } from '../frameworkDetector';
+import { FileInfo } from '../types';
+
+function file(filePath: string, content: string = ''): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'TypeScript', isMainFile: false };
+}
+
+function names(files: FileInfo[]): string[] {
+	const dependencies = files.flatMap(info => parseManifestDependencies(info.path, info.content));
+	return detectTechnologies(files, dependencies).map(technology => `${technology.category} ${technology.name}`);
+}
+
+suite('Framework Detector Test Suite', () => {
+	test('Prefers a meta-framework over the library it builds on', () => {
+		const files = [
+			file('package.json', JSON.stringify({ dependencies: { next: '14.2.0', react: '18.3.0', prisma: '5.0.0' }, devDependencies: { jest: '^29' } })),
+			file('next.config.mjs'),
+			file('app/page.tsx', "import Link from 'next/link';\nimport { useState } from 'react';\n")
+		];
+		const dependencies = parseManifestDependencies('package.json', files[0].content);
+		const technologies = detectTechnologies(files, dependencies);
+
+		assert.deepStrictEqual(technologies.map(technology => technology.name), ['Next.js', 'React', 'Jest', 'Prisma']);
+		assert.deepStrictEqual(technologies[0].evidence, ['depends on next 14.2.0', 'has next.config.mjs', 'imported in 1 file']);
+		assert.strictEqual(detectProjectType(technologies, files, ['TypeScript']), 'Next.js Application');
+	});
+
+	test('Needs more than a file extension to report a framework', () => {
+		const files = [
+			file('package.json', JSON.stringify({ dependencies: { preact: '10.0.0' } })),
+			file('src/App.tsx', "import { h } from 'preact';\n")
+		];
+
+		assert.deepStrictEqual(names(files), []);
+		assert.strictEqual(detectProjectType([], files, ['TypeScript']), 'Node.js Application');
+		assert.strictEqual(detectProjectType([], [file('main.c')], ['C']), 'C Project');
+	});
+
+	test('Detects a VS Code extension with its build tool and test runner', () => {
+		const files = [
+			file('package.json', JSON.stringify({ devDependencies: { '@types/vscode': '^1.90.0', esbuild: '^0.21', mocha: '^10', typescript: '^5' } })),
+			file('.vscodeignore'),
+			file('src/extension.ts', "import * as vscode from 'vscode';\n")
+		];
+
+		assert.deepStrictEqual(names(files), ['framework VS Code Extension', 'build-tool esbuild', 'test-runner Mocha']);
+	});
+
+	test('Detects frameworks, tools and ORMs of other ecosystems', () => {
+		const python = [
+			file('pyproject.toml', '[project]\ndependencies = ["fastapi>=0.110", "sqlalchemy"]\n[project.optional-dependencies]\ntest = ["pytest"]\n'),
+			file('app/main.py', 'from fastapi import FastAPI\n')
+		];
+		assert.deepStrictEqual(names(python), ['framework FastAPI', 'test-runner pytest', 'orm SQLAlchemy']);
+
+		const java = [
+			file('build.gradle', "dependencies {\n    implementation 'org.springframework.boot:spring-boot-starter-data-jpa:3.2.0'\n}\n"),
+			file('src/main/java/App.java', '@SpringBootApplication\npublic class App {}\n')
+		];
+		const technologies = detectTechnologies(java, parseManifestDependencies('build.gradle', java[0].content));
+		assert.deepStrictEqual(technologies.map(technology => technology.name), ['Spring Boot', 'Hibernate', 'Gradle']);
+		assert.strictEqual(detectProjectType(technologies, java, ['Java']), 'Spring Boot Application');
+	});
+});
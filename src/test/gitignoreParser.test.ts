@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitignoreParser } from '../gitignoreParser';
+
+suite('GitignoreParser Test Suite', () => {
+	let root: string;
+	let home: string;
+	const savedEnv: Record<string, string | undefined> = {};
+	const isolatedEnv = ['HOME', 'USERPROFILE', 'XDG_CONFIG_HOME'];
+
+	const write = (relativePath: string, content: string = '') => {
+		const fullPath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, content);
+	};
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'readme-gitignore-'));
+		fs.mkdirSync(path.join(root, '.git', 'info'), { recursive: true });
+
+		// Keep the developer's own global git config and excludes out of the results
+		home = fs.mkdtempSync(path.join(os.tmpdir(), 'readme-gitignore-home-'));
+		for (const name of isolatedEnv) {
+			savedEnv[name] = process.env[name];
+		}
+		process.env.HOME = home;
+		process.env.USERPROFILE = home;
+		process.env.XDG_CONFIG_HOME = path.join(home, '.config');
+	});
+
+	teardown(() => {
+		for (const name of isolatedEnv) {
+			if (savedEnv[name] === undefined) {
+				delete process.env[name];
+			} else {
+				process.env[name] = savedEnv[name];
+			}
+		}
+		fs.rmSync(root, { recursive: true, force: true });
+		fs.rmSync(home, { recursive: true, force: true });
+	});
+
+	test('Anchored patterns only match at their base directory', () => {
+		write('.gitignore', '/generated\n');
+		const parser = new GitignoreParser(root);
+
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'generated'), true), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'src', 'generated'), true), false);
+	});
+
+	test('Double asterisks match any number of directories', () => {
+		write('.gitignore', 'docs/**/draft.md\n**/fixtures\n');
+		const parser = new GitignoreParser(root);
+
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'docs', 'draft.md'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'docs', 'a', 'b', 'draft.md'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'other', 'draft.md'), false), false);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'src', 'test', 'fixtures'), true), true);
+	});
+
+	test('Single asterisks do not cross directory boundaries', () => {
+		write('.gitignore', 'src/*.gen.ts\n');
+		const parser = new GitignoreParser(root);
+
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'src', 'a.gen.ts'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'src', 'nested', 'a.gen.ts'), false), false);
+	});
+
+	test('Character classes, escapes and directory-only rules', () => {
+		write('.gitignore', 'log[0-9].txt\nfile[!a].txt\n\\#notes\nscratch/\n');
+		const parser = new GitignoreParser(root);
+
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'log1.txt'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'logx.txt'), false), false);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'fileb.txt'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'filea.txt'), false), false);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, '#notes'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'scratch'), true), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'scratch'), false), false);
+	});
+
+	test('Negations re-include files but not inside ignored directories', () => {
+		write('.gitignore', '*.log\n!keep.log\ntmp/\n!tmp/keep.txt\n');
+		const parser = new GitignoreParser(root);
+
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'debug.log'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'keep.log'), false), false);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'tmp', 'keep.txt'), false), true);
+	});
+
+	test('Nested .gitignore files and .git/info/exclude are applied', () => {
+		write('.git/info/exclude', 'local-only.ts\n');
+		write('packages-src/.gitignore', '*.snap\n');
+		write('packages-src/app/.gitignore', '!important.snap\n');
+		const parser = new GitignoreParser(root);
+
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'local-only.ts'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'packages-src', 'a.snap'), false), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'packages-src', 'app', 'important.snap'), false), false);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'a.snap'), false), false);
+	});
+
+	test('Global excludes come from core.excludesFile or the XDG default', () => {
+		fs.mkdirSync(path.join(home, '.config', 'git'), { recursive: true });
+		fs.writeFileSync(path.join(home, '.config', 'git', 'ignore'), '*.bak-local\n');
+		assert.strictEqual(new GitignoreParser(root).shouldIgnore(path.join(root, 'a.bak-local'), false), true);
+
+		fs.writeFileSync(path.join(home, '.gitconfig'), '[core]\n\texcludesFile = ~/global-ignore\n');
+		fs.writeFileSync(path.join(home, 'global-ignore'), 'scratchpad/\n');
+		const parser = new GitignoreParser(root);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'scratchpad'), true), true);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'a.bak-local'), false), false);
+	});
+
+	test('.readmeignore overrides .gitignore and explains the deciding rule', () => {
+		write('.gitignore', 'generated/\n');
+		write('.readmeignore', '!generated/\nsrc/legacy/\n');
+		const parser = new GitignoreParser(root);
+
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'generated'), true), false);
+		assert.strictEqual(parser.shouldIgnore(path.join(root, 'generated', 'api.ts'), false), false);
+
+		const explanation = parser.explain(path.join(root, 'src', 'legacy', 'old.ts'), false);
+		assert.strictEqual(explanation.ignored, true);
+		assert.strictEqual(explanation.ignoredParent, 'src/legacy');
+		assert.strictEqual(explanation.rule?.pattern, 'src/legacy');
+		assert.strictEqual(explanation.rule?.line, 2);
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { detectMonorepo, findPackage, getPackageFiles } from '../monorepoDetector';
+import { FileInfo } from '../types';
+
+function file(filePath: string, content: string = ''): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'Unknown', isMainFile: false };
+}
+
+suite('Monorepo Detector Test Suite', () => {
+	test('Finds npm and pnpm workspace packages and assigns files to the deepest package', () => {
+		const files = [
+			file('package.json', JSON.stringify({ name: 'root', private: true, workspaces: { packages: ['packages/*', 'apps/**', '!apps/legacy'] }, packageManager: 'yarn@4.1.0' })),
+			file('pnpm-workspace.yaml', 'packages:\n  - "tools/*"\n'),
+			file('turbo.json', '{}'),
+			file('packages/core/package.json', JSON.stringify({ name: '@acme/core', description: 'Shared logic' })),
+			file('packages/core/src/index.ts'),
+			file('packages/core/fixtures/package.json', JSON.stringify({ name: 'fixture' })),
+			file('apps/web/package.json', JSON.stringify({ name: 'web' })),
+			file('apps/web/src/page.tsx'),
+			file('apps/legacy/package.json', JSON.stringify({ name: 'legacy' })),
+			file('tools/cli/package.json', '{ invalid'),
+			file('docs/guide.md')
+		];
+
+		const layout = detectMonorepo(files)!;
+
+		assert.deepStrictEqual(layout.tools, ['Yarn workspaces', 'pnpm workspaces', 'Turborepo']);
+		assert.deepStrictEqual(layout.packages.map(pkg => `${pkg.name} ${pkg.path} ${pkg.description ?? '-'}`), [
+			'web apps/web -',
+			'@acme/core packages/core Shared logic',
+			'cli tools/cli -'
+		]);
+		assert.strictEqual(findPackage('packages/core/fixtures/package.json', layout)?.name, '@acme/core');
+		assert.strictEqual(findPackage('docs/guide.md', layout), undefined);
+		assert.deepStrictEqual(getPackageFiles(files, layout, layout.packages[1]).map(info => info.path), [
+			'package.json',
+			'src/index.ts',
+			'fixtures/package.json'
+		]);
+	});
+
+	test('Reads Cargo workspaces, Go workspaces, Lerna and Nx layouts', () => {
+		const cargo = detectMonorepo([
+			file('Cargo.toml', '[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/experimental"]\n'),
+			file('crates/parser/Cargo.toml', '[package]\nname = "acme-parser"\ndescription = "Parses things"\n'),
+			file('crates/experimental/Cargo.toml', '[package]\nname = "experimental"\n')
+		])!;
+		assert.deepStrictEqual(cargo.tools, ['Cargo workspace']);
+		assert.deepStrictEqual(cargo.packages.map(pkg => `${pkg.name}: ${pkg.description}`), ['acme-parser: Parses things']);
+
+		const go = detectMonorepo([
+			file('go.work', 'go 1.22\n\nuse (\n\t./api // service\n\t./worker\n)\nuse ./shared\n'),
+			file('api/go.mod', 'module example.com/api\n'),
+			file('worker/go.mod', 'module example.com/worker\n'),
+			file('shared/go.mod', 'module example.com/shared\n')
+		])!;
+		assert.deepStrictEqual(go.packages.map(pkg => pkg.name), ['example.com/api', 'example.com/shared', 'example.com/worker']);
+
+		const nx = detectMonorepo([
+			file('lerna.json', '{}'),
+			file('nx.json', '{}'),
+			file('packages/ui/package.json', JSON.stringify({ name: 'ui' })),
+			file('libs/data/project.json', JSON.stringify({ name: 'data-access' }))
+		])!;
+		assert.deepStrictEqual(nx.tools, ['Lerna', 'Nx']);
+		assert.deepStrictEqual(nx.packages.map(pkg => `${pkg.name} ${pkg.manifest}`), ['data-access libs/data/project.json', 'ui packages/ui/package.json']);
+
+		assert.strictEqual(detectMonorepo([file('package.json', JSON.stringify({ name: 'single' })), file('src/index.ts')]), undefined);
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { applyReadmeSectionDiffs, diffReadmeSections } from '../readmeDiff';
+
+const CURRENT = `# Project
+
+Intro.
+
+## Installation
+
+npm install
+
+## Notes
+
+Internal notes.
+`;
+
+const PROPOSED = `# Project
+
+Better intro.
+
+## Installation
+
+npm install
+
+## Usage
+
+Run it.
+
+## License
+
+MIT
+`;
+
+suite('README Diff Test Suite', () => {
+	test('Lists changed, added and removed sections', () => {
+		const diffs = diffReadmeSections(CURRENT, PROPOSED);
+
+		assert.deepStrictEqual(diffs.map(diff => `${diff.status}:${diff.title}`), [
+			'changed:Project',
+			'added:Usage',
+			'added:License',
+			'removed:Notes'
+		]);
+	});
+
+	test('Applies only the accepted sections', () => {
+		const diffs = diffReadmeSections(CURRENT, PROPOSED);
+		const usage = diffs.filter(diff => diff.title === 'Usage');
+
+		assert.strictEqual(
+			applyReadmeSectionDiffs(CURRENT, PROPOSED, usage),
+			'# Project\n\nIntro.\n\n## Installation\n\nnpm install\n\n## Usage\n\nRun it.\n\n## Notes\n\nInternal notes.\n'
+		);
+		assert.strictEqual(applyReadmeSectionDiffs(CURRENT, PROPOSED, diffs), PROPOSED);
+		assert.strictEqual(applyReadmeSectionDiffs(CURRENT, PROPOSED, []), CURRENT);
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { CodebaseAnalyzer } from '../codebaseAnalyzer';
+import { ReadmeGenerator } from '../readmeGenerator';
+import { CodeChunk, CodebaseAnalysis, FileInfo, GenerationOptions, LLMProvider, PerplexityMessage } from '../types';
+
+type CallKind = 'summary' | 'merge' | 'synthesis';
+
+function file(filePath: string, content: string): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'Unknown', isMainFile: false };
+}
+
+/**
+ * Provider that records which phase each request belongs to and answers
+ * with `respond`
+ */
+function stubProvider(respond: (kind: CallKind) => string): { provider: LLMProvider; calls: { kind: CallKind; maxTokens?: number }[] } {
+	const calls: { kind: CallKind; maxTokens?: number }[] = [];
+	const provider: LLMProvider = {
+		name: 'Stub',
+		generateReadmeChunk: async () => {
+			throw new Error('Multi-chunk generation should not write chunks directly');
+		},
+		complete: async (messages: PerplexityMessage[], options: GenerationOptions = {}) => {
+			const prompt = messages.map(message => message.content).join('\n');
+			const kind: CallKind = prompt.includes('You merge notes') ? 'merge' : prompt.includes('SYNTHESIS RULES') ? 'synthesis' : 'summary';
+			calls.push({ kind, maxTokens: options.maxTokens });
+			return respond(kind);
+		},
+		testConnection: async () => true,
+		estimateTokenCount: text => text.length,
+		validateAPIKey: () => true
+	};
+	return { provider, calls };
+}
+
+suite('README Generator Test Suite', () => {
+	const files = [
+		file('package.json', JSON.stringify({ name: 'stub-app', scripts: { build: 'tsc -p .' } })),
+		file('src/a.ts', 'export const a = 1;'),
+		file('src/b.ts', 'export const b = 2;'),
+		file('src/c.ts', 'export const c = 3;')
+	];
+	const chunks: CodeChunk[] = files.slice(1).map((info, index) => ({ files: [info], totalTokens: 10, chunkIndex: index, description: info.path }));
+	let analysis: CodebaseAnalysis;
+
+	suiteSetup(() => {
+		analysis = new CodebaseAnalyzer(os.tmpdir()).analyzeSelection(files).analysis;
+	});
+
+	test('Merges oversized summaries before writing the README and adds the fact sections', async () => {
+		// Three 25,000 character summaries exceed the synthesis budget; the first two get merged
+		const { provider, calls } = stubProvider(kind => kind === 'summary'
+			? '## Notes\n' + 'x'.repeat(25000)
+			: kind === 'merge' ? '## Notes\n- merged' : '# stub-app\n\nWritten from the notes.');
+		const readme = await new ReadmeGenerator(os.tmpdir(), { llmProvider: provider }).generateReadme(analysis, chunks, () => undefined);
+
+		assert.deepStrictEqual(calls.map(call => call.kind), ['summary', 'summary', 'summary', 'merge', 'synthesis']);
+		assert.deepStrictEqual(calls.map(call => call.maxTokens), [1200, 1200, 1200, 1200, undefined]);
+		assert.ok(readme.startsWith('# stub-app\n\nWritten from the notes.'));
+		assert.ok(readme.includes('## Available Scripts'));
+		assert.ok(readme.includes('npm run build'));
+		assert.ok(readme.includes('*This README was automatically generated by README AI Generator*'));
+	});
+
+	test('Falls back to the template README when synthesis fails', async () => {
+		const { provider, calls } = stubProvider(kind => {
+			if (kind === 'synthesis') {
+				throw new Error('Model unavailable');
+			}
+			return '## Notes\n- short';
+		});
+		const readme = await new ReadmeGenerator(os.tmpdir(), { llmProvider: provider }).generateReadme(analysis, chunks, () => undefined);
+
+		assert.deepStrictEqual(calls.map(call => call.kind), ['summary', 'summary', 'summary', 'synthesis']);
+		assert.ok(readme.startsWith('# stub-app'));
+		assert.strictEqual(readme.match(/## Available Scripts/g)?.length, 1);
+	});
+});
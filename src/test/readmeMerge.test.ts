@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { getSavedReadmeChanges, mergeReadme } from '../readmeMerge';
+import { applyReadmeSectionDiffs, diffReadmeSections } from '../readmeDiff';
+
+const EXISTING = `# My Project
+
+Hand-written intro.
+
+## Installation
+<!-- readme:keep -->
+
+Ask Sam for access to the private registry first.
+
+## Usage
+<!-- readme:auto:usage -->
+
+Old usage text.
+
+## Features
+
+- Fast builds with incremental caching
+
+## Team Notes
+
+Deploys happen on Fridays.
+`;
+
+const GENERATED = `# my-project
+
+A tool that does things.
+
+## Installation
+
+\`\`\`bash
+npm install my-project
+\`\`\`
+
+## Usage
+
+Run \`my-project --help\`.
+
+## Features
+
+- Fast builds with incremental caching enabled
+
+- Plugin system for custom steps
+
+## License
+
+MIT
+`;
+
+suite('README Merge Test Suite', () => {
+	test('Honours keep/auto markers, merges unmarked sections and adds new ones', () => {
+		const { content, changes } = mergeReadme(EXISTING, GENERATED);
+		const actions = Object.fromEntries(changes.map(change => [change.title, change.action]));
+
+		assert.deepStrictEqual(actions, {
+			'My Project': 'merged',
+			'Installation': 'kept',
+			'Usage': 'regenerated',
+			'Features': 'merged',
+			'Team Notes': 'preserved',
+			'License': 'added'
+		});
+
+		assert.ok(content.includes('Ask Sam for access to the private registry first.'));
+		assert.ok(!content.includes('npm install my-project'));
+		assert.ok(content.includes('<!-- readme:auto:usage -->\n\nRun `my-project --help`.'));
+		assert.ok(!content.includes('Old usage text.'));
+		assert.ok(content.includes('- Fast builds with incremental caching\n\n- Plugin system for custom steps'));
+		assert.ok(!content.includes('caching enabled'));
+		assert.ok(content.includes('- Plugin system for custom steps\n\n## License\n\nMIT\n\n## Team Notes'));
+	});
+
+	test('Reports only the changes accepted in the diff review', () => {
+		const merged = mergeReadme(EXISTING, GENERATED);
+		const accepted = diffReadmeSections(EXISTING, merged.content).filter(diff => diff.title === 'Usage');
+		const saved = applyReadmeSectionDiffs(EXISTING, merged.content, accepted);
+		const actions = Object.fromEntries(getSavedReadmeChanges(merged.changes, merged.content, saved).map(change => [change.title, change.action]));
+
+		assert.deepStrictEqual(actions, {
+			'My Project': 'unchanged',
+			'Installation': 'kept',
+			'Usage': 'regenerated',
+			'Features': 'unchanged',
+			'Team Notes': 'preserved'
+		});
+		assert.strictEqual(getSavedReadmeChanges(merged.changes, merged.content, merged.content), merged.changes);
+	});
+
+	test('Ignores markers shown inside code fences', () => {
+		const existing = '# Tool\n\n## Markers\n\nPin a section like this:\n\n```markdown\n<!-- readme:keep -->\n```\n';
+		const { content, changes } = mergeReadme(existing, '# Tool\n\n## Markers\n\nSections can be pinned or regenerated on update.\n');
+
+		assert.strictEqual(changes.find(change => change.title === 'Markers')?.action, 'merged');
+		assert.ok(content.includes('```markdown\n<!-- readme:keep -->\n```\n\nSections can be pinned or regenerated on update.'));
+	});
+
+	test('Leaves a README without new content untouched', () => {
+		const { content, changes } = mergeReadme(EXISTING, '# Other Name\n\nHand-written intro.\n');
+
+		assert.strictEqual(content, EXISTING);
+		assert.strictEqual(changes.find(change => change.title === 'My Project')?.action, 'unchanged');
+	});
+});
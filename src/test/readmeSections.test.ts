@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { findSection, parseReadmeSections, renderReadmeSections, replaceSectionContent, upsertReadmeSection } from '../readmeSections';
+
+const README = `Intro badge line
+
+# My Project
+
+Some description.
+
+## Installation
+
+\`\`\`bash
+# not a heading
+npm install
+\`\`\`
+
+### Details
+
+More text.
+
+## License ##
+
+MIT
+`;
+
+suite('README Sections Test Suite', () => {
+	test('Splits at H1/H2 headings outside code fences and renders back exactly', () => {
+		const sections = parseReadmeSections(README);
+
+		assert.deepStrictEqual(sections.map(section => section.title), ['', 'My Project', 'Installation', 'License']);
+		assert.ok(sections[2].content.includes('### Details'));
+		assert.strictEqual(renderReadmeSections(sections), README);
+	});
+
+	test('Replaces one section and leaves the others untouched', () => {
+		const sections = parseReadmeSections(README);
+		const index = sections.indexOf(findSection(sections, '📦 installation')!);
+		const updated = renderReadmeSections(replaceSectionContent(sections, index, '## Installation\n\nRun `npm ci`.'));
+
+		assert.ok(updated.includes('## Installation\n\nRun `npm ci`.\n\n## License ##'));
+		assert.ok(updated.startsWith('Intro badge line\n\n# My Project\n\nSome description.\n\n'));
+		assert.ok(!updated.includes('### Details'));
+	});
+
+	test('Upserts a section in place or before the closing sections', () => {
+		const added = upsertReadmeSection(README, 'Packages', '| Package | Path |\n| --- | --- |');
+		assert.ok(added.includes('More text.\n\n## Packages\n\n| Package | Path |\n| --- | --- |\n\n## License ##\n\nMIT\n'));
+
+		const replaced = upsertReadmeSection(added, 'packages', 'None.');
+		assert.ok(replaced.includes('## Packages\n\nNone.\n\n## License ##'));
+		assert.strictEqual(upsertReadmeSection('# Title\n\nText.\n', 'Packages', 'None.'), '# Title\n\nText.\n\n## Packages\n\nNone.\n');
+	});
+});
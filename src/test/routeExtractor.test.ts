@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import { extractHttpRoutes } from '../routeExtractor';
+import { FileInfo, HttpRoute } from '../types';
+
+function file(filePath: string, content: string): FileInfo {
+	return { path: filePath, content, size: content.length, language: 'Unknown', isMainFile: false };
+}
+
+function summarize(routes: HttpRoute[]): string[] {
+	return routes.map(route => [
+		`${route.method} ${route.path}`,
+		route.handler ?? '-',
+		`${route.file}:${route.line}`,
+		route.description ?? '-',
+		route.framework
+	].join(' | '));
+}
+
+suite('Route Extractor Test Suite', () => {
+	test('Finds Express and NestJS routes with handlers and doc comments', () => {
+		const routes = extractHttpRoutes([
+			file('src/server.js', [
+				"const express = require('express');",
+				'const app = express();',
+				'// List all users',
+				"app.get('/users', listUsers);",
+				"app.post('/users', async (req, res) => {",
+				'});',
+				"axios.get('/not-a-route');"
+			].join('\n')),
+			file('src/orders.controller.ts', [
+				"import { Controller, Get, Post } from '@nestjs/common';",
+				'',
+				"@Controller('orders')",
+				'export class OrdersController {',
+				'    /** Fetch one order */',
+				"    @Get(':id')",
+				'    findOne() {}',
+				'',
+				'    @Post()',
+				'    @HttpCode(201)',
+				'    async create() {}',
+				'}'
+			].join('\n')),
+			file('src/server.test.js', "const express = require('express');\napp.get('/test-only', handler);")
+		]);
+
+		assert.deepStrictEqual(summarize(routes), [
+			'POST /orders | OrdersController.create | src/orders.controller.ts:9 | - | NestJS',
+			'GET /orders/:id | OrdersController.findOne | src/orders.controller.ts:6 | Fetch one order | NestJS',
+			'GET /users | listUsers | src/server.js:4 | List all users | Express',
+			'POST /users | - | src/server.js:5 | - | Express'
+		]);
+	});
+
+	test('Finds Flask, FastAPI and Django routes with prefixes and docstrings', () => {
+		const routes = extractHttpRoutes([
+			file('app/views.py', [
+				'from flask import Blueprint',
+				"bp = Blueprint('items', __name__, url_prefix='/items')",
+				'',
+				"@bp.route('/', methods=['GET', 'POST'])",
+				'def items():',
+				'    """List or create items."""',
+				'    pass'
+			].join('\n')),
+			file('api/users.py', [
+				'from fastapi import APIRouter',
+				"router = APIRouter(prefix='/api')",
+				'',
+				'# Current user',
+				"@router.get('/me')",
+				'async def me():',
+				'    return {}'
+			].join('\n')),
+			file('shop/urls.py', [
+				'urlpatterns = [',
+				"    path('products/<int:pk>/', views.ProductDetail.as_view()),",
+				"    path('admin/', include(admin.site.urls)),",
+				']'
+			].join('\n'))
+		]);
+
+		assert.deepStrictEqual(summarize(routes), [
+			'GET /api/me | me | api/users.py:5 | Current user | FastAPI',
+			'GET /items/ | items | app/views.py:4 | List or create items. | Flask',
+			'POST /items/ | items | app/views.py:4 | List or create items. | Flask',
+			'ANY /products/<int:pk>/ | views.ProductDetail | shop/urls.py:2 | - | Django'
+		]);
+	});
+
+	test('Merges Gin and Spring routes with the OpenAPI document describing them', () => {
+		const routes = extractHttpRoutes([
+			file('main.go', [
+				'import "github.com/gin-gonic/gin"',
+				'func main() {',
+				'    r := gin.Default()',
+				'    v1 := r.Group("/v1")',
+				'    v1.GET("/pets/:id", getPet)',
+				'}'
+			].join('\n')),
+			file('src/main/java/PetController.java', [
+				'@RestController',
+				'@RequestMapping("/v1/owners")',
+				'public class PetController {',
+				'    @PostMapping',
+				'    public Owner create(@RequestBody Owner owner) {}',
+				'}'
+			].join('\n')),
+			file('docs/openapi.yaml', [
+				'openapi: 3.0.0',
+				'paths:',
+				'  /v1/pets/{id}:',
+				'    get:',
+				'      summary: Get a pet',
+				'      operationId: getPet',
+				'  /v1/health:',
+				'    get:',
+				'      operationId: health'
+			].join('\n')),
+			file('swagger.json', '{ "not": "an api document" }')
+		]);
+
+		assert.deepStrictEqual(summarize(routes), [
+			'GET /v1/health | health | docs/openapi.yaml:7 | - | OpenAPI',
+			'POST /v1/owners | create | src/main/java/PetController.java:4 | - | Spring',
+			'GET /v1/pets/:id | getPet | main.go:5 | Get a pet | Gin'
+		]);
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import { isScriptManifest, parseManifestScripts, parsePackageEntryPoints } from '../scriptParser';
+import { ProjectScript } from '../types';
+
+function summarize(scripts: ProjectScript[]): string[] {
+	return scripts.map(script => `${script.invocation} | ${script.command}${script.description ? ` | ${script.description}` : ''}`);
+}
+
+suite('Script Parser Test Suite', () => {
+	test('Reads package.json scripts and entry points', () => {
+		const packageJson = JSON.stringify({
+			name: '@acme/tool',
+			main: './dist/index.cjs',
+			types: './dist/index.d.ts',
+			bin: './bin/tool.js',
+			exports: {
+				'.': { import: './dist/index.mjs', require: './dist/index.cjs' },
+				'./utils': './dist/utils.js'
+			},
+			scripts: { build: 'tsc -p .', test: 'mocha' }
+		});
+
+		assert.deepStrictEqual(summarize(parseManifestScripts('package.json', packageJson, 'pnpm')), [
+			'pnpm run build | tsc -p .',
+			'pnpm run test | mocha'
+		]);
+		assert.deepStrictEqual(parsePackageEntryPoints(packageJson).map(entry => `${entry.kind} ${entry.name ?? '-'} ${entry.condition ?? '-'} ${entry.path}`), [
+			'main - - ./dist/index.cjs',
+			'types - - ./dist/index.d.ts',
+			'bin tool - ./bin/tool.js',
+			'export . import ./dist/index.mjs',
+			'export . require ./dist/index.cjs',
+			'export ./utils - ./dist/utils.js'
+		]);
+	});
+
+	test('Reads Makefile targets and justfile recipes with their descriptions', () => {
+		const makefile = [
+			'VERSION := 1.0',
+			'.PHONY: build test docs.serve',
+			'',
+			'# Compile the binary',
+			'build: deps ## Build everything',
+			'\t@go build ./...',
+			'',
+			'\tgo vet ./...',
+			'',
+			'test build-all: build',
+			'\t-go test ./...',
+			'docs.serve:',
+			'\tmkdocs serve',
+			'main.o: main.c',
+			'\tcc -c main.c',
+			'ci: build test'
+		].join('\n');
+		assert.deepStrictEqual(summarize(parseManifestScripts('Makefile', makefile)), [
+			'make build | go build ./... && go vet ./... | Build everything',
+			'make test | go test ./...',
+			'make build-all | go test ./...',
+			'make docs.serve | mkdocs serve',
+			'make ci | build test'
+		]);
+
+		const justfile = [
+			'set dotenv-load',
+			'version := "1.0"',
+			'',
+			'# Run the tests',
+			'test *args:',
+			'    cargo test {{args}}',
+			'',
+			"[doc('Deploy to an environment')]",
+			"deploy env region='eu':",
+			'    ./deploy.sh {{env}} {{region}}',
+			'',
+			'[private]',
+			'helper:',
+			'    echo hidden',
+			'_setup:',
+			'    echo hidden'
+		].join('\n');
+		assert.deepStrictEqual(summarize(parseManifestScripts('justfile', justfile)), [
+			'just test [args]... | cargo test {{args}} | Run the tests',
+			'just deploy <env> [region] | ./deploy.sh {{env}} {{region}} | Deploy to an environment'
+		]);
+	});
+
+	test('Reads Taskfile tasks, Python console scripts and Cargo binaries', () => {
+		const taskfile = 'version: "3"\ntasks:\n  build:\n    desc: Build the app\n    cmds:\n      - go build\n      - task: lint\n  lint: golangci-lint run\n  setup:\n    internal: true\n    cmds: [echo hi]\n  release:\n    deps:\n      - task: build\n        vars: { MODE: prod }\n      - lint\n';
+		assert.deepStrictEqual(summarize(parseManifestScripts('Taskfile.yml', taskfile)), [
+			'task build | go build && task lint | Build the app',
+			'task lint | golangci-lint run',
+			'task release | deps: build, lint'
+		]);
+
+		const pyproject = '[project.scripts]\nacme = "acme.cli:main"\n[tool.poetry.scripts]\nacme = "ignored:main"\nacme-admin = "acme.admin:run"\n';
+		assert.deepStrictEqual(summarize(parseManifestScripts('pyproject.toml', pyproject)), [
+			'acme | acme.cli:main',
+			'acme-admin | acme.admin:run'
+		]);
+
+		const cargo = '[package]\nname = "acme"\n[[bin]]\nname = "acme-server"\npath = "src/server.rs"\n[[bin]]\nname = "acme-cli"\n';
+		assert.deepStrictEqual(summarize(parseManifestScripts('Cargo.toml', cargo)), [
+			'cargo run --bin acme-server | src/server.rs',
+			'cargo run --bin acme-cli | src/bin/acme-cli.rs'
+		]);
+
+		assert.ok(isScriptManifest('GNUmakefile') && isScriptManifest('Justfile') && !isScriptManifest('build.gradle') && !isScriptManifest('constructor'));
+		assert.deepStrictEqual(parseManifestScripts('Taskfile.yml', 'tasks: [unclosed'), []);
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { parseStructuredReadme, renderStructuredReadme } from '../structuredReadme';
+
+suite('Structured README Test Suite', () => {
+	test('Repairs common JSON mistakes', () => {
+		const response = 'Here is the README:\n```json\n{"sections": [\n  {"title": "Usage", "content": "Run:\n\nnpm start", "order": "2"},\n  {"title": "Overview", "content": "A tool.", "order": 1},\n]}\n```';
+		const result = parseStructuredReadme(response);
+
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.sections?.map(section => [section.title, section.order]), [['Usage', 2], ['Overview', 1]]);
+		assert.strictEqual(result.sections?.[0].content, 'Run:\n\nnpm start');
+
+		const truncated = parseStructuredReadme('{"sections": [{"title": "Overview", "content": "Cut off here');
+		assert.strictEqual(truncated.sections?.[0].content, 'Cut off here');
+	});
+
+	test('Reports schema violations', () => {
+		const result = parseStructuredReadme('{"sections": [{"title": "", "content": 3, "order": "first"}]}');
+
+		assert.strictEqual(result.sections, undefined);
+		assert.deepStrictEqual(result.errors, [
+			'sections[0].title: expected a non-empty string',
+			'sections[0].content: expected a string',
+			'sections[0].order: expected a number'
+		]);
+		assert.ok(parseStructuredReadme('no json here').errors.length > 0);
+	});
+
+	test('Renders sections in order with a stable outline', () => {
+		const markdown = renderStructuredReadme('demo', [
+			{ title: 'Usage', content: '## Usage\n\nRun it.\n\n## Advanced\n\nMore.', order: 2 },
+			{ title: 'Overview', content: 'A tool.', order: 1 },
+			{ title: 'usage', content: 'Also this.', order: 3 },
+			{ title: 'Empty', content: '  ', order: 4 }
+		]);
+
+		assert.strictEqual(markdown, '# demo\n\n## Overview\n\nA tool.\n\n## Usage\n\nRun it.\n\n### Advanced\n\nMore.\n\nAlso this.\n');
+	});
+});
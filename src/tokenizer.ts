@@ -0,0 +1,48 @@
+// tokenizer.ts - Count tokens with the BPE encoding used by the configured model
+
+import * as cl100k from 'gpt-tokenizer/encoding/cl100k_base';
+import * as o200k from 'gpt-tokenizer/encoding/o200k_base';
+
+export type TokenEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Pick the encoding for a model name. GPT-4o and newer OpenAI models use
+ * o200k_base; everything else, including Perplexity's Sonar models whose
+ * tokenizer is not published, is counted with cl100k_base.
+ */
+export function getEncodingForModel(model: string): TokenEncoding {
+    const name = model.toLowerCase().split('/').pop() ?? '';
+
+    if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|o\d|chatgpt-4o)/.test(name)) {
+        return 'o200k_base';
+    }
+    return 'cl100k_base';
+}
+
+/** Chat formatting overhead per message and for priming the reply, as in OpenAI's counting guide */
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Number of tokens `text` takes for the given model
+ */
+export function countTokens(text: string, model: string): number {
+    if (!text) {
+        return 0;
+    }
+
+    const encoding = getEncodingForModel(model) === 'o200k_base' ? o200k : cl100k;
+
+    // Special-token text such as "<|endoftext|>" in source files is counted as plain text
+    return encoding.countTokens(text, { disallowedSpecial: new Set() });
+}
+
+/**
+ * Prompt tokens of a chat request, including the per-message formatting
+ */
+export function countMessageTokens(messages: { role: string; content: string }[], model: string): number {
+    if (messages.length === 0) {
+        return 0;
+    }
+    return messages.reduce((total, message) => total + TOKENS_PER_MESSAGE + countTokens(message.content, model), TOKENS_PER_REPLY);
+}
@@ -7,6 +7,8 @@ export interface FileInfo {
     size: number;
     language: string;
     isMainFile: boolean;
+    /** `content` holds a structural outline because the file exceeded maxFileSize */
+    isOutline?: boolean;
 }
 
 /**
@@ -17,10 +19,244 @@ export interface CodebaseAnalysis {
     totalSize: number;
     languages: string[];
     mainFiles: string[];
+    /** Names of all dependencies, runtime and development */
     dependencies: string[];
+    /** Dependencies with versions and scope, per manifest */
+    dependencyDetails: Dependency[];
+    /** Names of the detected frameworks, most confident first */
     frameworks: string[];
+    /** Frameworks, build tools, test runners and ORMs with their confidence */
+    technologies: DetectedTechnology[];
     projectType: string;
     structure: ProjectStructure;
+    metadata: ProjectMetadata;
+    scripts: ProjectScript[];
+    /** Entry points declared by the root package.json */
+    entryPoints: EntryPoint[];
+    /** Environment variables read by the code or listed in example dotenv files */
+    environmentVariables: EnvironmentVariable[];
+    /** HTTP endpoints declared in code or OpenAPI/Swagger documents */
+    routes: HttpRoute[];
+    /** Commands and options of a command-line program, when the project is one */
+    cli?: CommandLineInterface;
+    /** Exports of the package entry points, for libraries written in TypeScript or JavaScript */
+    publicApi?: PublicApi;
+    /** Set when the folder is a monorepo; packages then have their own analysis */
+    monorepo?: MonorepoLayout;
+}
+
+/**
+ * Workspace packages of a monorepo and the tools that declare them
+ */
+export interface MonorepoLayout {
+    /** e.g. ["pnpm workspaces", "Turborepo"] */
+    tools: string[];
+    packages: MonorepoPackage[];
+}
+
+/**
+ * One package of a monorepo
+ */
+export interface MonorepoPackage {
+    name: string;
+    /** Package folder relative to the repository root, with forward slashes */
+    path: string;
+    /** Manifest that defines the package, e.g. "packages/core/package.json" */
+    manifest: string;
+    description?: string;
+    /** Analysis of the package's own files, with paths relative to its folder */
+    analysis?: CodebaseAnalysis;
+}
+
+/**
+ * Kinds of technology the framework detector recognizes
+ */
+export type TechnologyCategory = 'framework' | 'build-tool' | 'test-runner' | 'orm';
+
+/**
+ * A framework or tool found in the project by the detector rules
+ */
+export interface DetectedTechnology {
+    name: string;
+    category: TechnologyCategory;
+    /** 0-1, combined from the weights of the matching signals */
+    confidence: number;
+    /** Human-readable signals, e.g. "depends on next ^14.1.0" */
+    evidence: string[];
+}
+
+/**
+ * Package manager ecosystems whose manifests are parsed for dependencies
+ */
+export type DependencyEcosystem = 'npm' | 'pypi' | 'go' | 'cargo' | 'maven' | 'gradle' | 'rubygems' | 'composer' | 'pub';
+
+/**
+ * One declared dependency of the project
+ */
+export interface Dependency {
+    name: string;
+    /** Version or constraint as written in the manifest, e.g. "^1.2.0" or ">=2,<3" */
+    version?: string;
+    /** Runtime dependencies are needed to run the project, dev ones only to build, test or lint it */
+    scope: 'runtime' | 'dev' | 'peer' | 'optional';
+    ecosystem: DependencyEcosystem;
+    /** Workspace-relative path of the manifest that declares it */
+    manifest: string;
+    /** Python extras, e.g. ["standard"] for uvicorn[standard] */
+    extras?: string[];
+    /** Python environment marker, e.g. python_version < "3.11" */
+    marker?: string;
+}
+
+/**
+ * Descriptive project metadata read from the package manifest
+ */
+export interface ProjectMetadata {
+    name: string;
+    description?: string;
+    version?: string;
+    license?: string;
+    repository?: string;
+    homepage?: string;
+    packageManager?: string;
+    /** Runtime versions from package.json `engines`, e.g. { node: ">=18" } */
+    engines?: Record<string, string>;
+}
+
+/**
+ * Build manifests that declare runnable scripts
+ */
+export type ScriptSource = 'npm' | 'make' | 'just' | 'task' | 'python' | 'cargo';
+
+/**
+ * A runnable script declared by the project
+ */
+export interface ProjectScript {
+    name: string;
+    /** What it runs: the script body, recipe, Python entry ("pkg.cli:main") or binary source */
+    command: string;
+    source: ScriptSource;
+    /** Shell command that runs it, e.g. "pnpm run build", "make test" or "just deploy <env>" */
+    invocation: string;
+    description?: string;
+    /** Workspace-relative path of the file that declares it */
+    manifest: string;
+}
+
+/**
+ * A file package.json exposes to users: main, module, types, a bin command or an export
+ */
+export interface EntryPoint {
+    kind: 'main' | 'module' | 'types' | 'bin' | 'export';
+    /** Command name of a bin entry, or subpath of an export ("." or "./utils") */
+    name?: string;
+    /** Export condition, e.g. "import" or "require" */
+    condition?: string;
+    path: string;
+}
+
+/**
+ * An environment variable the project reads
+ */
+export interface EnvironmentVariable {
+    name: string;
+    /** No read gives a default or tolerates the variable being unset */
+    required: boolean;
+    /** Default next to a read, as written in the code, e.g. "3000" or "'localhost'" */
+    defaultValue?: string;
+    /** Value from the example dotenv file */
+    example?: string;
+    /** Comment above the variable in the example dotenv file */
+    description?: string;
+    /** Example dotenv file that lists it, e.g. ".env.example" */
+    documentedIn?: string;
+    /** Files that read it, workspace-relative with forward slashes */
+    files: string[];
+}
+
+/**
+ * An HTTP endpoint found in the code or an OpenAPI document
+ */
+export interface HttpRoute {
+    /** Upper-case HTTP method, or "ANY" when the route accepts every method */
+    method: string;
+    /** Path as declared, including any router or controller prefix in the same file */
+    path: string;
+    /** Handler function, Controller.method or OpenAPI operationId */
+    handler?: string;
+    /** Workspace-relative file with forward slashes, and 1-based line */
+    file: string;
+    line: number;
+    /** First line of the doc comment, docstring or OpenAPI summary */
+    description?: string;
+    /** e.g. "Express", "FastAPI", "Spring" or "OpenAPI" */
+    framework: string;
+}
+
+/**
+ * A flag or positional argument of a command-line command
+ */
+export interface CliOption {
+    /** As shown in help output, e.g. "-o, --output <file>", or "<path>" for a positional argument */
+    flags: string;
+    positional: boolean;
+    description?: string;
+    defaultValue?: string;
+    required: boolean;
+}
+
+/**
+ * A command of a command-line program
+ */
+export interface CliCommand {
+    /** Words typed after the program name, e.g. "remote add"; empty for the program itself */
+    name: string;
+    description?: string;
+    options: CliOption[];
+    /** Workspace-relative file with forward slashes, and 1-based line */
+    file: string;
+    line: number;
+}
+
+/**
+ * A command-line program and its commands
+ */
+export interface CommandLineInterface {
+    /** Name users type, e.g. the package.json `bin` name */
+    program: string;
+    /** Argument parsers the commands were read from, e.g. "commander" or "clap" */
+    frameworks: string[];
+    /** Sorted by name, so the program itself comes first */
+    commands: CliCommand[];
+}
+
+/**
+ * An exported function, class, interface, type, enum or variable
+ */
+export interface ApiSymbol {
+    /** Name it is exported as */
+    name: string;
+    kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+    /** Declaration without implementation, e.g. "function parse(text: string): Node" */
+    signature: string;
+    /** JSDoc text without tags */
+    description?: string;
+    deprecated?: boolean;
+    /** Workspace-relative file with forward slashes, and 1-based line */
+    file: string;
+    line: number;
+}
+
+/**
+ * Public API of a library, read from its entry points
+ */
+export interface PublicApi {
+    /** Source files the exports were read from */
+    entries: string[];
+    /** At most `readmeGenerator.publicApi.maxEntries` symbols; named exports come before those of `export *` */
+    symbols: ApiSymbol[];
+    /** Number of exported symbols found, including those left out */
+    total: number;
 }
 
 /**
@@ -36,7 +272,7 @@ export interface ProjectStructure {
 }
 
 /**
- * Message format for Perplexity API
+ * Chat message format shared by all LLM providers
  */
 export interface PerplexityMessage {
     role: 'system' | 'user' | 'assistant';
@@ -53,6 +289,18 @@ export interface CodeChunk {
     description: string;
 }
 
+/**
+ * Structured notes extracted from one or more code chunks (map phase of generation)
+ */
+export interface ChunkSummary {
+    /** Index of the first chunk the summary covers */
+    chunkIndex: number;
+    description: string;
+    files: string[];
+    /** Markdown notes under the fixed summary headings */
+    content: string;
+}
+
 /**
  * README section structure
  */
@@ -60,6 +308,10 @@ export interface ReadmeSection {
     title: string;
     content: string;
     order: number;
+    /** Heading level (1 or 2), 0 for text before the first heading */
+    level?: number;
+    /** Original heading line, kept so unchanged sections render byte-for-byte */
+    heading?: string;
 }
 
 /**
@@ -74,10 +326,41 @@ export interface GenerationProgress {
     processedFiles?: number;
 }
 
+/**
+ * Identifiers of the supported LLM providers
+ */
+export type LLMProviderType = 'perplexity' | 'openaiCompatible';
+
+/**
+ * Per-request options for LLM generation
+ */
+export interface GenerationOptions {
+    /** When set, the response is streamed and each text delta is passed here */
+    onToken?: (text: string) => void;
+    signal?: AbortSignal;
+    /** Overrides the provider's default completion length */
+    maxTokens?: number;
+}
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LLMProvider {
+    readonly name: string;
+    generateReadmeChunk(chunk: CodeChunk, isFirstChunk?: boolean, options?: GenerationOptions): Promise<string>;
+    /** Run an arbitrary chat completion with the provider's retry handling */
+    complete(messages: PerplexityMessage[], options?: GenerationOptions): Promise<string>;
+    /** Resolves true when the provider answers; rejects with a typed error from errors.ts otherwise */
+    testConnection(): Promise<boolean>;
+    estimateTokenCount(text: string): number;
+    validateAPIKey(): boolean;
+}
+
 /**
  * Extension configuration settings
  */
 export interface ExtensionConfig {
+    provider: LLMProviderType;
     perplexityApiKey: string;
     excludePatterns: string[];
     maxFileSize: number;
@@ -91,5 +374,154 @@ export interface ExtensionConfig {
 export interface GitignoreRule {
     pattern: string;
     isNegation: boolean;
+    /** Only matches directories (pattern had a trailing slash) */
     isDirectory: boolean;
+    /** Absolute, forward-slash directory the pattern is relative to */
+    baseDir: string;
+    /** File the rule was read from, or 'default' for built-in exclusions */
+    source: string;
+    line?: number;
+    regex: RegExp;
+}
+
+
+/**
+ * Why a path is included in or excluded from the analysis
+ */
+export interface IgnoreExplanation {
+    ignored: boolean;
+    /** Last rule matching the path (or its ignored parent), if any */
+    rule?: GitignoreRule;
+    /** Workspace-relative directory whose exclusion hides the path */
+    ignoredParent?: string;
+}
+
+/**
+ * Outcome of README generation for one workspace folder in a batch run
+ */
+export interface FolderGenerationResult {
+    folderName: string;
+    folderPath: string;
+    status: 'succeeded' | 'failed' | 'skipped';
+    detail: string;
+    readmePath?: string;
+}
+/**
+ * How to save over an existing README.md
+ */
+export type ExistingReadmePolicy = 'ask' | 'update' | 'overwrite';
+
+/**
+ * What an update did to one section of an existing README
+ */
+export interface ReadmeChange {
+    title: string;
+    action: 'kept' | 'regenerated' | 'merged' | 'unchanged' | 'added' | 'preserved';
+    detail: string;
+}
+
+/**
+ * Result of merging generated content into an existing README
+ */
+export interface ReadmeMergeResult {
+    content: string;
+    changes: ReadmeChange[];
+}
+
+/**
+ * Outcome of parsing a structured (JSON) README response
+ */
+export interface StructuredReadmeResult {
+    /** Set only when the response passed validation */
+    sections?: ReadmeSection[];
+    errors: string[];
+    /** Problems that were fixed automatically */
+    repairs: string[];
+}
+
+/**
+ * One section that differs between the README on disk and the proposed README
+ */
+export interface ReadmeSectionDiff {
+    /** Pairs the current and proposed section, e.g. "installation" */
+    key: string;
+    title: string;
+    status: 'changed' | 'added' | 'removed';
+    current?: ReadmeSection;
+    proposed?: ReadmeSection;
+}
+
+/**
+ * User-defined secret pattern from `readmeGenerator.redaction.customPatterns`
+ */
+export interface CustomRedactionPattern {
+    name: string;
+    /** Regular expression source, matched case-sensitively unless flags say otherwise */
+    pattern: string;
+    flags?: string;
+}
+
+/**
+ * One value replaced before file contents were sent to the AI provider
+ */
+export interface RedactionFinding {
+    file: string;
+    /** 1-based line of the original file */
+    line: number;
+    detector: string;
+    /** Masked form of the value, never the value itself */
+    preview: string;
+}
+
+/**
+ * Everything the redaction pass replaced in one analysis
+ */
+export interface RedactionReport {
+    findings: RedactionFinding[];
+    filesAffected: number;
+    /** Custom patterns that could not be compiled */
+    errors: string[];
+}
+
+/**
+ * File or folder in the privacy review tree of files to send to the AI provider
+ */
+export interface FileSelectionNode {
+    name: string;
+    /** Workspace-relative path with forward slashes */
+    path: string;
+    isFolder: boolean;
+    children: FileSelectionNode[];
+    /** Bytes and estimated tokens of the file, or of all files below a folder */
+    size: number;
+    tokens: number;
+}
+
+/**
+ * One request a README generation run would send, worked out without calling the provider
+ */
+export interface PlannedRequest {
+    /** e.g. "Summarize chunk 2/5" */
+    label: string;
+    phase: 'readme' | 'summary' | 'merge' | 'synthesis';
+    messages: PerplexityMessage[];
+    /** Files whose content is in the prompt */
+    files: string[];
+    inputTokens: number;
+    /** Upper bound: the request's max_tokens */
+    outputTokens: number;
+    /** The prompt has placeholders for the output of earlier requests, so its size is estimated */
+    estimated: boolean;
+}
+
+/**
+ * Price of a model in US dollars
+ */
+export interface ModelPrice {
+    /** Per million input tokens */
+    input: number;
+    /** Per million output tokens */
+    output: number;
+    /** Flat fee per request, e.g. for online search models */
+    perRequest?: number;
 }